@@ -0,0 +1,48 @@
+import React from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { useAdminStats } from "@/lib/hooks/useAdminStats";
+import LogoutButton from "@/components/auth/LogoutButton";
+import StatsCards from "./StatsCards";
+
+const AdminDashboardContent: React.FC = () => {
+  const { data: stats, isLoading, error } = useAdminStats();
+
+  return (
+    <div className="flex flex-col min-h-full w-full">
+      <header className="flex items-center justify-between gap-2 px-4 py-3 border-b bg-background sticky top-0 z-10">
+        <h1 className="text-lg font-semibold">Panel administratora</h1>
+        <div className="flex items-center gap-2">
+          {stats && (
+            <span className="text-sm text-muted-foreground">
+              Stan na {new Date(stats.generatedAt).toLocaleString("pl-PL")}
+            </span>
+          )}
+          <LogoutButton />
+        </div>
+      </header>
+
+      <main className="flex-1 px-4 py-4 space-y-4">
+        {isLoading && <p className="text-center py-4">Ładowanie...</p>}
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error.message}
+          </p>
+        )}
+        {stats && <StatsCards stats={stats} />}
+      </main>
+    </div>
+  );
+};
+
+const AdminDashboardPage: React.FC = () => {
+  // ensure a stable client instance across renders
+  const [queryClient] = React.useState(() => new QueryClient());
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <AdminDashboardContent />
+    </QueryClientProvider>
+  );
+};
+
+export default AdminDashboardPage;
@@ -0,0 +1,121 @@
+import React from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import type { AdminStatsDTO, RoleUserStatsDTO } from "@/types";
+
+interface Props {
+  stats: AdminStatsDTO;
+}
+
+const numberFormat = new Intl.NumberFormat("pl-PL");
+const dateFormat = new Intl.DateTimeFormat("pl-PL", { day: "2-digit", month: "2-digit" });
+
+function formatBytes(bytes: number): string {
+  const units = ["B", "KB", "MB", "GB", "TB"];
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit += 1;
+  }
+
+  return `${numberFormat.format(Math.round(value * 10) / 10)} ${units[unit]}`;
+}
+
+function formatHours(hours: number | null): string {
+  if (hours === null) return "—";
+  return hours < 48
+    ? `${numberFormat.format(hours)} h`
+    : `${numberFormat.format(Math.round((hours / 24) * 10) / 10)} dni`;
+}
+
+const UserCard: React.FC<{ title: string; stats: RoleUserStatsDTO }> = ({ title, stats }) => (
+  <Card className="gap-2">
+    <CardHeader>
+      <CardDescription>{title}</CardDescription>
+      <CardTitle className="text-3xl">{numberFormat.format(stats.total)}</CardTitle>
+    </CardHeader>
+    <CardContent className="text-sm text-muted-foreground">
+      Aktywne: {numberFormat.format(stats.active)} · Oczekujące: {numberFormat.format(stats.pending)}
+    </CardContent>
+  </Card>
+);
+
+const StatsCards: React.FC<Props> = ({ stats }) => {
+  const weeks = stats.reportsPerWeek;
+  const currentWeek = weeks[weeks.length - 1];
+  const maxReports = Math.max(1, ...weeks.map((week) => week.reportCount));
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+      <UserCard title="Trenerzy" stats={stats.users.trainer} />
+      <UserCard title="Klienci" stats={stats.users.client} />
+
+      <Card className="gap-2">
+        <CardHeader>
+          <CardDescription>Średni czas aktywacji konta</CardDescription>
+          <CardTitle className="text-3xl">{formatHours(stats.averageActivationHours)}</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground">
+          Trenerzy: {formatHours(stats.users.trainer.averageActivationHours)} · Klienci:{" "}
+          {formatHours(stats.users.client.averageActivationHours)}
+        </CardContent>
+      </Card>
+
+      <Card className="gap-2 sm:col-span-2">
+        <CardHeader>
+          <CardDescription>Raporty w bieżącym tygodniu</CardDescription>
+          <CardTitle className="text-3xl">{numberFormat.format(currentWeek?.reportCount ?? 0)}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <table className="w-full text-sm" aria-label={`Raporty w ostatnich ${weeks.length} tygodniach`}>
+            <thead className="sr-only">
+              <tr>
+                <th scope="col">Tydzień</th>
+                <th scope="col">Wykres</th>
+                <th scope="col">Raporty</th>
+                <th scope="col">Klienci</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...weeks].reverse().map((week) => (
+                <tr key={`${week.year}-${week.weekNumber}`}>
+                  <td className="py-0.5 pr-2 whitespace-nowrap text-muted-foreground">
+                    Tydz. {week.weekNumber} ({dateFormat.format(new Date(week.weekStart))})
+                  </td>
+                  <td className="w-full py-0.5">
+                    <div
+                      className="h-2 rounded bg-primary"
+                      style={{ width: `${(week.reportCount / maxReports) * 100}%` }}
+                      aria-hidden="true"
+                    />
+                  </td>
+                  <td className="py-0.5 pl-2 text-right tabular-nums">{numberFormat.format(week.reportCount)}</td>
+                  <td className="py-0.5 pl-2 text-right tabular-nums text-muted-foreground whitespace-nowrap">
+                    {numberFormat.format(week.clientCount)} kl.
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card className="gap-2">
+        <CardHeader>
+          <CardDescription>Zdjęcia w magazynie</CardDescription>
+          <CardTitle className="text-3xl">{formatBytes(stats.storage.totalBytes)}</CardTitle>
+        </CardHeader>
+        <CardContent className="text-sm text-muted-foreground">
+          {numberFormat.format(stats.storage.imageCount)} zdjęć
+          {stats.storage.pendingPurgeCount > 0 &&
+            ` · do usunięcia: ${numberFormat.format(stats.storage.pendingPurgeCount)} (${formatBytes(
+              stats.storage.pendingPurgeBytes
+            )})`}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default StatsCards;
@@ -0,0 +1,78 @@
+import React from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ApiRequestError } from "@/lib/api-client";
+import { useAcceptInvitation } from "@/lib/hooks/useAuth";
+import NewPasswordForm, { PASSWORD_POLICY_MESSAGE } from "./NewPasswordForm";
+
+interface AcceptInvitationPageProps {
+  token: string;
+  /** The link was used, resent, revoked or is past its 24 hours */
+  expired: boolean;
+}
+
+const LinkExpired: React.FC = () => (
+  <Card className="w-full max-w-sm">
+    <CardHeader>
+      <CardTitle className="text-xl">Link wygasł</CardTitle>
+      <CardDescription>
+        Ten link aktywacyjny został już użyty albo stracił ważność. Poproś trenera o wysłanie nowego.
+      </CardDescription>
+    </CardHeader>
+    <CardContent>
+      <Button asChild variant="outline" className="w-full">
+        <a href="/login">Przejdź do logowania</a>
+      </Button>
+    </CardContent>
+  </Card>
+);
+
+function describeError(error: Error): string {
+  if (error instanceof ApiRequestError && error.status === 400) {
+    return PASSWORD_POLICY_MESSAGE;
+  }
+  return "Nie udało się aktywować konta. Spróbuj ponownie.";
+}
+
+const AcceptInvitationContent: React.FC<AcceptInvitationPageProps> = ({ token, expired }) => {
+  const { mutate: acceptInvitation, isPending, isSuccess, error } = useAcceptInvitation();
+
+  // The link can also expire while the form is open
+  if (expired || (error instanceof ApiRequestError && error.status === 410)) {
+    return <LinkExpired />;
+  }
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <CardTitle className="text-xl">Aktywacja konta</CardTitle>
+        <CardDescription>Ustaw hasło, którym będziesz się logować.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <NewPasswordForm
+          onSubmit={(password) => acceptInvitation({ token, password })}
+          busy={isPending || isSuccess}
+          submitLabel="Aktywuj konto"
+          busyLabel="Aktywowanie..."
+          errorMessage={error ? describeError(error) : null}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+const AcceptInvitationPage: React.FC<AcceptInvitationPageProps> = (props) => {
+  // ensure a stable client instance across renders
+  const [queryClient] = React.useState(() => new QueryClient());
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <main className="flex min-h-full w-full items-center justify-center px-4 py-8">
+        <AcceptInvitationContent {...props} />
+      </main>
+    </QueryClientProvider>
+  );
+};
+
+export default AcceptInvitationPage;
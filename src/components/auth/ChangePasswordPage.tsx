@@ -0,0 +1,67 @@
+import React from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ApiRequestError } from "@/lib/api-client";
+import { useChangePassword } from "@/lib/hooks/useAuth";
+import LogoutButton from "./LogoutButton";
+import NewPasswordForm, { PASSWORD_POLICY_MESSAGE } from "./NewPasswordForm";
+
+interface ChangePasswordPageProps {
+  /** The user signed in with a one-time password and cannot continue before changing it */
+  required: boolean;
+}
+
+function describeError(error: Error): string {
+  if (error instanceof ApiRequestError && error.status === 400) {
+    return PASSWORD_POLICY_MESSAGE;
+  }
+  if (error instanceof ApiRequestError && error.status === 403) {
+    return "Obecne hasło jest nieprawidłowe";
+  }
+  return "Nie udało się zmienić hasła. Spróbuj ponownie.";
+}
+
+const ChangePasswordContent: React.FC<ChangePasswordPageProps> = ({ required }) => {
+  const { mutate: changePassword, isPending, isSuccess, error } = useChangePassword();
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-xl">Zmiana hasła</CardTitle>
+          <LogoutButton />
+        </div>
+        <CardDescription>
+          {required
+            ? "Zalogowano hasłem jednorazowym. Podaj je i ustaw własne hasło, aby kontynuować."
+            : "Ustaw nowe hasło, którym będziesz się logować."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <NewPasswordForm
+          onSubmit={(password, currentPassword) => changePassword({ currentPassword, password })}
+          askCurrentPassword
+          busy={isPending || isSuccess}
+          submitLabel="Zmień hasło"
+          busyLabel="Zapisywanie..."
+          errorMessage={error ? describeError(error) : null}
+        />
+      </CardContent>
+    </Card>
+  );
+};
+
+const ChangePasswordPage: React.FC<ChangePasswordPageProps> = (props) => {
+  // ensure a stable client instance across renders
+  const [queryClient] = React.useState(() => new QueryClient());
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <main className="flex min-h-full w-full items-center justify-center px-4 py-8">
+        <ChangePasswordContent {...props} />
+      </main>
+    </QueryClientProvider>
+  );
+};
+
+export default ChangePasswordPage;
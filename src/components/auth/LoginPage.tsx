@@ -0,0 +1,110 @@
+import React, { useId, useState } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ApiRequestError } from "@/lib/api-client";
+import { useLogin } from "@/lib/hooks/useAuth";
+import type { LoginCommand } from "@/types";
+
+type LoginMethod = LoginCommand["method"];
+
+function describeError(error: Error): string {
+  if (error instanceof ApiRequestError && (error.status === 400 || error.status === 401)) {
+    // the same message whether or not the account exists
+    return "Nieprawidłowe dane logowania";
+  }
+  return "Nie udało się zalogować. Spróbuj ponownie.";
+}
+
+const LoginContent: React.FC = () => {
+  const { mutate: login, isPending, isSuccess, error } = useLogin();
+  const [method, setMethod] = useState<LoginMethod>("email");
+  const [identifier, setIdentifier] = useState("");
+  const [password, setPassword] = useState("");
+  const identifierId = useId();
+  const passwordId = useId();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    login(
+      method === "email"
+        ? { method, email: identifier.trim(), password }
+        : { method, phone: identifier.trim(), password }
+    );
+  };
+
+  const handleMethodChange = (value: string) => {
+    setMethod(value as LoginMethod);
+    setIdentifier("");
+  };
+
+  return (
+    <main className="flex min-h-full w-full items-center justify-center px-4 py-8">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle className="text-xl">Logowanie</CardTitle>
+          <CardDescription>Trenerzy logują się adresem e-mail, klienci numerem telefonu.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+            <Tabs value={method} onValueChange={handleMethodChange}>
+              <TabsList className="w-full">
+                <TabsTrigger value="email">Trener</TabsTrigger>
+                <TabsTrigger value="phone">Klient</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <div className="flex flex-col gap-1">
+              <label htmlFor={identifierId} className="text-sm font-medium">
+                {method === "email" ? "E-mail" : "Numer telefonu"}
+              </label>
+              <Input
+                id={identifierId}
+                type={method === "email" ? "email" : "tel"}
+                autoComplete={method === "email" ? "email" : "tel"}
+                value={identifier}
+                onChange={(event) => setIdentifier(event.target.value)}
+                required
+              />
+            </div>
+            <div className="flex flex-col gap-1">
+              <label htmlFor={passwordId} className="text-sm font-medium">
+                Hasło
+              </label>
+              <Input
+                id={passwordId}
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(event) => setPassword(event.target.value)}
+                required
+              />
+            </div>
+            {error && (
+              <p role="alert" className="text-sm text-destructive">
+                {describeError(error)}
+              </p>
+            )}
+            <Button type="submit" disabled={isPending || isSuccess}>
+              {isPending || isSuccess ? "Logowanie..." : "Zaloguj się"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </main>
+  );
+};
+
+const LoginPage: React.FC = () => {
+  // ensure a stable client instance across renders
+  const [queryClient] = React.useState(() => new QueryClient());
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <LoginContent />
+    </QueryClientProvider>
+  );
+};
+
+export default LoginPage;
@@ -0,0 +1,17 @@
+import React from "react";
+import { LogOut } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLogout } from "@/lib/hooks/useAuth";
+
+const LogoutButton: React.FC = () => {
+  const { mutate: logout, isPending } = useLogout();
+
+  return (
+    <Button variant="ghost" size="icon" onClick={() => logout()} disabled={isPending}>
+      <LogOut className="w-5 h-5" />
+      <span className="sr-only">Wyloguj się</span>
+    </Button>
+  );
+};
+
+export default LogoutButton;
@@ -0,0 +1,112 @@
+import React, { useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+
+interface Props {
+  /** `currentPassword` is empty unless askCurrentPassword is set */
+  onSubmit: (password: string, currentPassword: string) => void;
+  /** Also ask for the password the user has now */
+  askCurrentPassword?: boolean;
+  /** Request in flight, or done and the page is about to change */
+  busy: boolean;
+  submitLabel: string;
+  busyLabel: string;
+  errorMessage: string | null;
+}
+
+/** Error text for a new password the API rejected with 400 */
+export const PASSWORD_POLICY_MESSAGE =
+  "Hasło musi mieć od 8 do 72 znaków, w tym co najmniej jedną literę i jedną cyfrę.";
+
+/**
+ * New password with a confirmation field; submits only when both match.
+ */
+const NewPasswordForm: React.FC<Props> = ({
+  onSubmit,
+  askCurrentPassword = false,
+  busy,
+  submitLabel,
+  busyLabel,
+  errorMessage,
+}) => {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirmation, setConfirmation] = useState("");
+  const [mismatch, setMismatch] = useState(false);
+  const currentPasswordId = useId();
+  const passwordId = useId();
+  const confirmationId = useId();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (password !== confirmation) {
+      setMismatch(true);
+      return;
+    }
+    setMismatch(false);
+    onSubmit(password, currentPassword);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex flex-col gap-4">
+      {askCurrentPassword && (
+        <div className="flex flex-col gap-1">
+          <label htmlFor={currentPasswordId} className="text-sm font-medium">
+            Obecne hasło
+          </label>
+          <Input
+            id={currentPasswordId}
+            type="password"
+            autoComplete="current-password"
+            value={currentPassword}
+            onChange={(event) => setCurrentPassword(event.target.value)}
+            required
+          />
+        </div>
+      )}
+      <div className="flex flex-col gap-1">
+        <label htmlFor={passwordId} className="text-sm font-medium">
+          Nowe hasło
+        </label>
+        <Input
+          id={passwordId}
+          type="password"
+          autoComplete="new-password"
+          minLength={8}
+          maxLength={72}
+          value={password}
+          onChange={(event) => setPassword(event.target.value)}
+          required
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <label htmlFor={confirmationId} className="text-sm font-medium">
+          Powtórz hasło
+        </label>
+        <Input
+          id={confirmationId}
+          type="password"
+          autoComplete="new-password"
+          value={confirmation}
+          onChange={(event) => setConfirmation(event.target.value)}
+          required
+        />
+      </div>
+      {mismatch && (
+        <p role="alert" className="text-sm text-destructive">
+          Hasła nie są takie same
+        </p>
+      )}
+      {errorMessage && !mismatch && (
+        <p role="alert" className="text-sm text-destructive">
+          {errorMessage}
+        </p>
+      )}
+      <Button type="submit" disabled={busy}>
+        {busy ? busyLabel : submitLabel}
+      </Button>
+    </form>
+  );
+};
+
+export default NewPasswordForm;
@@ -0,0 +1,76 @@
+import React from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useClient } from "@/lib/hooks/useClient";
+import { useSearchParam } from "@/lib/hooks/useSearchParam";
+import TrendsTab from "./TrendsTab";
+import PhotosTab from "./PhotosTab";
+import ProfileTab from "./ProfileTab";
+import type { ClientProfileTab } from "./types";
+
+interface Props {
+  clientId: string;
+}
+
+const ClientProfileContent: React.FC<Props> = ({ clientId }) => {
+  const { data: client, isLoading, error } = useClient(clientId);
+  const [tabParam, setTabParam] = useSearchParam("tab");
+  const tab: ClientProfileTab = tabParam === "profile" || tabParam === "photos" ? tabParam : "trends";
+
+  return (
+    <div className="flex flex-col min-h-full w-full">
+      <header className="flex items-center gap-2 px-4 py-3 border-b bg-background sticky top-0 z-10">
+        <Button variant="ghost" size="icon" asChild>
+          <a href="/trainer">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="sr-only">Wróć do listy klientów</span>
+          </a>
+        </Button>
+        <h1 className="text-lg font-semibold">{client?.full_name ?? "Klient"}</h1>
+      </header>
+
+      <main className="flex-1 px-4 py-4">
+        {isLoading && <p className="text-center py-4">Ładowanie...</p>}
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error.message}
+          </p>
+        )}
+
+        {client && (
+          <Tabs value={tab} onValueChange={(value) => setTabParam(value)}>
+            <TabsList>
+              <TabsTrigger value="trends">Trendy</TabsTrigger>
+              <TabsTrigger value="photos">Zdjęcia</TabsTrigger>
+              <TabsTrigger value="profile">Profil</TabsTrigger>
+            </TabsList>
+            <TabsContent value="trends" className="pt-2">
+              <TrendsTab clientId={clientId} />
+            </TabsContent>
+            <TabsContent value="photos" className="pt-2">
+              <PhotosTab clientId={clientId} />
+            </TabsContent>
+            <TabsContent value="profile" className="pt-2">
+              <ProfileTab client={client} />
+            </TabsContent>
+          </Tabs>
+        )}
+      </main>
+    </div>
+  );
+};
+
+const ClientProfilePage: React.FC<Props> = ({ clientId }) => {
+  // ensure a stable client instance across renders
+  const [queryClient] = React.useState(() => new QueryClient());
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <ClientProfileContent clientId={clientId} />
+    </QueryClientProvider>
+  );
+};
+
+export default ClientProfilePage;
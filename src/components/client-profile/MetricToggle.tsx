@@ -0,0 +1,41 @@
+import React from "react";
+import { cn } from "@/lib/utils";
+import type { ReportMetric } from "@/types";
+import type { TrendMetricOption } from "./types";
+
+interface Props {
+  options: TrendMetricOption[];
+  selected: ReportMetric[];
+  onToggle: (metric: ReportMetric) => void;
+}
+
+const MetricToggle: React.FC<Props> = ({ options, selected, onToggle }) => {
+  return (
+    <div role="group" aria-label="Widoczne pomiary" className="flex flex-wrap gap-2">
+      {options.map(({ key, label, color }) => {
+        const isSelected = selected.includes(key);
+        return (
+          <button
+            key={key}
+            type="button"
+            aria-pressed={isSelected}
+            onClick={() => onToggle(key)}
+            className={cn(
+              "inline-flex items-center gap-2 rounded-full border px-3 py-1 text-sm transition outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50",
+              isSelected ? "bg-accent text-accent-foreground" : "text-muted-foreground hover:bg-accent/50"
+            )}
+          >
+            <span
+              aria-hidden="true"
+              className="h-2.5 w-2.5 rounded-full"
+              style={{ backgroundColor: isSelected ? color : "transparent", border: `2px solid ${color}` }}
+            />
+            {label}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MetricToggle;
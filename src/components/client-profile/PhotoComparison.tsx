@@ -0,0 +1,136 @@
+import React, { useEffect, useId, useState } from "react";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { ComparisonImageDTO, PhotoComparisonDTO } from "@/types";
+
+interface Props {
+  comparison: PhotoComparisonDTO;
+}
+
+function formatDate(iso: string): string {
+  return new Date(iso).toLocaleDateString("pl-PL");
+}
+
+const ComparisonImage: React.FC<{ image: ComparisonImageDTO | null; alt: string; style?: React.CSSProperties }> = ({
+  image,
+  alt,
+  style,
+}) =>
+  image ? (
+    <img src={image.url} alt={alt} style={style} className="absolute inset-0 h-full w-full object-contain" />
+  ) : (
+    <div
+      style={style}
+      className="absolute inset-0 flex items-center justify-center bg-muted text-sm text-muted-foreground"
+    >
+      Brak zdjęcia
+    </div>
+  );
+
+/**
+ * Before/after viewer: the earlier photo is drawn over the later one and clipped
+ * at the slider position. Left/right arrow keys switch between photo slots.
+ */
+const PhotoComparison: React.FC<Props> = ({ comparison }) => {
+  const sliderId = useId();
+  const [slotIndex, setSlotIndex] = useState(0);
+  const [position, setPosition] = useState(50);
+  const { slots, base, compare } = comparison;
+
+  // a new comparison may have fewer slots than the previous one
+  const current = slots[Math.min(slotIndex, slots.length - 1)];
+  const slotCount = slots.length;
+  const currentSlot = current?.slot ?? 0;
+
+  // arrows switch photos anywhere on the tab, except where they already mean something
+  // (the slider, report selects and the tab list)
+  useEffect(() => {
+    if (slotCount < 2) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.target instanceof Element && event.target.closest("input, select, [role='tablist']")) return;
+
+      if (event.key === "ArrowLeft") {
+        event.preventDefault();
+        setSlotIndex((currentSlot - 1 + slotCount) % slotCount);
+      } else if (event.key === "ArrowRight") {
+        event.preventDefault();
+        setSlotIndex((currentSlot + 1) % slotCount);
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [currentSlot, slotCount]);
+
+  if (!current) {
+    return <p className="text-sm text-muted-foreground">Wybrane raporty nie mają zdjęć.</p>;
+  }
+
+  const showSlot = (index: number) => setSlotIndex((index + slotCount) % slotCount);
+
+  return (
+    <div className="space-y-2">
+      <div
+        role="group"
+        aria-roledescription="porównanie zdjęć"
+        aria-label={`Zdjęcie ${current.slot + 1} z ${slots.length}`}
+        className="relative aspect-[3/4] w-full max-w-md mx-auto overflow-hidden rounded border bg-background"
+      >
+        <ComparisonImage image={current.base} alt={`Raport z ${formatDate(base.created_at)}`} />
+        <ComparisonImage
+          image={current.compare}
+          alt={`Raport z ${formatDate(compare.created_at)}`}
+          style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+        />
+        <div aria-hidden className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }} />
+
+        <span className="absolute top-2 left-2 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white">
+          {formatDate(compare.created_at)}
+        </span>
+        <span className="absolute top-2 right-2 rounded bg-black/60 px-1.5 py-0.5 text-xs text-white">
+          {formatDate(base.created_at)}
+        </span>
+
+        <label htmlFor={sliderId} className="sr-only">
+          Położenie suwaka porównania
+        </label>
+        <input
+          id={sliderId}
+          type="range"
+          min={0}
+          max={100}
+          value={position}
+          onChange={(event) => setPosition(Number(event.target.value))}
+          className="absolute inset-x-4 bottom-3 w-[calc(100%-2rem)]"
+        />
+      </div>
+
+      <div className="flex items-center justify-center gap-2">
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => showSlot(current.slot - 1)}
+          disabled={slots.length < 2}
+          aria-label="Poprzednie zdjęcie"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground" aria-live="polite">
+          {current.slot + 1} / {slots.length}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => showSlot(current.slot + 1)}
+          disabled={slots.length < 2}
+          aria-label="Następne zdjęcie"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default PhotoComparison;
@@ -0,0 +1,82 @@
+import React, { useId } from "react";
+import { useReports } from "@/lib/hooks/useReports";
+import { usePhotoComparison } from "@/lib/hooks/usePhotoComparison";
+import { useSearchParam } from "@/lib/hooks/useSearchParam";
+import PhotoComparison from "./PhotoComparison";
+
+interface Props {
+  clientId: string;
+}
+
+const PhotosTab: React.FC<Props> = ({ clientId }) => {
+  const baseSelectId = useId();
+  const compareSelectId = useId();
+  // selected reports live in the URL so a comparison can be shared
+  const [baseParam, setBaseParam] = useSearchParam("base");
+  const [compareParam, setCompareParam] = useSearchParam("compare");
+  const { reports } = useReports(clientId);
+  const {
+    data: comparison,
+    isLoading,
+    error,
+  } = usePhotoComparison(clientId, {
+    baseReportId: baseParam ?? undefined,
+    compareReportId: compareParam ?? undefined,
+  });
+
+  const options = reports.map((report) => (
+    <option key={report.id} value={report.id}>
+      {new Date(report.createdAt).toLocaleDateString("pl-PL")} (tydzień {report.weekNumber})
+    </option>
+  ));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap gap-4">
+        <div className="flex flex-col gap-1">
+          <label htmlFor={compareSelectId} className="text-sm font-medium">
+            Wcześniejszy raport
+          </label>
+          <select
+            id={compareSelectId}
+            value={comparison?.compare.id ?? compareParam ?? ""}
+            onChange={(event) => setCompareParam(event.target.value)}
+            className="h-9 rounded-md border bg-background px-2 text-sm"
+          >
+            {options}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor={baseSelectId} className="text-sm font-medium">
+            Późniejszy raport
+          </label>
+          <select
+            id={baseSelectId}
+            value={comparison?.base.id ?? baseParam ?? ""}
+            onChange={(event) => setBaseParam(event.target.value)}
+            className="h-9 rounded-md border bg-background px-2 text-sm"
+          >
+            {options}
+          </select>
+        </div>
+      </div>
+
+      {isLoading && <p className="text-center py-4">Ładowanie...</p>}
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error.message}
+        </p>
+      )}
+      {comparison && (
+        <>
+          <a href={`/trainer/reports/${comparison.base.id}`} className="text-sm underline-offset-2 hover:underline">
+            Szczegóły późniejszego raportu i komentarze
+          </a>
+          <PhotoComparison comparison={comparison} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PhotosTab;
@@ -0,0 +1,29 @@
+import React from "react";
+import type { ClientDTO } from "@/types";
+
+interface Props {
+  client: ClientDTO;
+}
+
+const ProfileTab: React.FC<Props> = ({ client }) => {
+  const rows = [
+    { label: "Imię i nazwisko", value: client.full_name },
+    { label: "Telefon", value: client.phone },
+    { label: "E-mail", value: client.email },
+    { label: "Data urodzenia", value: client.date_of_birth },
+    { label: "Płeć", value: client.gender },
+  ];
+
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm max-w-lg">
+      {rows.map(({ label, value }) => (
+        <React.Fragment key={label}>
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd>{value || "—"}</dd>
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+};
+
+export default ProfileTab;
@@ -0,0 +1,122 @@
+import React, { useId } from "react";
+import { Chart as ChartJS, LineElement, LinearScale, PointElement, Tooltip, type ChartOptions } from "chart.js";
+import { Line } from "react-chartjs-2";
+import type { ClientGoalDTO, TrendPointDTO } from "@/types";
+import type { TrendMetricOption } from "./types";
+
+ChartJS.register(LineElement, LinearScale, PointElement, Tooltip);
+
+interface Props {
+  metric: TrendMetricOption;
+  points: TrendPointDTO[];
+  /** Drawn as a dashed target line with the progress below the chart */
+  goal?: ClientGoalDTO;
+}
+
+interface ChartPoint {
+  x: number;
+  y: number;
+  reportId: string;
+}
+
+const dateFormat = new Intl.DateTimeFormat("pl-PL", { day: "2-digit", month: "2-digit", year: "numeric" });
+const dateTimeFormat = new Intl.DateTimeFormat("pl-PL", { dateStyle: "medium", timeStyle: "short" });
+
+function describeGoal(goal: ClientGoalDTO, unit: string): string {
+  const target = `Cel: ${goal.target_value} ${unit}${
+    goal.target_date ? ` do ${dateFormat.format(new Date(`${goal.target_date}T00:00:00Z`))}` : ""
+  }`;
+
+  if (goal.status === "achieved") return `${target} · osiągnięty`;
+
+  const progress = goal.progressPercent === null ? "" : ` · ${goal.progressPercent}%`;
+  const pace = goal.onTrack === null ? "" : goal.onTrack ? " · zgodnie z planem" : " · poniżej tempa";
+  return `${target}${progress}${pace}`;
+}
+
+const TrendChart: React.FC<Props> = ({ metric, points, goal }) => {
+  const titleId = useId();
+  const data: ChartPoint[] = points.map((point) => ({
+    x: new Date(point.date).getTime(),
+    y: point.value,
+    reportId: point.reportId,
+  }));
+
+  // x is a plain linear axis of timestamps, so spacing follows real time without a date adapter
+  const options: ChartOptions<"line"> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    interaction: { mode: "nearest", intersect: false },
+    scales: {
+      x: {
+        type: "linear",
+        title: { display: true, text: "Data" },
+        ticks: {
+          maxTicksLimit: 6,
+          callback: (value) => dateFormat.format(new Date(Number(value))),
+        },
+      },
+      y: {
+        title: { display: true, text: metric.unit },
+      },
+    },
+    plugins: {
+      tooltip: {
+        // only the measurements; the goal line has no report behind it
+        filter: (item) => item.datasetIndex === 0,
+        callbacks: {
+          title: (items) => `Raport z ${dateTimeFormat.format(new Date(items[0].parsed.x ?? 0))}`,
+          label: (item) => `${metric.label}: ${item.parsed.y} ${metric.unit}`,
+          footer: (items) => `ID raportu: ${(items[0].raw as ChartPoint).reportId.slice(0, 8)}`,
+        },
+      },
+    },
+  };
+
+  return (
+    <figure className="rounded-xl border p-4" aria-labelledby={titleId}>
+      <figcaption id={titleId} className="text-sm font-semibold mb-2">
+        {metric.label} ({metric.unit})
+      </figcaption>
+      {data.length === 0 ? (
+        <p className="text-sm text-muted-foreground">Brak danych w wybranym okresie</p>
+      ) : (
+        <div className="h-56">
+          <Line
+            aria-label={`Wykres: ${metric.label}, ${data.length} pomiarów`}
+            role="img"
+            options={options}
+            data={{
+              datasets: [
+                {
+                  label: metric.label,
+                  data,
+                  borderColor: metric.color,
+                  backgroundColor: metric.color,
+                  pointRadius: 3,
+                  tension: 0.2,
+                },
+                // flat line across the plotted range at the goal's target
+                ...(goal
+                  ? [
+                      {
+                        label: "Cel",
+                        data: [data[0], data[data.length - 1]].map(({ x }) => ({ x, y: goal.target_value })),
+                        borderColor: metric.color,
+                        borderDash: [6, 4],
+                        borderWidth: 1,
+                        pointRadius: 0,
+                      },
+                    ]
+                  : []),
+              ],
+            }}
+          />
+        </div>
+      )}
+      {goal && <p className="text-xs text-muted-foreground mt-2">{describeGoal(goal, metric.unit)}</p>}
+    </figure>
+  );
+};
+
+export default TrendChart;
@@ -0,0 +1,77 @@
+import React from "react";
+import { REPORT_METRICS } from "@/lib/api-helpers";
+import { MEASUREMENT_FIELDS } from "@/lib/measurements";
+import { useSearchParam } from "@/lib/hooks/useSearchParam";
+import { useTrends } from "@/lib/hooks/useTrends";
+import type { ClientGoalDTO, ReportMetric } from "@/types";
+import MetricToggle from "./MetricToggle";
+import TrendChart from "./TrendChart";
+import type { TrendMetricOption } from "./types";
+
+const COLORS = ["#1d4ed8", "#b91c1c", "#047857", "#7c3aed", "#c2410c", "#0e7490", "#a21caf", "#4d7c0f"];
+
+const METRIC_OPTIONS: TrendMetricOption[] = [
+  ...MEASUREMENT_FIELDS.map(({ key, label, unit }) => ({ key, label, unit, color: "" })),
+  { key: "cardio_days" as const, label: "Dni cardio", unit: "dni", color: "" },
+].map((option, index) => ({ ...option, color: COLORS[index % COLORS.length] }));
+
+const DEFAULT_METRICS: ReportMetric[] = ["weight", "waist"];
+
+function parseMetrics(value: string | null): ReportMetric[] {
+  if (value === null) return DEFAULT_METRICS;
+  return value.split(",").filter((metric): metric is ReportMetric => (REPORT_METRICS as string[]).includes(metric));
+}
+
+interface Props {
+  clientId: string;
+}
+
+/** Goal shown on a metric's chart: the newest active one, else the newest achieved one */
+function pickGoal(goals: ClientGoalDTO[], metric: ReportMetric): ClientGoalDTO | undefined {
+  const forMetric = goals.filter((goal) => goal.metric === metric);
+  return forMetric.find((goal) => goal.status === "active") ?? forMetric.find((goal) => goal.status === "achieved");
+}
+
+const TrendsTab: React.FC<Props> = ({ clientId }) => {
+  const { data: trends, isLoading, error } = useTrends(clientId);
+  // selected metrics live in ?metrics= so a chart view can be bookmarked or shared
+  const [metricsParam, setMetricsParam] = useSearchParam("metrics");
+  const selected = parseMetrics(metricsParam);
+
+  const handleToggle = (metric: ReportMetric) => {
+    const next = selected.includes(metric) ? selected.filter((m) => m !== metric) : [...selected, metric];
+    // keep display order stable regardless of click order
+    setMetricsParam(REPORT_METRICS.filter((m) => next.includes(m)).join(",") || "none");
+  };
+
+  return (
+    <div className="space-y-4">
+      <MetricToggle options={METRIC_OPTIONS} selected={selected} onToggle={handleToggle} />
+
+      {isLoading && <p className="text-center py-4">Ładowanie...</p>}
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error.message}
+        </p>
+      )}
+
+      {trends && (
+        <div className="grid gap-4 md:grid-cols-2">
+          {METRIC_OPTIONS.filter(({ key }) => selected.includes(key)).map((metric) => (
+            <TrendChart
+              key={metric.key}
+              metric={metric}
+              points={trends[metric.key] ?? []}
+              goal={pickGoal(trends.goals, metric.key)}
+            />
+          ))}
+        </div>
+      )}
+      {trends && selected.length === 0 && (
+        <p className="text-sm text-muted-foreground">Wybierz co najmniej jeden pomiar.</p>
+      )}
+    </div>
+  );
+};
+
+export default TrendsTab;
@@ -0,0 +1,11 @@
+import type { ReportMetric } from "@/types";
+
+export interface TrendMetricOption {
+  key: ReportMetric;
+  label: string;
+  unit: string;
+  /** Line colour, dark enough for ≥4.5:1 contrast on white */
+  color: string;
+}
+
+export type ClientProfileTab = "trends" | "photos" | "profile";
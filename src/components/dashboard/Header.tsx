@@ -1,4 +1,5 @@
 import React from "react";
+import LogoutButton from "@/components/auth/LogoutButton";
 import StatusBadge from "./StatusBadge";
 
 interface Props {
@@ -9,7 +10,10 @@ const Header: React.FC<Props> = ({ hasCurrentWeekReport }) => {
   return (
     <header className="flex items-center justify-between px-4 py-3 border-b bg-background/80 backdrop-blur supports-backdrop-blur:bg-background/60 sticky top-0 z-10">
       <h1 className="text-lg font-semibold">Moje raporty</h1>
-      <StatusBadge ok={hasCurrentWeekReport} />
+      <div className="flex items-center gap-2">
+        <StatusBadge ok={hasCurrentWeekReport} />
+        <LogoutButton />
+      </div>
     </header>
   );
 };
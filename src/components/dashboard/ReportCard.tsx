@@ -1,6 +1,7 @@
 import React from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import type { ReportCardVM } from "./types";
+import ReportThumbnail from "./ReportThumbnail";
 import { cn } from "@/lib/utils";
 
 interface Props {
@@ -27,8 +28,8 @@ const ReportCard: React.FC<Props> = ({ report, onClick }) => {
             <span className="text-xs text-muted-foreground">#{report.sequence}</span>
           </div>
           <div className="flex gap-1">
-            {report.imageThumbUrls.slice(0, 3).map((url) => (
-              <img key={url} src={url} alt="Miniaturka" loading="lazy" className="w-12 h-12 object-cover rounded" />
+            {report.thumbnails.slice(0, 3).map((thumbnail) => (
+              <ReportThumbnail key={thumbnail.url} thumbnail={thumbnail} />
             ))}
           </div>
         </div>
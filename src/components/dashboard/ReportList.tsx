@@ -36,9 +36,7 @@ const ReportList: React.FC<Props> = ({ reports, isLoading, onLoadMore }) => {
           <ReportCard
             report={report}
             onClick={() => {
-              console.log("onClick", report);
-              // navigate to /app/reports/:id
-              /* navigate */
+              window.location.href = `/app/reports/${report.id}`;
             }}
           />
         </div>
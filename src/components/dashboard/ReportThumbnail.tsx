@@ -0,0 +1,42 @@
+import React, { useEffect, useRef } from "react";
+import { decode } from "blurhash";
+import type { ReportThumbnailVM } from "./types";
+
+const PLACEHOLDER_SIZE = 32;
+
+interface Props {
+  thumbnail: ReportThumbnailVM;
+}
+
+/**
+ * Report photo thumbnail; the blurhash is painted underneath and stays visible until the image loads.
+ */
+const ReportThumbnail: React.FC<Props> = ({ thumbnail }) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const context = canvasRef.current?.getContext("2d");
+    if (!thumbnail.blurhash || !context) return;
+
+    const imageData = context.createImageData(PLACEHOLDER_SIZE, PLACEHOLDER_SIZE);
+    imageData.data.set(decode(thumbnail.blurhash, PLACEHOLDER_SIZE, PLACEHOLDER_SIZE));
+    context.putImageData(imageData, 0, 0);
+  }, [thumbnail.blurhash]);
+
+  return (
+    <div className="relative w-12 h-12 rounded overflow-hidden bg-muted">
+      {thumbnail.blurhash && (
+        <canvas
+          ref={canvasRef}
+          width={PLACEHOLDER_SIZE}
+          height={PLACEHOLDER_SIZE}
+          aria-hidden
+          className="absolute inset-0 w-full h-full"
+        />
+      )}
+      <img src={thumbnail.url} alt="Miniaturka" loading="lazy" className="relative w-full h-full object-cover" />
+    </div>
+  );
+};
+
+export default ReportThumbnail;
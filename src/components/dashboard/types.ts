@@ -1,3 +1,9 @@
+export interface ReportThumbnailVM {
+  url: string;
+  /** Placeholder painted until the thumbnail loads */
+  blurhash: string | null;
+}
+
 export interface ReportCardVM {
   id: string;
   createdAt: string; // ISO
@@ -5,5 +11,5 @@ export interface ReportCardVM {
   sequence: number;
   cardioDays: number;
   hasNote: boolean;
-  imageThumbUrls: string[];
+  thumbnails: ReportThumbnailVM[];
 }
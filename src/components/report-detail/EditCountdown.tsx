@@ -0,0 +1,27 @@
+import React from "react";
+import { Clock } from "lucide-react";
+
+interface Props {
+  remainingMs: number;
+}
+
+function formatRemaining(ms: number): string {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, "0")}`;
+}
+
+const EditCountdown: React.FC<Props> = ({ remainingMs }) => {
+  return (
+    <p className="inline-flex items-center gap-1 text-sm text-muted-foreground">
+      <Clock className="w-4 h-4" aria-hidden="true" />
+      Edycja możliwa jeszcze przez{" "}
+      <time className="font-medium tabular-nums text-foreground" role="timer" aria-live="off">
+        {formatRemaining(remainingMs)}
+      </time>
+    </p>
+  );
+};
+
+export default EditCountdown;
@@ -0,0 +1,74 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { EditReportSchema } from "@/lib/api-helpers";
+import { mapFormToEditReportBody, mapReportToFormValues } from "@/lib/mappers/reportFormMapper";
+import { useEditReport } from "@/lib/hooks/useReport";
+import MeasurementsStep from "@/components/report-wizard/MeasurementsStep";
+import CardioNoteStep from "@/components/report-wizard/CardioNoteStep";
+import type { FieldErrors, ReportFormValues } from "@/components/report-wizard/types";
+import type { ReportDTO } from "@/types";
+
+interface Props {
+  report: ReportDTO;
+  onDone: () => void;
+}
+
+const EditReportForm: React.FC<Props> = ({ report, onDone }) => {
+  const editReport = useEditReport(report.id);
+  const [values, setValues] = useState<ReportFormValues>(() => mapReportToFormValues(report));
+  const [errors, setErrors] = useState<FieldErrors>({});
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const result = EditReportSchema.safeParse(mapFormToEditReportBody(values));
+    if (!result.success) {
+      const fieldErrors: FieldErrors = {};
+      result.error.issues.forEach((issue) => {
+        fieldErrors[String(issue.path[0])] ??= issue.message;
+      });
+      setErrors(fieldErrors);
+      return;
+    }
+
+    setErrors({});
+    try {
+      await editReport.mutateAsync(result.data);
+      onDone();
+    } catch {
+      // error is rendered from the mutation state below
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6" noValidate>
+      <MeasurementsStep
+        values={values.measurements}
+        errors={errors}
+        onChange={(key, value) =>
+          setValues((prev) => ({ ...prev, measurements: { ...prev.measurements, [key]: value } }))
+        }
+      />
+      <CardioNoteStep
+        cardioDays={values.cardioDays}
+        note={values.note}
+        errors={errors}
+        onCardioDaysChange={(cardioDays) => setValues((prev) => ({ ...prev, cardioDays }))}
+        onNoteChange={(note) => setValues((prev) => ({ ...prev, note }))}
+      />
+      <div aria-live="polite">
+        {editReport.error && <p className="text-sm text-destructive">{editReport.error.message}</p>}
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onDone} disabled={editReport.isPending}>
+          Anuluj
+        </Button>
+        <Button type="submit" disabled={editReport.isPending}>
+          {editReport.isPending ? "Zapisywanie..." : "Zapisz zmiany"}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export default EditReportForm;
@@ -0,0 +1,170 @@
+import React, { useId, useState } from "react";
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ReportCommentSchema } from "@/lib/api-helpers";
+import { useReportCommentMutations, useReportComments } from "@/lib/hooks/useReportComments";
+import type { ReportCommentDTO } from "@/types";
+
+interface Props {
+  reportId: string;
+  /** Signed-in user; their own comments can be edited and deleted */
+  userId: string;
+}
+
+const ROLE_LABELS: Record<ReportCommentDTO["author_role"], string> = {
+  trainer: "Trener",
+  client: "Klient",
+};
+
+interface CommentFormProps {
+  initialBody?: string;
+  submitLabel: string;
+  isPending: boolean;
+  error: Error | null;
+  onSubmit: (body: string) => Promise<unknown>;
+  onCancel?: () => void;
+}
+
+const CommentForm: React.FC<CommentFormProps> = ({
+  initialBody = "",
+  submitLabel,
+  isPending,
+  error,
+  onSubmit,
+  onCancel,
+}) => {
+  const bodyId = useId();
+  const [body, setBody] = useState(initialBody);
+  const [validationError, setValidationError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const result = ReportCommentSchema.safeParse({ body });
+    if (!result.success) {
+      setValidationError(result.error.issues[0].message);
+      return;
+    }
+
+    setValidationError(null);
+    try {
+      await onSubmit(result.data.body);
+      setBody("");
+    } catch {
+      // error is rendered from the mutation state below
+    }
+  };
+
+  const message = validationError ?? error?.message;
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2" noValidate>
+      <label htmlFor={bodyId} className="sr-only">
+        Komentarz
+      </label>
+      <Textarea
+        id={bodyId}
+        rows={3}
+        maxLength={2000}
+        value={body}
+        aria-invalid={!!message}
+        aria-describedby={message ? `${bodyId}-error` : undefined}
+        onChange={(event) => setBody(event.target.value)}
+      />
+      {message && (
+        <p id={`${bodyId}-error`} className="text-xs text-destructive">
+          {message}
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="outline" size="sm" onClick={onCancel} disabled={isPending}>
+            Anuluj
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={isPending}>
+          {isPending ? "Zapisywanie..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+const ReportComments: React.FC<Props> = ({ reportId, userId }) => {
+  const { data: comments, isLoading, error } = useReportComments(reportId);
+  const { create, edit, remove } = useReportCommentMutations(reportId);
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  return (
+    <div className="space-y-4">
+      {isLoading && <p className="text-sm text-muted-foreground">Ładowanie...</p>}
+      {error && (
+        <p role="alert" className="text-sm text-destructive">
+          {error.message}
+        </p>
+      )}
+      {comments && comments.length === 0 && <p className="text-sm text-muted-foreground">Brak komentarzy</p>}
+
+      {comments && comments.length > 0 && (
+        <ul className="space-y-3">
+          {comments.map((comment) => (
+            <li key={comment.id} className="rounded border px-3 py-2">
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span>
+                  <span className="font-medium text-foreground">
+                    {comment.author?.full_name ?? ROLE_LABELS[comment.author_role]}
+                  </span>{" "}
+                  · {new Date(comment.created_at).toLocaleString("pl-PL")}
+                  {comment.updated_at && " · edytowano"}
+                </span>
+                {comment.author_id === userId && editingId !== comment.id && (
+                  <span className="flex gap-1">
+                    <Button variant="ghost" size="icon" onClick={() => setEditingId(comment.id)}>
+                      <Pencil className="w-4 h-4" />
+                      <span className="sr-only">Edytuj komentarz</span>
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => remove.mutate(comment.id)}
+                      disabled={remove.isPending}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      <span className="sr-only">Usuń komentarz</span>
+                    </Button>
+                  </span>
+                )}
+              </div>
+              {editingId === comment.id ? (
+                <CommentForm
+                  initialBody={comment.body}
+                  submitLabel="Zapisz"
+                  isPending={edit.isPending}
+                  error={edit.error}
+                  onSubmit={async (body) => {
+                    await edit.mutateAsync({ commentId: comment.id, body });
+                    setEditingId(null);
+                  }}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <p className="text-sm whitespace-pre-wrap mt-1">{comment.body}</p>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {remove.error && <p className="text-sm text-destructive">{remove.error.message}</p>}
+
+      <CommentForm
+        submitLabel="Dodaj komentarz"
+        isPending={create.isPending}
+        error={create.error}
+        onSubmit={(body) => create.mutateAsync({ body })}
+      />
+    </div>
+  );
+};
+
+export default ReportComments;
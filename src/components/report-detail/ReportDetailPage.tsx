@@ -0,0 +1,127 @@
+import React, { useState } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ArrowLeft, Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { canEditReport, getReportEditDeadline } from "@/lib/api-helpers";
+import { useCountdown } from "@/lib/hooks/useCountdown";
+import { useReport } from "@/lib/hooks/useReport";
+import ReportPhotos from "./ReportPhotos";
+import ReportMeasurements from "./ReportMeasurements";
+import EditCountdown from "./EditCountdown";
+import EditReportForm from "./EditReportForm";
+import ReportComments from "./ReportComments";
+
+interface Props {
+  reportId: string;
+  userId: string;
+  /** Clients can edit their own reports; trainers only read and comment */
+  viewerRole: "client" | "trainer";
+}
+
+const ReportDetailContent: React.FC<Props> = ({ reportId, userId, viewerRole }) => {
+  const { data: report, isLoading, error } = useReport(reportId);
+  const [isEditing, setIsEditing] = useState(false);
+  const deadline = report && report.sequence === 0 ? getReportEditDeadline(report.created_at) : null;
+  const remainingMs = useCountdown(deadline);
+
+  // remainingMs ticks every second, so the window closes without a reload
+  const canEdit =
+    viewerRole === "client" && !!report && remainingMs > 0 && canEditReport(report.created_at, report.sequence);
+  const backHref = viewerRole === "trainer" && report ? `/trainer/clients/${report.client_id}` : "/app";
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <header className="flex items-center gap-2 px-4 py-3 border-b bg-background sticky top-0 z-10">
+        <Button variant="ghost" size="icon" asChild>
+          <a href={backHref}>
+            <ArrowLeft className="w-5 h-5" />
+            <span className="sr-only">{viewerRole === "trainer" ? "Wróć do profilu klienta" : "Wróć do raportów"}</span>
+          </a>
+        </Button>
+        <h1 className="text-lg font-semibold">{report ? `Raport – tydzień ${report.week_number}` : "Raport"}</h1>
+      </header>
+
+      <main className="flex-1 overflow-y-auto px-4 py-4 space-y-6">
+        {isLoading && <p className="text-center py-4">Ładowanie...</p>}
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error.message}
+          </p>
+        )}
+
+        {report && (
+          <>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <p className="text-sm text-muted-foreground">
+                {new Intl.DateTimeFormat("pl-PL", { dateStyle: "long", timeStyle: "short" }).format(
+                  new Date(report.created_at)
+                )}{" "}
+                · #{report.sequence}
+              </p>
+              {canEdit && <EditCountdown remainingMs={remainingMs} />}
+            </div>
+
+            <section aria-labelledby="report-photos">
+              <h2 id="report-photos" className="text-sm font-semibold mb-2">
+                Zdjęcia
+              </h2>
+              <ReportPhotos images={report.images} />
+            </section>
+
+            {isEditing && canEdit ? (
+              <section aria-labelledby="report-edit">
+                <h2 id="report-edit" className="text-sm font-semibold mb-2">
+                  Edycja raportu
+                </h2>
+                <EditReportForm report={report} onDone={() => setIsEditing(false)} />
+              </section>
+            ) : (
+              <>
+                <section aria-labelledby="report-measurements">
+                  <div className="flex items-center justify-between mb-2">
+                    <h2 id="report-measurements" className="text-sm font-semibold">
+                      Pomiary
+                    </h2>
+                    {canEdit && (
+                      <Button variant="outline" size="sm" onClick={() => setIsEditing(true)}>
+                        <Pencil /> Edytuj
+                      </Button>
+                    )}
+                  </div>
+                  <ReportMeasurements report={report} />
+                </section>
+
+                <section aria-labelledby="report-note">
+                  <h2 id="report-note" className="text-sm font-semibold mb-2">
+                    Notatka
+                  </h2>
+                  <p className="text-sm whitespace-pre-wrap">{report.note || "—"}</p>
+                </section>
+              </>
+            )}
+
+            <section aria-labelledby="report-comments">
+              <h2 id="report-comments" className="text-sm font-semibold mb-2">
+                Komentarze
+              </h2>
+              <ReportComments reportId={report.id} userId={userId} />
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+const ReportDetailPage: React.FC<Props> = (props) => {
+  // ensure a stable client instance across renders
+  const [queryClient] = React.useState(() => new QueryClient());
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <ReportDetailContent {...props} />
+    </QueryClientProvider>
+  );
+};
+
+export default ReportDetailPage;
@@ -0,0 +1,43 @@
+import React from "react";
+import { MEASUREMENT_FIELDS } from "@/lib/measurements";
+import type { MetricChangeDTO, ReportDetailDTO } from "@/types";
+
+interface Props {
+  report: ReportDetailDTO;
+}
+
+function formatChange(change: MetricChangeDTO, unit: string): string {
+  const sign = change.absolute > 0 ? "+" : "";
+  const percent = change.percent !== null ? ` (${sign}${change.percent}%)` : "";
+  return `${sign}${change.absolute}${unit ? ` ${unit}` : ""}${percent}`;
+}
+
+const ChangeCell: React.FC<{ change: MetricChangeDTO | null; unit: string }> = ({ change, unit }) => (
+  <dd className="text-muted-foreground tabular-nums">{change ? formatChange(change, unit) : "—"}</dd>
+);
+
+const ReportMeasurements: React.FC<Props> = ({ report }) => {
+  const rows = [
+    ...MEASUREMENT_FIELDS.map(({ key, label, unit }) => ({ key, label, unit, value: report[key] })),
+    { key: "cardio_days" as const, label: "Dni cardio", unit: "", value: report.cardio_days },
+  ];
+
+  return (
+    <dl className="grid grid-cols-[1fr_auto_auto_auto] gap-x-4 gap-y-1 text-sm">
+      <dt className="sr-only">Pomiar</dt>
+      <dd className="text-xs text-muted-foreground col-start-2">Wartość</dd>
+      <dd className="text-xs text-muted-foreground">vs poprzedni</dd>
+      <dd className="text-xs text-muted-foreground">vs pierwszy</dd>
+      {rows.map(({ key, label, unit, value }) => (
+        <React.Fragment key={key}>
+          <dt className="text-muted-foreground">{label}</dt>
+          <dd className="tabular-nums">{value !== null ? `${value}${unit ? ` ${unit}` : ""}` : "—"}</dd>
+          <ChangeCell change={report.deltas[key].sincePrevious} unit={unit} />
+          <ChangeCell change={report.deltas[key].sinceFirst} unit={unit} />
+        </React.Fragment>
+      ))}
+    </dl>
+  );
+};
+
+export default ReportMeasurements;
@@ -0,0 +1,42 @@
+import React from "react";
+import { ImageIcon } from "lucide-react";
+import type { ReportImageDTO } from "@/types";
+
+interface Props {
+  images: ReportImageDTO[];
+}
+
+const ReportPhotos: React.FC<Props> = ({ images }) => {
+  if (images.length === 0) {
+    return <p className="text-sm text-muted-foreground">Brak zdjęć</p>;
+  }
+
+  return (
+    <ul className="grid grid-cols-3 gap-2">
+      {images.map((image, index) => (
+        <li key={image.id}>
+          {image.url ? (
+            <a href={image.url} target="_blank" rel="noreferrer">
+              <img
+                src={image.thumb_url ?? image.url}
+                alt={`Zdjęcie ${index + 1}`}
+                loading="lazy"
+                className="aspect-square w-full object-cover rounded"
+              />
+            </a>
+          ) : (
+            <div
+              role="img"
+              aria-label={`Zdjęcie ${index + 1} niedostępne`}
+              className="aspect-square flex items-center justify-center rounded bg-muted text-muted-foreground"
+            >
+              <ImageIcon className="w-6 h-6" />
+            </div>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default ReportPhotos;
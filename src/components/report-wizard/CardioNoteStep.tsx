@@ -0,0 +1,62 @@
+import React, { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import type { FieldErrors } from "./types";
+
+interface Props {
+  cardioDays: string;
+  note: string;
+  errors: FieldErrors;
+  onCardioDaysChange: (value: string) => void;
+  onNoteChange: (value: string) => void;
+}
+
+const CardioNoteStep: React.FC<Props> = ({ cardioDays, note, errors, onCardioDaysChange, onNoteChange }) => {
+  const cardioId = useId();
+  const noteId = useId();
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-1">
+        <label htmlFor={cardioId} className="text-sm font-medium">
+          Dni cardio w tym tygodniu (0–7)
+        </label>
+        <Input
+          id={cardioId}
+          type="number"
+          min={0}
+          max={7}
+          step={1}
+          value={cardioDays}
+          aria-invalid={!!errors.cardio_days}
+          aria-describedby={errors.cardio_days ? `${cardioId}-error` : undefined}
+          onChange={(event) => onCardioDaysChange(event.target.value)}
+        />
+        {errors.cardio_days && (
+          <p id={`${cardioId}-error`} className="text-xs text-destructive">
+            {errors.cardio_days}
+          </p>
+        )}
+      </div>
+      <div className="flex flex-col gap-1">
+        <label htmlFor={noteId} className="text-sm font-medium">
+          Notatka dla trenera
+        </label>
+        <Textarea
+          id={noteId}
+          rows={5}
+          maxLength={1000}
+          value={note}
+          aria-invalid={!!errors.note}
+          aria-describedby={`${noteId}-hint`}
+          onChange={(event) => onNoteChange(event.target.value)}
+        />
+        <p id={`${noteId}-hint`} className="text-xs text-muted-foreground">
+          {errors.note ?? `${note.length}/1000`}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default CardioNoteStep;
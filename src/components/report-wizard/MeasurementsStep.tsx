@@ -0,0 +1,48 @@
+import React, { useId } from "react";
+import { Input } from "@/components/ui/input";
+import { MEASUREMENT_FIELDS, type MeasurementKey } from "@/lib/measurements";
+import type { FieldErrors } from "./types";
+
+interface Props {
+  values: Record<MeasurementKey, string>;
+  errors: FieldErrors;
+  onChange: (key: MeasurementKey, value: string) => void;
+}
+
+const MeasurementsStep: React.FC<Props> = ({ values, errors, onChange }) => {
+  const idPrefix = useId();
+
+  return (
+    <div className="grid grid-cols-2 gap-4">
+      {MEASUREMENT_FIELDS.map(({ key, label, unit }) => {
+        const inputId = `${idPrefix}-${key}`;
+        const errorId = `${inputId}-error`;
+        const error = errors[key];
+
+        return (
+          <div key={key} className="flex flex-col gap-1">
+            <label htmlFor={inputId} className="text-sm font-medium">
+              {label} ({unit})
+            </label>
+            <Input
+              id={inputId}
+              type="text"
+              inputMode="decimal"
+              value={values[key]}
+              aria-invalid={!!error}
+              aria-describedby={error ? errorId : undefined}
+              onChange={(event) => onChange(key, event.target.value)}
+            />
+            {error && (
+              <p id={errorId} className="text-xs text-destructive">
+                {error}
+              </p>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MeasurementsStep;
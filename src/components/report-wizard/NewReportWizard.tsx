@@ -0,0 +1,227 @@
+import React, { useEffect, useRef, useState } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ImageUploadRequestSchema, SubmitReportSchema } from "@/lib/api-helpers";
+import { MEASUREMENT_FIELDS, type MeasurementKey } from "@/lib/measurements";
+import { mapFormToSubmitReportBody } from "@/lib/mappers/reportFormMapper";
+import { useNetworkStatus } from "@/lib/hooks/useNetworkStatus";
+import { useSubmitReport } from "@/lib/hooks/useSubmitReport";
+import PhotosStep, { MAX_PHOTOS } from "./PhotosStep";
+import MeasurementsStep from "./MeasurementsStep";
+import CardioNoteStep from "./CardioNoteStep";
+import SummaryStep from "./SummaryStep";
+import type { FieldErrors, PhotoVM, ReportFormValues, WizardStep, WizardStepId } from "./types";
+
+const STEPS: WizardStep[] = [
+  { id: "photos", title: "Zdjęcia" },
+  { id: "measurements", title: "Pomiary" },
+  { id: "cardioNote", title: "Cardio i notatka" },
+  { id: "summary", title: "Podsumowanie" },
+];
+
+/** Form fields validated on each step; the summary re-validates everything. */
+const STEP_FIELDS: Record<WizardStepId, string[]> = {
+  photos: ["photos"],
+  measurements: MEASUREMENT_FIELDS.map(({ key }) => key),
+  cardioNote: ["cardio_days", "note"],
+  summary: ["photos", ...MEASUREMENT_FIELDS.map(({ key }) => key), "cardio_days", "note"],
+};
+
+const INITIAL_VALUES: ReportFormValues = {
+  measurements: Object.fromEntries(MEASUREMENT_FIELDS.map(({ key }) => [key, ""])) as Record<MeasurementKey, string>,
+  cardioDays: "",
+  note: "",
+};
+
+function validatePhotoFile(file: File): string | undefined {
+  const result = ImageUploadRequestSchema.safeParse({ contentType: file.type, size: file.size });
+  return result.success ? undefined : `${file.name}: ${result.error.issues[0].message}`;
+}
+
+function validate(stepId: WizardStepId, photos: PhotoVM[], values: ReportFormValues): FieldErrors {
+  const errors: FieldErrors = {};
+
+  if (photos.length > MAX_PHOTOS) {
+    errors.photos = `Maksymalnie ${MAX_PHOTOS} zdjęcia`;
+  }
+
+  const result = SubmitReportSchema.safeParse(mapFormToSubmitReportBody(values));
+  if (!result.success) {
+    result.error.issues.forEach((issue) => {
+      const field = String(issue.path[0]);
+      errors[field] ??= issue.message;
+    });
+  }
+
+  return Object.fromEntries(Object.entries(errors).filter(([field]) => STEP_FIELDS[stepId].includes(field)));
+}
+
+interface Props {
+  clientId: string;
+}
+
+const NewReportWizardContent: React.FC<Props> = ({ clientId }) => {
+  const { isOffline } = useNetworkStatus();
+  const { submit, uploads, isReportCreated, isSubmitting, error: submitError } = useSubmitReport(clientId);
+  const [stepIndex, setStepIndex] = useState(0);
+  const [photos, setPhotos] = useState<PhotoVM[]>([]);
+  const [values, setValues] = useState<ReportFormValues>(INITIAL_VALUES);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const headingRef = useRef<HTMLHeadingElement | null>(null);
+
+  const step = STEPS[stepIndex];
+  const isLastStep = stepIndex === STEPS.length - 1;
+
+  // release object URLs of the previews when leaving the page
+  const photosRef = useRef(photos);
+  useEffect(() => {
+    photosRef.current = photos;
+  }, [photos]);
+  useEffect(() => () => photosRef.current.forEach((photo) => URL.revokeObjectURL(photo.previewUrl)), []);
+
+  // move focus to the step title so screen readers announce the new step
+  useEffect(() => {
+    headingRef.current?.focus();
+  }, [stepIndex]);
+
+  const handleAddPhotos = (files: File[]) => {
+    const invalid = files.map(validatePhotoFile).find(Boolean);
+    const valid = files.filter((file) => !validatePhotoFile(file));
+    const accepted = valid.slice(0, MAX_PHOTOS - photos.length);
+
+    setPhotos((prev) => [
+      ...prev,
+      ...accepted.map((file) => ({ id: crypto.randomUUID(), file, previewUrl: URL.createObjectURL(file) })),
+    ]);
+    setErrors((prev) => ({
+      ...prev,
+      photos: invalid ?? (accepted.length < valid.length ? `Maksymalnie ${MAX_PHOTOS} zdjęcia` : undefined),
+    }));
+  };
+
+  const handleRemovePhoto = (id: string) => {
+    setPhotos((prev) => {
+      const removed = prev.find((photo) => photo.id === id);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((photo) => photo.id !== id);
+    });
+    setErrors((prev) => ({ ...prev, photos: undefined }));
+  };
+
+  const handleNext = () => {
+    const stepErrors = validate(step.id, photos, values);
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length > 0) return;
+    setStepIndex((i) => Math.min(i + 1, STEPS.length - 1));
+  };
+
+  const handleBack = () => {
+    setErrors({});
+    setStepIndex((i) => Math.max(i - 1, 0));
+  };
+
+  const handleSubmit = async () => {
+    const stepErrors = validate("summary", photos, values);
+    setErrors(stepErrors);
+    if (Object.keys(stepErrors).length > 0) return;
+
+    try {
+      const report = await submit({
+        body: SubmitReportSchema.parse(mapFormToSubmitReportBody(values)),
+        images: photos.map((photo) => photo.file),
+      });
+      window.location.href = `/app/reports/${report.id}`;
+    } catch {
+      // error is exposed by useSubmitReport and rendered below
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full">
+      <header className="flex items-center gap-2 px-4 py-3 border-b bg-background sticky top-0 z-10">
+        <Button variant="ghost" size="icon" asChild>
+          <a href="/app">
+            <ArrowLeft className="w-5 h-5" />
+            <span className="sr-only">Wróć do raportów</span>
+          </a>
+        </Button>
+        <h1 className="text-lg font-semibold">Nowy raport</h1>
+      </header>
+
+      <nav aria-label="Kroki formularza" className="px-4 pt-4">
+        <ol className="grid grid-cols-4 gap-2">
+          {STEPS.map((s, index) => (
+            <li key={s.id} aria-current={index === stepIndex ? "step" : undefined} className="flex flex-col gap-1">
+              <span className={`h-1 rounded ${index <= stepIndex ? "bg-primary" : "bg-muted"}`} />
+              <span className="text-xs text-muted-foreground">{s.title}</span>
+            </li>
+          ))}
+        </ol>
+      </nav>
+
+      <main className="flex-1 overflow-y-auto px-4 py-4">
+        <h2 ref={headingRef} tabIndex={-1} className="text-base font-semibold mb-4 outline-none">
+          Krok {stepIndex + 1} z {STEPS.length}: {step.title}
+        </h2>
+
+        {step.id === "photos" && (
+          <PhotosStep photos={photos} error={errors.photos} onAdd={handleAddPhotos} onRemove={handleRemovePhoto} />
+        )}
+        {step.id === "measurements" && (
+          <MeasurementsStep
+            values={values.measurements}
+            errors={errors}
+            onChange={(key, value) =>
+              setValues((prev) => ({ ...prev, measurements: { ...prev.measurements, [key]: value } }))
+            }
+          />
+        )}
+        {step.id === "cardioNote" && (
+          <CardioNoteStep
+            cardioDays={values.cardioDays}
+            note={values.note}
+            errors={errors}
+            onCardioDaysChange={(cardioDays) => setValues((prev) => ({ ...prev, cardioDays }))}
+            onNoteChange={(note) => setValues((prev) => ({ ...prev, note }))}
+          />
+        )}
+        {step.id === "summary" && <SummaryStep photos={photos} values={values} uploads={uploads} />}
+
+        <div aria-live="polite" className="mt-4 space-y-1">
+          {isLastStep && Object.values(errors).some(Boolean) && (
+            <p className="text-sm text-destructive">Popraw błędy w poprzednich krokach.</p>
+          )}
+          {submitError && <p className="text-sm text-destructive">{submitError}</p>}
+          {isOffline && <p className="text-sm text-muted-foreground">Brak połączenia z siecią</p>}
+        </div>
+      </main>
+
+      <footer className="flex justify-between gap-2 px-4 py-3 border-t bg-background">
+        <Button variant="outline" onClick={handleBack} disabled={stepIndex === 0 || isSubmitting || isReportCreated}>
+          Wstecz
+        </Button>
+        {isLastStep ? (
+          <Button onClick={handleSubmit} disabled={isSubmitting || isOffline}>
+            {isSubmitting ? "Wysyłanie..." : isReportCreated ? "Ponów wysyłanie zdjęć" : "Wyślij raport"}
+          </Button>
+        ) : (
+          <Button onClick={handleNext}>Dalej</Button>
+        )}
+      </footer>
+    </div>
+  );
+};
+
+const NewReportWizard: React.FC<Props> = ({ clientId }) => {
+  // ensure a stable client instance across renders
+  const [queryClient] = React.useState(() => new QueryClient());
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <NewReportWizardContent clientId={clientId} />
+    </QueryClientProvider>
+  );
+};
+
+export default NewReportWizard;
@@ -0,0 +1,73 @@
+import React, { useId } from "react";
+import { ImagePlus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import type { PhotoVM } from "./types";
+
+export const MAX_PHOTOS = 3;
+
+interface Props {
+  photos: PhotoVM[];
+  error?: string;
+  onAdd: (files: File[]) => void;
+  onRemove: (id: string) => void;
+}
+
+const PhotosStep: React.FC<Props> = ({ photos, error, onAdd, onRemove }) => {
+  const inputId = useId();
+  const errorId = useId();
+  const canAddMore = photos.length < MAX_PHOTOS;
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Dodaj do {MAX_PHOTOS} zdjęć sylwetki (JPEG lub PNG, maks. 5 MB każde).
+      </p>
+      <div className="grid grid-cols-3 gap-2">
+        {photos.map((photo) => (
+          <div key={photo.id} className="relative aspect-square">
+            <img src={photo.previewUrl} alt={photo.file.name} className="w-full h-full object-cover rounded" />
+            <Button
+              type="button"
+              size="icon"
+              variant="secondary"
+              className="absolute top-1 right-1 h-7 w-7 rounded-full"
+              onClick={() => onRemove(photo.id)}
+            >
+              <X className="w-4 h-4" />
+              <span className="sr-only">Usuń zdjęcie {photo.file.name}</span>
+            </Button>
+          </div>
+        ))}
+        {canAddMore && (
+          <label
+            htmlFor={inputId}
+            className="aspect-square flex flex-col items-center justify-center gap-1 rounded border border-dashed text-sm text-muted-foreground cursor-pointer hover:bg-accent"
+          >
+            <ImagePlus className="w-6 h-6" />
+            Dodaj
+          </label>
+        )}
+      </div>
+      <input
+        id={inputId}
+        type="file"
+        accept="image/jpeg,image/png"
+        multiple
+        className="sr-only"
+        aria-describedby={error ? errorId : undefined}
+        onChange={(event) => {
+          onAdd(Array.from(event.target.files ?? []));
+          // allow picking the same file again after removing it
+          event.target.value = "";
+        }}
+      />
+      {error && (
+        <p id={errorId} role="alert" className="text-sm text-destructive">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PhotosStep;
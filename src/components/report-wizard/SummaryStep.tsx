@@ -0,0 +1,78 @@
+import React from "react";
+import { CheckCircle2, AlertTriangle } from "lucide-react";
+import { MEASUREMENT_FIELDS } from "@/lib/measurements";
+import type { ImageUploadProgress } from "@/lib/hooks/useSubmitReport";
+import type { PhotoVM, ReportFormValues } from "./types";
+
+interface Props {
+  photos: PhotoVM[];
+  values: ReportFormValues;
+  uploads: ImageUploadProgress[];
+}
+
+const SummaryStep: React.FC<Props> = ({ photos, values, uploads }) => {
+  return (
+    <div className="space-y-6">
+      <section aria-labelledby="summary-photos">
+        <h2 id="summary-photos" className="text-sm font-semibold mb-2">
+          Zdjęcia ({photos.length})
+        </h2>
+        {photos.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Brak zdjęć</p>
+        ) : (
+          <ul className="grid grid-cols-3 gap-2">
+            {photos.map((photo, index) => {
+              const upload = uploads[index];
+              return (
+                <li key={photo.id} className="flex flex-col gap-1">
+                  <img src={photo.previewUrl} alt={photo.file.name} className="aspect-square object-cover rounded" />
+                  {upload && (
+                    <div className="flex items-center gap-1">
+                      <div
+                        role="progressbar"
+                        aria-label={`Wysyłanie ${photo.file.name}`}
+                        aria-valuemin={0}
+                        aria-valuemax={100}
+                        aria-valuenow={upload.progress}
+                        className="h-1.5 flex-1 rounded bg-muted overflow-hidden"
+                      >
+                        <div className="h-full bg-primary transition-all" style={{ width: `${upload.progress}%` }} />
+                      </div>
+                      {upload.status === "done" && <CheckCircle2 className="w-4 h-4 text-green-700" />}
+                      {upload.status === "error" && <AlertTriangle className="w-4 h-4 text-destructive" />}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+
+      <section aria-labelledby="summary-measurements">
+        <h2 id="summary-measurements" className="text-sm font-semibold mb-2">
+          Pomiary
+        </h2>
+        <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-sm">
+          {MEASUREMENT_FIELDS.map(({ key, label, unit }) => (
+            <React.Fragment key={key}>
+              <dt className="text-muted-foreground">{label}</dt>
+              <dd>{values.measurements[key].trim() ? `${values.measurements[key]} ${unit}` : "—"}</dd>
+            </React.Fragment>
+          ))}
+          <dt className="text-muted-foreground">Dni cardio</dt>
+          <dd>{values.cardioDays.trim() || "—"}</dd>
+        </dl>
+      </section>
+
+      <section aria-labelledby="summary-note">
+        <h2 id="summary-note" className="text-sm font-semibold mb-2">
+          Notatka
+        </h2>
+        <p className="text-sm whitespace-pre-wrap">{values.note.trim() || "—"}</p>
+      </section>
+    </div>
+  );
+};
+
+export default SummaryStep;
@@ -0,0 +1,24 @@
+import type { MeasurementKey } from "@/lib/measurements";
+
+export type WizardStepId = "photos" | "measurements" | "cardioNote" | "summary";
+
+export interface WizardStep {
+  id: WizardStepId;
+  title: string;
+}
+
+export interface PhotoVM {
+  id: string;
+  file: File;
+  previewUrl: string;
+}
+
+/** Raw form state – inputs keep strings, conversion happens on validation. */
+export interface ReportFormValues {
+  measurements: Record<MeasurementKey, string>;
+  cardioDays: string;
+  note: string;
+}
+
+/** Validation messages keyed by field name (`weight`, `cardio_days`, `photos`...). */
+export type FieldErrors = Partial<Record<string, string>>;
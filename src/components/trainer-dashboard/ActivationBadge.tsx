@@ -0,0 +1,18 @@
+import React from "react";
+import type { ActivationStatus } from "@/types";
+
+interface Props {
+  status: ActivationStatus;
+}
+
+const ActivationBadge: React.FC<Props> = ({ status }) => {
+  return status === "active" ? (
+    <span className="inline-flex rounded px-1.5 py-0.5 text-xs bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300">
+      Aktywne
+    </span>
+  ) : (
+    <span className="inline-flex rounded px-1.5 py-0.5 text-xs bg-muted text-muted-foreground">Oczekuje</span>
+  );
+};
+
+export default ActivationBadge;
@@ -0,0 +1,77 @@
+import React, { useId } from "react";
+import { Input } from "@/components/ui/input";
+import type { ActivationFilter, WeekStatusFilter } from "./types";
+
+interface Props {
+  search: string;
+  weekStatus: WeekStatusFilter;
+  activation: ActivationFilter;
+  onSearchChange: (value: string) => void;
+  onWeekStatusChange: (value: WeekStatusFilter) => void;
+  onActivationChange: (value: ActivationFilter) => void;
+}
+
+const SELECT_CLASS = "h-9 rounded-md border bg-background px-2 text-sm";
+
+const ClientFilters: React.FC<Props> = ({
+  search,
+  weekStatus,
+  activation,
+  onSearchChange,
+  onWeekStatusChange,
+  onActivationChange,
+}) => {
+  const searchId = useId();
+  const weekStatusId = useId();
+  const activationId = useId();
+
+  return (
+    <div className="flex flex-wrap items-end gap-4">
+      <div className="flex flex-col gap-1">
+        <label htmlFor={searchId} className="text-sm font-medium">
+          Szukaj
+        </label>
+        <Input
+          id={searchId}
+          type="search"
+          placeholder="Imię, nazwisko, telefon, e-mail"
+          value={search}
+          onChange={(event) => onSearchChange(event.target.value)}
+          className="w-56"
+        />
+      </div>
+      <div className="flex flex-col gap-1">
+        <label htmlFor={weekStatusId} className="text-sm font-medium">
+          Raport w tym tygodniu
+        </label>
+        <select
+          id={weekStatusId}
+          value={weekStatus}
+          onChange={(event) => onWeekStatusChange(event.target.value as WeekStatusFilter)}
+          className={SELECT_CLASS}
+        >
+          <option value="all">Wszyscy</option>
+          <option value="missing">Brak raportu</option>
+          <option value="received">Raport wysłany</option>
+        </select>
+      </div>
+      <div className="flex flex-col gap-1">
+        <label htmlFor={activationId} className="text-sm font-medium">
+          Konto
+        </label>
+        <select
+          id={activationId}
+          value={activation}
+          onChange={(event) => onActivationChange(event.target.value as ActivationFilter)}
+          className={SELECT_CLASS}
+        >
+          <option value="all">Wszystkie</option>
+          <option value="active">Aktywne</option>
+          <option value="pending">Oczekuje na aktywację</option>
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default ClientFilters;
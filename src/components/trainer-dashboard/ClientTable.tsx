@@ -0,0 +1,121 @@
+import React from "react";
+import { ArrowDown, ArrowUp, MessageSquare } from "lucide-react";
+import StatusBadge from "@/components/dashboard/StatusBadge";
+import type { ClientListItemDTO } from "@/types";
+import ActivationBadge from "./ActivationBadge";
+import ResendInvitationAction from "./ResendInvitationAction";
+import SendReminderAction from "./SendReminderAction";
+import type { ClientSortKey, SortDirection } from "./types";
+
+interface Props {
+  clients: ClientListItemDTO[];
+  sort: ClientSortKey;
+  direction: SortDirection;
+  onSortChange: (sort: ClientSortKey) => void;
+}
+
+const COLUMNS: { key: ClientSortKey; label: string }[] = [
+  { key: "name", label: "Klient" },
+  { key: "status", label: "Raport w tym tygodniu" },
+  { key: "lastReportAt", label: "Ostatni raport" },
+  { key: "streak", label: "Seria (tyg.)" },
+  { key: "weightChange", label: "Waga" },
+];
+
+function formatDate(iso: string | null): string {
+  return iso ? new Date(iso).toLocaleDateString("pl-PL") : "—";
+}
+
+function formatWeightChange(change: number | null): string {
+  if (change === null) return "";
+  return `${change > 0 ? "+" : ""}${change.toLocaleString("pl-PL", { maximumFractionDigits: 1 })} kg`;
+}
+
+const ClientTable: React.FC<Props> = ({ clients, sort, direction, onSortChange }) => {
+  if (clients.length === 0) {
+    return <p className="text-sm text-muted-foreground">Brak klientów spełniających kryteria.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded border">
+      <table className="w-full text-sm">
+        <thead className="bg-muted/50 text-left">
+          <tr>
+            {COLUMNS.map(({ key, label }) => (
+              <th
+                key={key}
+                scope="col"
+                aria-sort={sort === key ? (direction === "asc" ? "ascending" : "descending") : "none"}
+                className="px-3 py-2 font-medium"
+              >
+                <button type="button" onClick={() => onSortChange(key)} className="inline-flex items-center gap-1">
+                  {label}
+                  {sort === key &&
+                    (direction === "asc" ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+                </button>
+              </th>
+            ))}
+            <th scope="col" className="px-3 py-2 font-medium">
+              Konto
+            </th>
+            <th scope="col" className="px-3 py-2 font-medium">
+              Przypomnienie
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {clients.map((client) => (
+            <tr key={client.id} className="border-t hover:bg-muted/30">
+              <td className="px-3 py-2">
+                <a href={`/trainer/clients/${client.id}`} className="font-medium underline-offset-2 hover:underline">
+                  {client.full_name}
+                </a>
+                <div className="text-xs text-muted-foreground">{client.phone ?? client.email}</div>
+                {client.unreadFeedbackCount > 0 && (
+                  <span className="inline-flex items-center gap-1 mt-1 rounded px-1.5 py-0.5 text-xs bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300">
+                    <MessageSquare className="w-3 h-3" aria-hidden="true" />
+                    Nowe komentarze: {client.unreadFeedbackCount}
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2">
+                <StatusBadge ok={client.hasReportForWeek} />
+              </td>
+              <td className="px-3 py-2">{formatDate(client.lastReportAt)}</td>
+              <td className="px-3 py-2">{client.currentStreakWeeks}</td>
+              <td className="px-3 py-2">
+                {client.latestWeight === null ? (
+                  "—"
+                ) : (
+                  <>
+                    {client.latestWeight.toLocaleString("pl-PL")} kg
+                    <div className="text-xs text-muted-foreground">{formatWeightChange(client.weightChange)}</div>
+                  </>
+                )}
+              </td>
+              <td className="px-3 py-2">
+                <div className="flex flex-col items-start gap-1">
+                  <ActivationBadge status={client.activationStatus} />
+                  {client.activationStatus === "pending" && (
+                    <ResendInvitationAction clientId={client.id} clientName={client.full_name} />
+                  )}
+                </div>
+              </td>
+              <td className="px-3 py-2">
+                {!client.hasReportForWeek && (
+                  <SendReminderAction
+                    clientId={client.id}
+                    clientName={client.full_name}
+                    lastReminderAt={client.lastReminderAt}
+                  />
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ClientTable;
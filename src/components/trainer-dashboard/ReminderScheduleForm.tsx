@@ -0,0 +1,106 @@
+import React, { useEffect, useId, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { useReminderSettings, useSaveReminderSettings } from "@/lib/hooks/useReminderSettings";
+
+interface Props {
+  trainerId: string;
+}
+
+/** ISO weekdays, 1 = Monday */
+const WEEKDAYS = ["Poniedziałek", "Wtorek", "Środa", "Czwartek", "Piątek", "Sobota", "Niedziela"];
+
+const SELECT_CLASS = "h-9 rounded-md border bg-background px-2 text-sm";
+
+const ReminderScheduleForm: React.FC<Props> = ({ trainerId }) => {
+  const { data: settings, error: loadError } = useReminderSettings(trainerId);
+  const { mutate: save, isPending, isSuccess, error: saveError } = useSaveReminderSettings(trainerId);
+  const [enabled, setEnabled] = useState(false);
+  const [weekday, setWeekday] = useState(5);
+  const [hour, setHour] = useState(9);
+  const enabledId = useId();
+  const weekdayId = useId();
+  const hourId = useId();
+
+  useEffect(() => {
+    if (!settings) return;
+    setEnabled(settings.enabled);
+    setWeekday(settings.weekday);
+    setHour(settings.hour);
+  }, [settings]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    // the schedule follows the trainer's local time
+    save({ enabled, weekday, hour, timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+  };
+
+  return (
+    <details className="rounded border px-3 py-2">
+      <summary className="cursor-pointer text-sm font-medium">Automatyczne przypomnienia</summary>
+      <form onSubmit={handleSubmit} className="flex flex-wrap items-end gap-4 pt-3">
+        <p className="w-full text-xs text-muted-foreground">
+          Raz w tygodniu klienci bez raportu w bieżącym tygodniu dostaną przypomnienie.
+        </p>
+        <div className="flex items-center gap-2 h-9">
+          <input
+            id={enabledId}
+            type="checkbox"
+            checked={enabled}
+            onChange={(event) => setEnabled(event.target.checked)}
+          />
+          <label htmlFor={enabledId} className="text-sm font-medium">
+            Włączone
+          </label>
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor={weekdayId} className="text-sm font-medium">
+            Dzień
+          </label>
+          <select
+            id={weekdayId}
+            value={weekday}
+            onChange={(event) => setWeekday(Number(event.target.value))}
+            className={SELECT_CLASS}
+          >
+            {WEEKDAYS.map((label, index) => (
+              <option key={label} value={index + 1}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col gap-1">
+          <label htmlFor={hourId} className="text-sm font-medium">
+            Godzina
+          </label>
+          <select
+            id={hourId}
+            value={hour}
+            onChange={(event) => setHour(Number(event.target.value))}
+            className={SELECT_CLASS}
+          >
+            {Array.from({ length: 24 }, (_, h) => (
+              <option key={h} value={h}>
+                {`${String(h).padStart(2, "0")}:00`}
+              </option>
+            ))}
+          </select>
+        </div>
+        <Button type="submit" size="sm" disabled={isPending || !settings}>
+          {isPending ? "Zapisywanie..." : "Zapisz"}
+        </Button>
+        <span aria-live="polite" className="text-xs">
+          {loadError || saveError ? (
+            <span className="text-destructive">
+              {loadError ? "Nie udało się wczytać ustawień" : "Nie udało się zapisać ustawień"}
+            </span>
+          ) : (
+            isSuccess && <span className="text-muted-foreground">Zapisano</span>
+          )}
+        </span>
+      </form>
+    </details>
+  );
+};
+
+export default ReminderScheduleForm;
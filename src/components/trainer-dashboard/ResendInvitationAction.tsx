@@ -0,0 +1,46 @@
+import React from "react";
+import { Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ApiRequestError } from "@/lib/api-client";
+import { useResendInvitation } from "@/lib/hooks/useClients";
+
+interface Props {
+  clientId: string;
+  clientName: string;
+}
+
+function getErrorMessage(error: Error): string {
+  if (error instanceof ApiRequestError && error.status === 409) return "Konto jest już aktywne";
+  if (error instanceof ApiRequestError && error.status === 422) return "Brak adresu e-mail i telefonu";
+  return "Nie udało się wysłać linku";
+}
+
+const ResendInvitationAction: React.FC<Props> = ({ clientId, clientName }) => {
+  const { mutate, isPending, data, error } = useResendInvitation();
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => mutate(clientId)}
+        disabled={isPending}
+        aria-label={`Wyślij ponownie link aktywacyjny: ${clientName}`}
+      >
+        <Send className="w-3 h-3" />
+        {isPending ? "Wysyłanie..." : "Wyślij link"}
+      </Button>
+      <span aria-live="polite" className="text-xs">
+        {error ? (
+          <span className="text-destructive">{getErrorMessage(error)}</span>
+        ) : data?.error ? (
+          <span className="text-destructive">Nie udało się dostarczyć linku</span>
+        ) : (
+          <span className="text-muted-foreground">{data ? "Wysłano nowy link" : ""}</span>
+        )}
+      </span>
+    </div>
+  );
+};
+
+export default ResendInvitationAction;
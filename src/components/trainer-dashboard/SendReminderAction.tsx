@@ -0,0 +1,57 @@
+import React from "react";
+import { Bell } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ApiRequestError } from "@/lib/api-client";
+import { useSendReminder } from "@/lib/hooks/useClients";
+
+interface Props {
+  clientId: string;
+  clientName: string;
+  lastReminderAt: string | null;
+}
+
+function isToday(iso: string): boolean {
+  return new Date(iso).toISOString().slice(0, 10) === new Date().toISOString().slice(0, 10);
+}
+
+function getErrorMessage(error: Error): string {
+  if (error instanceof ApiRequestError && error.status === 429) return "Przypomnienie wysłano już dzisiaj";
+  if (error instanceof ApiRequestError && error.status === 422) return "Brak adresu e-mail i telefonu";
+  return "Nie udało się wysłać przypomnienia";
+}
+
+const SendReminderAction: React.FC<Props> = ({ clientId, clientName, lastReminderAt }) => {
+  const { mutate, isPending, isSuccess, error } = useSendReminder();
+  // the limit is one reminder per UTC day
+  const sentToday = !!lastReminderAt && isToday(lastReminderAt);
+
+  return (
+    <div className="flex flex-col items-start gap-1">
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => mutate(clientId)}
+        disabled={isPending || sentToday}
+        aria-label={`Wyślij przypomnienie: ${clientName}`}
+      >
+        <Bell className="w-3 h-3" />
+        {isPending ? "Wysyłanie..." : "Przypomnij"}
+      </Button>
+      <span aria-live="polite" className="text-xs">
+        {error ? (
+          <span className="text-destructive">{getErrorMessage(error)}</span>
+        ) : (
+          <span className="text-muted-foreground">
+            {isSuccess
+              ? "Wysłano"
+              : lastReminderAt
+                ? `Ostatnio: ${new Date(lastReminderAt).toLocaleDateString("pl-PL")}`
+                : ""}
+          </span>
+        )}
+      </span>
+    </div>
+  );
+};
+
+export default SendReminderAction;
@@ -0,0 +1,113 @@
+import React, { useMemo } from "react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { useClients, useClientWeekSummary } from "@/lib/hooks/useClients";
+import { useSearchParam } from "@/lib/hooks/useSearchParam";
+import LogoutButton from "@/components/auth/LogoutButton";
+import ClientFilters from "./ClientFilters";
+import ClientTable from "./ClientTable";
+import ReminderScheduleForm from "./ReminderScheduleForm";
+import type { ActivationFilter, ClientSortKey, SortDirection, WeekStatusFilter } from "./types";
+
+const SORT_KEYS: ClientSortKey[] = ["name", "lastReportAt", "status", "streak", "weightChange"];
+
+interface Props {
+  trainerId: string;
+}
+
+const TrainerDashboardContent: React.FC<Props> = ({ trainerId }) => {
+  // view settings live in the URL so the view survives a reload and can be bookmarked
+  const [sortParam, setSortParam] = useSearchParam("sort");
+  const [directionParam, setDirectionParam] = useSearchParam("dir");
+  const [weekStatusParam, setWeekStatusParam] = useSearchParam("status");
+  const [activationParam, setActivationParam] = useSearchParam("activation");
+  const [searchParam, setSearchParam] = useSearchParam("q");
+
+  const sort: ClientSortKey = SORT_KEYS.find((key) => key === sortParam) ?? "status";
+  const direction: SortDirection = directionParam === "desc" ? "desc" : "asc";
+  const weekStatus: WeekStatusFilter =
+    weekStatusParam === "missing" || weekStatusParam === "received" ? weekStatusParam : "all";
+  const activation: ActivationFilter =
+    activationParam === "pending" || activationParam === "active" ? activationParam : "all";
+  const search = searchParam ?? "";
+
+  // Search, report status and order are applied by the API
+  const {
+    data: clients,
+    isLoading,
+    error,
+  } = useClients({
+    search,
+    missingReportForWeek: weekStatus === "missing",
+    hasReportForWeek: weekStatus === "received",
+    sort,
+    order: direction,
+  });
+  const { data: summary } = useClientWeekSummary();
+
+  // The API has no activation filter, so it stays here
+  const visibleClients = useMemo(
+    () => (clients ?? []).filter((client) => activation === "all" || client.activationStatus === activation),
+    [clients, activation]
+  );
+
+  const handleSortChange = (key: ClientSortKey) => {
+    if (key === sort) {
+      setDirectionParam(direction === "asc" ? "desc" : null);
+    } else {
+      setSortParam(key);
+      setDirectionParam(null);
+    }
+  };
+
+  return (
+    <div className="flex flex-col min-h-full w-full">
+      <header className="flex items-center justify-between gap-2 px-4 py-3 border-b bg-background sticky top-0 z-10">
+        <h1 className="text-lg font-semibold">Moi klienci</h1>
+        <div className="flex items-center gap-2">
+          {summary && (
+            <span className="text-sm text-muted-foreground">
+              Bez raportu w tym tygodniu: {summary.missing} z {summary.total}
+            </span>
+          )}
+          <LogoutButton />
+        </div>
+      </header>
+
+      <main className="flex-1 px-4 py-4 space-y-4">
+        <ReminderScheduleForm trainerId={trainerId} />
+
+        <ClientFilters
+          search={search}
+          weekStatus={weekStatus}
+          activation={activation}
+          onSearchChange={setSearchParam}
+          onWeekStatusChange={(value) => setWeekStatusParam(value === "all" ? null : value)}
+          onActivationChange={(value) => setActivationParam(value === "all" ? null : value)}
+        />
+
+        {isLoading && <p className="text-center py-4">Ładowanie...</p>}
+        {error && (
+          <p role="alert" className="text-sm text-destructive">
+            {error.message}
+          </p>
+        )}
+        {clients && (
+          <ClientTable clients={visibleClients} sort={sort} direction={direction} onSortChange={handleSortChange} />
+        )}
+      </main>
+    </div>
+  );
+};
+
+const TrainerDashboardPage: React.FC<Props> = ({ trainerId }) => {
+  // ensure a stable client instance across renders
+  const [queryClient] = React.useState(() => new QueryClient());
+
+  return (
+    <QueryClientProvider client={queryClient}>
+      <TrainerDashboardContent trainerId={trainerId} />
+    </QueryClientProvider>
+  );
+};
+
+export default TrainerDashboardPage;
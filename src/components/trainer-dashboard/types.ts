@@ -0,0 +1,10 @@
+import type { ClientListSort } from "@/types";
+
+/** Columns the dashboard table sorts by, each one a sort of GET /api/clients */
+export type ClientSortKey = Exclude<ClientListSort, "startedAt">;
+
+export type SortDirection = "asc" | "desc";
+
+export type WeekStatusFilter = "all" | "missing" | "received";
+
+export type ActivationFilter = "all" | "pending" | "active";
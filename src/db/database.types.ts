@@ -20,6 +20,123 @@ export interface Database {
   };
   public: {
     Tables: {
+      audit_logs: {
+        Row: {
+          action: string;
+          actor_id: string | null;
+          actor_role: string | null;
+          changes: Json;
+          created_at: string;
+          entity_id: string | null;
+          entity_type: string;
+          id: string;
+          method: string;
+          route: string;
+        };
+        Insert: {
+          action: string;
+          actor_id?: string | null;
+          actor_role?: string | null;
+          changes?: Json;
+          created_at?: string;
+          entity_id?: string | null;
+          entity_type: string;
+          id?: string;
+          method: string;
+          route: string;
+        };
+        Update: {
+          action?: string;
+          actor_id?: string | null;
+          actor_role?: string | null;
+          changes?: Json;
+          created_at?: string;
+          entity_id?: string | null;
+          entity_type?: string;
+          id?: string;
+          method?: string;
+          route?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "audit_logs_actor_id_fkey";
+            columns: ["actor_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      client_goals: {
+        Row: {
+          achieved_at: string | null;
+          achieved_report_id: string | null;
+          client_id: string;
+          created_at: string;
+          created_by: string | null;
+          direction: string;
+          id: string;
+          metric: string;
+          start_value: number | null;
+          status: string;
+          target_date: string | null;
+          target_value: number;
+          updated_at: string | null;
+        };
+        Insert: {
+          achieved_at?: string | null;
+          achieved_report_id?: string | null;
+          client_id: string;
+          created_at?: string;
+          created_by?: string | null;
+          direction: string;
+          id?: string;
+          metric: string;
+          start_value?: number | null;
+          status?: string;
+          target_date?: string | null;
+          target_value: number;
+          updated_at?: string | null;
+        };
+        Update: {
+          achieved_at?: string | null;
+          achieved_report_id?: string | null;
+          client_id?: string;
+          created_at?: string;
+          created_by?: string | null;
+          direction?: string;
+          id?: string;
+          metric?: string;
+          start_value?: number | null;
+          status?: string;
+          target_date?: string | null;
+          target_value?: number;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "client_goals_achieved_report_id_fkey";
+            columns: ["achieved_report_id"];
+            isOneToOne: false;
+            referencedRelation: "reports";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "client_goals_client_id_fkey";
+            columns: ["client_id"];
+            isOneToOne: false;
+            referencedRelation: "clients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "client_goals_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       clients: {
         Row: {
           date_of_birth: string | null;
@@ -49,38 +166,270 @@ export interface Database {
           },
         ];
       };
+      image_retention_runs: {
+        Row: {
+          archive_bucket: string | null;
+          dry_run: boolean;
+          failed_count: number;
+          failures: Json;
+          finished_at: string | null;
+          id: string;
+          marked_count: number;
+          mode: string;
+          purged_count: number;
+          retention_days: number;
+          started_at: string;
+          triggered_by: string | null;
+        };
+        Insert: {
+          archive_bucket?: string | null;
+          dry_run?: boolean;
+          failed_count?: number;
+          failures?: Json;
+          finished_at?: string | null;
+          id?: string;
+          marked_count?: number;
+          mode: string;
+          purged_count?: number;
+          retention_days: number;
+          started_at?: string;
+          triggered_by?: string | null;
+        };
+        Update: {
+          archive_bucket?: string | null;
+          dry_run?: boolean;
+          failed_count?: number;
+          failures?: Json;
+          finished_at?: string | null;
+          id?: string;
+          marked_count?: number;
+          mode?: string;
+          purged_count?: number;
+          retention_days?: number;
+          started_at?: string;
+          triggered_by?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "image_retention_runs_triggered_by_fkey";
+            columns: ["triggered_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      invitations: {
+        Row: {
+          accepted_at: string | null;
+          channel: string;
+          created_at: string;
+          created_by: string | null;
+          error: string | null;
+          expires_at: string;
+          id: string;
+          recipient: string;
+          status: string;
+          token_hash: string;
+          user_id: string;
+        };
+        Insert: {
+          accepted_at?: string | null;
+          channel: string;
+          created_at?: string;
+          created_by?: string | null;
+          error?: string | null;
+          expires_at: string;
+          id?: string;
+          recipient: string;
+          status?: string;
+          token_hash: string;
+          user_id: string;
+        };
+        Update: {
+          accepted_at?: string | null;
+          channel?: string;
+          created_at?: string;
+          created_by?: string | null;
+          error?: string | null;
+          expires_at?: string;
+          id?: string;
+          recipient?: string;
+          status?: string;
+          token_hash?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "invitations_created_by_fkey";
+            columns: ["created_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "invitations_user_id_fkey";
+            columns: ["user_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      reminder_runs: {
+        Row: {
+          failed_count: number;
+          failures: Json;
+          finished_at: string | null;
+          id: string;
+          reminded: Json;
+          reminded_count: number;
+          skipped_count: number;
+          started_at: string;
+          trainer_id: string;
+          week_number: number;
+          year: number;
+        };
+        Insert: {
+          failed_count?: number;
+          failures?: Json;
+          finished_at?: string | null;
+          id?: string;
+          reminded?: Json;
+          reminded_count?: number;
+          skipped_count?: number;
+          started_at?: string;
+          trainer_id: string;
+          week_number: number;
+          year: number;
+        };
+        Update: {
+          failed_count?: number;
+          failures?: Json;
+          finished_at?: string | null;
+          id?: string;
+          reminded?: Json;
+          reminded_count?: number;
+          skipped_count?: number;
+          started_at?: string;
+          trainer_id?: string;
+          week_number?: number;
+          year?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "reminder_runs_trainer_id_fkey";
+            columns: ["trainer_id"];
+            isOneToOne: false;
+            referencedRelation: "trainers";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      report_comments: {
+        Row: {
+          author_id: string | null;
+          author_role: string;
+          body: string;
+          created_at: string;
+          id: string;
+          read_at: string | null;
+          report_id: string;
+          updated_at: string | null;
+        };
+        Insert: {
+          author_id?: string | null;
+          author_role: string;
+          body: string;
+          created_at?: string;
+          id?: string;
+          read_at?: string | null;
+          report_id: string;
+          updated_at?: string | null;
+        };
+        Update: {
+          author_id?: string | null;
+          author_role?: string;
+          body?: string;
+          created_at?: string;
+          id?: string;
+          read_at?: string | null;
+          report_id?: string;
+          updated_at?: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "report_comments_author_id_fkey";
+            columns: ["author_id"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "report_comments_report_id_fkey";
+            columns: ["report_id"];
+            isOneToOne: false;
+            referencedRelation: "reports";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       report_images: {
         Row: {
+          blurhash: string | null;
+          confirmed_at: string | null;
+          content_type: string | null;
           created_at: string;
           deleted_at: string | null;
           height: number | null;
           id: string;
+          is_confirmed: boolean;
           is_deleted: boolean;
+          processed_at: string | null;
+          purge_attempts: number;
+          purged_at: string | null;
           report_id: string;
           size_bytes: number;
           storage_path: string;
+          thumb_path: string | null;
           width: number | null;
         };
         Insert: {
+          blurhash?: string | null;
+          confirmed_at?: string | null;
+          content_type?: string | null;
           created_at?: string;
           deleted_at?: string | null;
           height?: number | null;
           id?: string;
+          is_confirmed?: boolean;
           is_deleted?: boolean;
+          processed_at?: string | null;
+          purge_attempts?: number;
+          purged_at?: string | null;
           report_id: string;
           size_bytes: number;
           storage_path: string;
+          thumb_path?: string | null;
           width?: number | null;
         };
         Update: {
+          blurhash?: string | null;
+          confirmed_at?: string | null;
+          content_type?: string | null;
           created_at?: string;
           deleted_at?: string | null;
           height?: number | null;
           id?: string;
+          is_confirmed?: boolean;
           is_deleted?: boolean;
+          processed_at?: string | null;
+          purge_attempts?: number;
+          purged_at?: string | null;
           report_id?: string;
           size_bytes?: number;
           storage_path?: string;
+          thumb_path?: string | null;
           width?: number | null;
         };
         Relationships: [
@@ -93,6 +442,112 @@ export interface Database {
           },
         ];
       };
+      report_reminders: {
+        Row: {
+          channel: string;
+          client_id: string;
+          created_at: string;
+          error: string | null;
+          id: string;
+          recipient: string;
+          run_id: string | null;
+          sent_by: string | null;
+          sent_on: string;
+          status: string;
+        };
+        Insert: {
+          channel: string;
+          client_id: string;
+          created_at?: string;
+          error?: string | null;
+          id?: string;
+          recipient: string;
+          run_id?: string | null;
+          sent_by?: string | null;
+          sent_on?: string;
+          status?: string;
+        };
+        Update: {
+          channel?: string;
+          client_id?: string;
+          created_at?: string;
+          error?: string | null;
+          id?: string;
+          recipient?: string;
+          run_id?: string | null;
+          sent_by?: string | null;
+          sent_on?: string;
+          status?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "report_reminders_client_id_fkey";
+            columns: ["client_id"];
+            isOneToOne: false;
+            referencedRelation: "clients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "report_reminders_run_id_fkey";
+            columns: ["run_id"];
+            isOneToOne: false;
+            referencedRelation: "reminder_runs";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "report_reminders_sent_by_fkey";
+            columns: ["sent_by"];
+            isOneToOne: false;
+            referencedRelation: "users";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+      report_week_conflicts: {
+        Row: {
+          client_id: string;
+          created_at: string;
+          iso_week: number;
+          iso_year: number;
+          report_id: string;
+          week_number: number;
+          year: number;
+        };
+        Insert: {
+          client_id: string;
+          created_at?: string;
+          iso_week: number;
+          iso_year: number;
+          report_id: string;
+          week_number: number;
+          year: number;
+        };
+        Update: {
+          client_id?: string;
+          created_at?: string;
+          iso_week?: number;
+          iso_year?: number;
+          report_id?: string;
+          week_number?: number;
+          year?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "report_week_conflicts_client_id_fkey";
+            columns: ["client_id"];
+            isOneToOne: false;
+            referencedRelation: "clients";
+            referencedColumns: ["id"];
+          },
+          {
+            foreignKeyName: "report_week_conflicts_report_id_fkey";
+            columns: ["report_id"];
+            isOneToOne: true;
+            referencedRelation: "reports";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       reports: {
         Row: {
           biceps_left: number | null;
@@ -194,6 +649,41 @@ export interface Database {
           },
         ];
       };
+      trainer_reminder_settings: {
+        Row: {
+          enabled: boolean;
+          hour: number;
+          timezone: string;
+          trainer_id: string;
+          updated_at: string;
+          weekday: number;
+        };
+        Insert: {
+          enabled?: boolean;
+          hour?: number;
+          timezone?: string;
+          trainer_id: string;
+          updated_at?: string;
+          weekday?: number;
+        };
+        Update: {
+          enabled?: boolean;
+          hour?: number;
+          timezone?: string;
+          trainer_id?: string;
+          updated_at?: string;
+          weekday?: number;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "trainer_reminder_settings_trainer_id_fkey";
+            columns: ["trainer_id"];
+            isOneToOne: true;
+            referencedRelation: "trainers";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
       trainers: {
         Row: {
           bio: string | null;
@@ -224,6 +714,7 @@ export interface Database {
           email: string | null;
           full_name: string;
           id: string;
+          must_change_password: boolean;
           phone: string | null;
           role: string;
         };
@@ -233,6 +724,7 @@ export interface Database {
           email?: string | null;
           full_name: string;
           id: string;
+          must_change_password?: boolean;
           phone?: string | null;
           role: string;
         };
@@ -242,17 +734,111 @@ export interface Database {
           email?: string | null;
           full_name?: string;
           id?: string;
+          must_change_password?: boolean;
           phone?: string | null;
           role?: string;
         };
         Relationships: [];
       };
     };
-    Views: Record<never, never>;
+    Views: {
+      client_report_summary: {
+        Row: {
+          client_id: string | null;
+          last_report_at: string | null;
+          report_count: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: "reports_client_id_fkey";
+            columns: ["client_id"];
+            isOneToOne: false;
+            referencedRelation: "clients";
+            referencedColumns: ["id"];
+          },
+        ];
+      };
+    };
     Functions: {
-      cleanup_old_report_images: {
+      achieve_report_goals: {
+        Args: { p_report_id: string };
+        Returns: string[];
+      };
+      admin_image_storage_stats: {
         Args: Record<PropertyKey, never>;
-        Returns: undefined;
+        Returns: {
+          image_count: number;
+          pending_purge_bytes: number;
+          pending_purge_count: number;
+          total_bytes: number;
+        }[];
+      };
+      admin_user_stats: {
+        Args: Record<PropertyKey, never>;
+        Returns: {
+          active: number;
+          avg_activation_seconds: number | null;
+          role: string;
+          total: number;
+        }[];
+      };
+      admin_weekly_report_counts: {
+        Args: { p_since: string };
+        Returns: {
+          client_count: number;
+          report_count: number;
+          week_number: number;
+          year: number;
+        }[];
+      };
+      cleanup_old_report_images: {
+        Args: { retention_days?: number };
+        Returns: number;
+      };
+      client_submitted_weeks: {
+        Args: { p_client_ids: string[]; p_since: string };
+        Returns: {
+          client_ids: string[];
+          week_number: number;
+          year: number;
+        }[];
+      };
+      get_activation_statuses: {
+        Args: { user_ids: string[] };
+        Returns: {
+          activation_status: string;
+          user_id: string;
+        }[];
+      };
+      is_report_participant: {
+        Args: { p_report_id: string };
+        Returns: boolean;
+      };
+      mark_report_comments_read: {
+        Args: { p_comment_ids: string[]; p_report_id: string };
+        Returns: number;
+      };
+      revoke_user_sessions: {
+        Args: { p_user_id: string };
+        Returns: number;
+      };
+      trainer_clients_for_week: {
+        Args: { p_trainer_id: string; p_week: number; p_year: number };
+        Returns: {
+          client_id: string;
+          current_streak_weeks: number;
+          date_of_birth: string | null;
+          email: string | null;
+          full_name: string;
+          gender: string | null;
+          last_report_at: string | null;
+          latest_weight: number | null;
+          phone: string | null;
+          reports_in_week: number;
+          role: string;
+          started_at: string;
+          weight_change: number | null;
+        }[];
       };
     };
     Enums: Record<never, never>;
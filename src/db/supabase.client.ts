@@ -5,8 +5,42 @@ import type { Database } from "./database.types";
 const supabaseUrl = import.meta.env.SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.SUPABASE_KEY;
 
-export const supabaseClient = createClient<Database>(supabaseUrl, supabaseAnonKey);
+/**
+ * Create a client acting as the caller identified by `accessToken` (a Supabase JWT),
+ * so RLS policies and `auth.getUser()` see that user. Without a token it acts as anon.
+ * Meant to be created once per request; it never stores or refreshes a session itself.
+ */
+export function createSupabaseClient(accessToken: string | null = null) {
+  return createClient<Database>(supabaseUrl, supabaseAnonKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+    global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+  });
+}
 
-export type SupabaseClient = typeof supabaseClient;
+export type SupabaseClient = ReturnType<typeof createSupabaseClient>;
+
+/**
+ * Create a client with the service role key, which bypasses RLS and may use the auth admin API.
+ * Only for steps no caller can be authorized for by policies, such as accepting an invitation
+ * before the user has a session.
+ */
+export function createSupabaseAdminClient(): SupabaseClient {
+  const serviceRoleKey = import.meta.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!serviceRoleKey) {
+    throw new Error("SUPABASE_SERVICE_ROLE_KEY is not configured");
+  }
+
+  return createClient<Database>(supabaseUrl, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+      detectSessionInUrl: false,
+    },
+  });
+}
 
 export const DEFAULT_USERID = "34167724-73b9-46f7-abdb-f74bbd05e095";
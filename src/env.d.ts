@@ -2,11 +2,14 @@
 
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { Database } from "./db/database.types";
+import type { AuthenticatedUser } from "./lib/api-helpers";
 
 declare global {
   namespace App {
     interface Locals {
       supabase: SupabaseClient<Database>;
+      /** The caller, resolved once per request by the middleware */
+      user: AuthenticatedUser | null;
     }
   }
 }
@@ -14,7 +17,27 @@ declare global {
 interface ImportMetaEnv {
   readonly SUPABASE_URL: string;
   readonly SUPABASE_KEY: string;
+  /** Service role key for the steps done without a user session, see createSupabaseAdminClient */
+  readonly SUPABASE_SERVICE_ROLE_KEY?: string;
   readonly OPENROUTER_API_KEY: string;
+  /** Lifetime of signed report image URLs in seconds (default 600) */
+  readonly REPORT_IMAGE_URL_TTL_SECONDS?: string;
+  /** Shared secret of the job scheduler, see isSchedulerRequest */
+  readonly CRON_SECRET?: string;
+  /** Age in days after which report images are removed (default 180) */
+  readonly IMAGE_RETENTION_DAYS?: string;
+  /** "delete" (default) or "archive" – move expired images to IMAGE_ARCHIVE_BUCKET instead */
+  readonly IMAGE_RETENTION_MODE?: string;
+  readonly IMAGE_ARCHIVE_BUCKET?: string;
+  /** "console" (default), "file" or "live" – how reminders and other notifications are delivered */
+  readonly NOTIFIER_TRANSPORT?: string;
+  /** Target of the "file" transport (default notifications.log) */
+  readonly NOTIFIER_FILE_PATH?: string;
+  readonly RESEND_API_KEY?: string;
+  readonly EMAIL_FROM?: string;
+  readonly TWILIO_ACCOUNT_SID?: string;
+  readonly TWILIO_AUTH_TOKEN?: string;
+  readonly TWILIO_FROM?: string;
   // more env variables...
 }
 
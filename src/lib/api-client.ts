@@ -0,0 +1,49 @@
+/**
+ * Thin fetch wrappers used by React hooks to talk to our own API routes.
+ */
+
+/** Error thrown for non-2xx API responses; keeps the HTTP status for callers. */
+export class ApiRequestError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+    public details?: unknown
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Builds an ApiRequestError from an `ApiError` JSON body, falling back to the status code.
+ */
+export async function readApiError(res: Response): Promise<ApiRequestError> {
+  try {
+    const json: { error?: string; details?: unknown } = await res.json();
+    return new ApiRequestError(res.status, json.error ?? `Request failed: ${res.status}`, json.details);
+  } catch {
+    return new ApiRequestError(res.status, `Request failed: ${res.status}`);
+  }
+}
+
+/**
+ * fetch() that parses JSON and throws ApiRequestError on failure.
+ * Body objects are serialized as JSON.
+ */
+export async function fetchJson<T>(url: string, init: Omit<RequestInit, "body"> & { body?: unknown } = {}): Promise<T> {
+  const { body, headers, ...rest } = init;
+  const res = await fetch(url, {
+    ...rest,
+    headers: body !== undefined ? { "Content-Type": "application/json", ...headers } : headers,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!res.ok) {
+    throw await readApiError(res);
+  }
+
+  if (res.status === 204) {
+    return undefined as T;
+  }
+
+  return (await res.json()) as T;
+}
@@ -1,7 +1,8 @@
 import { z } from "zod";
-import type { APIRoute } from "astro";
-import type { SupabaseClient } from "../db/supabase.client";
-import type { PaginationMeta } from "../types";
+import type { APIRoute, AstroCookies } from "astro";
+import { createSupabaseAdminClient, type SupabaseClient } from "../db/supabase.client";
+import type { PaginationMeta, ReportMetric } from "../types";
+import { getFallbackAuditEntry, writeAuditLogs, type AuditEntry } from "./services/auditLogService";
 
 /* ------------------------------------------------------------------ */
 /* Error handling                                                     */
@@ -45,6 +46,8 @@ export interface AuthenticatedUser {
   role: "super_admin" | "trainer" | "client";
   email?: string;
   full_name: string;
+  /** Every route but the password change is closed until the user sets a new password */
+  must_change_password: boolean;
 }
 
 export async function getAuthenticatedUser(supabase: SupabaseClient): Promise<AuthenticatedUser | null> {
@@ -61,7 +64,7 @@ export async function getAuthenticatedUser(supabase: SupabaseClient): Promise<Au
     // Get user details from our users table
     const { data: userData, error: userError } = await supabase
       .from("users")
-      .select("id, role, email, full_name")
+      .select("id, role, email, full_name, must_change_password")
       .eq("id", user.id)
       .is("deleted_at", null)
       .single();
@@ -75,6 +78,7 @@ export async function getAuthenticatedUser(supabase: SupabaseClient): Promise<Au
       role: userData.role as "super_admin" | "trainer" | "client",
       email: userData.email || undefined,
       full_name: userData.full_name,
+      must_change_password: userData.must_change_password,
     };
   } catch (error) {
     // eslint-disable-next-line no-console
@@ -100,34 +104,19 @@ export function requireRole(user: AuthenticatedUser, allowedRoles: string[]): vo
 }
 
 /**
- * Invite a user via Supabase Auth (email)
+ * Scheduled jobs call the API with `Authorization: Bearer <CRON_SECRET>` instead of a user session.
  */
-export async function inviteUser(supabase: SupabaseClient, email: string): Promise<void> {
-  const { error } = await supabase.auth.admin.inviteUserByEmail(email);
-
-  if (error) {
-    // eslint-disable-next-line no-console
-    console.error("Error inviting user:", error);
-    throw new ApiException(500, {
-      error: "Failed to send invitation",
-      details: error.message,
-    });
-  }
+export function isSchedulerRequest(request: Request): boolean {
+  const secret = import.meta.env.CRON_SECRET;
+  return !!secret && request.headers.get("Authorization") === `Bearer ${secret}`;
 }
 
 /**
- * Invite a user via Supabase Auth (phone)
- * Note: This is a placeholder - actual phone invitation would need to be implemented
- * based on your Supabase configuration and SMS provider
+ * Client a job runs with. The scheduler has no user session, and RLS hides every row from anon,
+ * so its requests use the service role; users run jobs under their own policies.
  */
-export async function inviteUserByPhone(supabase: SupabaseClient, phone: string): Promise<void> {
-  // For now, we'll create the user without sending an actual SMS invitation
-  // In production, you would integrate with your SMS provider or use Supabase's phone auth
-  // eslint-disable-next-line no-console
-  console.log(`Phone invitation would be sent to: ${phone}`);
-
-  // This is a placeholder - actual implementation would depend on your SMS setup
-  // You might use Supabase's signUp with phone or integrate with Twilio/similar service
+export function getJobClient(request: Request, supabase: SupabaseClient): SupabaseClient {
+  return isSchedulerRequest(request) ? createSupabaseAdminClient() : supabase;
 }
 
 /* ------------------------------------------------------------------ */
@@ -154,6 +143,37 @@ export const TrainersQuerySchema = PaginationQuerySchema.extend({
   search: z.string().optional(),
 });
 
+export const LoginSchema = z.discriminatedUnion("method", [
+  z.object({
+    method: z.literal("email"),
+    email: z.string().trim().email("Invalid email format"),
+    password: z.string().min(1, "Password is required").max(72, "Password too long"),
+  }),
+  z.object({
+    method: z.literal("phone"),
+    phone: z.string().trim().min(1, "Phone number is required").max(20, "Phone number too long"),
+    password: z.string().min(1, "Password is required").max(72, "Password too long"),
+  }),
+]);
+
+/** Password policy for passwords users choose themselves */
+export const PasswordSchema = z
+  .string()
+  .min(8, "Password must be at least 8 characters")
+  .max(72, "Password too long")
+  .regex(/[a-zA-Z]/, "Password must contain a letter")
+  .regex(/[0-9]/, "Password must contain a digit");
+
+export const AcceptInvitationSchema = z.object({
+  token: z.string().min(1, "Token is required").max(100, "Invalid token"),
+  password: PasswordSchema,
+});
+
+export const ChangePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required").max(72, "Password too long"),
+  password: PasswordSchema,
+});
+
 export const CreateTrainerSchema = z.object({
   fullName: z.string().min(1, "Full name is required").max(100, "Full name too long"),
   email: z.string().email("Invalid email format"),
@@ -164,9 +184,26 @@ export const UpdateTrainerSchema = z.object({
   bio: z.string().max(500, "Bio too long").nullable().optional(),
 });
 
+/** "true" / "false" query parameter (z.coerce.boolean treats "false" as true) */
+const BooleanQueryParam = z.enum(["true", "false"]).transform((value) => value === "true");
+
 export const ClientsQuerySchema = PaginationQuerySchema.extend({
-  missingReportForWeek: z.coerce.boolean().optional(),
-});
+  missingReportForWeek: BooleanQueryParam.optional(),
+  hasReportForWeek: BooleanQueryParam.optional(),
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+  week: z.coerce.number().int().min(1).max(53).optional(),
+  search: z.string().trim().max(100, "Search too long").optional(),
+  sort: z.enum(["name", "lastReportAt", "startedAt", "status", "streak", "weightChange"]).default("startedAt"),
+  order: z.enum(["asc", "desc"]).optional(),
+})
+  .refine((query) => (query.year === undefined) === (query.week === undefined), {
+    message: "year and week must be given together",
+    path: ["week"],
+  })
+  .refine((query) => !(query.missingReportForWeek && query.hasReportForWeek), {
+    message: "missingReportForWeek and hasReportForWeek cannot both be true",
+    path: ["hasReportForWeek"],
+  });
 
 export const CreateClientSchema = z.object({
   fullName: z.string().min(1, "Full name is required").max(100, "Full name too long"),
@@ -190,6 +227,18 @@ export const UpdateClientSchema = z.object({
   gender: z.string().max(20, "Gender too long").optional(),
 });
 
+/** Numeric report measurements, in display order. */
+export const REPORT_METRICS: ReportMetric[] = [
+  "weight",
+  "waist",
+  "chest",
+  "biceps_left",
+  "biceps_right",
+  "thigh_left",
+  "thigh_right",
+  "cardio_days",
+];
+
 export const ReportsQuerySchema = PaginationQuerySchema.extend({
   // No additional filters for now
 });
@@ -211,62 +260,186 @@ export const SubmitReportSchema = z.object({
   note: z.string().max(1000, "Note too long").optional(),
 });
 
+/** Null clears a saved value; omitted fields stay as they are */
 export const EditReportSchema = z.object({
-  weight: z.number().min(0, "Weight must be non-negative").max(1000, "Weight too high").optional(),
-  waist: z.number().min(0, "Waist must be non-negative").max(500, "Waist too high").optional(),
-  chest: z.number().min(0, "Chest must be non-negative").max(500, "Chest too high").optional(),
-  biceps_left: z.number().min(0, "Biceps left must be non-negative").max(200, "Biceps left too high").optional(),
-  biceps_right: z.number().min(0, "Biceps right must be non-negative").max(200, "Biceps right too high").optional(),
-  thigh_left: z.number().min(0, "Thigh left must be non-negative").max(300, "Thigh left too high").optional(),
-  thigh_right: z.number().min(0, "Thigh right must be non-negative").max(300, "Thigh right too high").optional(),
+  weight: z.number().min(0, "Weight must be non-negative").max(1000, "Weight too high").nullable().optional(),
+  waist: z.number().min(0, "Waist must be non-negative").max(500, "Waist too high").nullable().optional(),
+  chest: z.number().min(0, "Chest must be non-negative").max(500, "Chest too high").nullable().optional(),
+  biceps_left: z
+    .number()
+    .min(0, "Biceps left must be non-negative")
+    .max(200, "Biceps left too high")
+    .nullable()
+    .optional(),
+  biceps_right: z
+    .number()
+    .min(0, "Biceps right must be non-negative")
+    .max(200, "Biceps right too high")
+    .nullable()
+    .optional(),
+  thigh_left: z
+    .number()
+    .min(0, "Thigh left must be non-negative")
+    .max(300, "Thigh left too high")
+    .nullable()
+    .optional(),
+  thigh_right: z
+    .number()
+    .min(0, "Thigh right must be non-negative")
+    .max(300, "Thigh right too high")
+    .nullable()
+    .optional(),
   cardio_days: z
     .number()
     .int()
     .min(0, "Cardio days must be non-negative")
     .max(7, "Cardio days cannot exceed 7")
+    .nullable()
     .optional(),
-  note: z.string().max(1000, "Note too long").optional(),
+  note: z.string().max(1000, "Note too long").nullable().optional(),
 });
 
+export const IMAGE_CONTENT_TYPES = ["image/jpeg", "image/png"] as const;
+export type ImageContentType = (typeof IMAGE_CONTENT_TYPES)[number];
+
+export const MAX_IMAGE_SIZE_BYTES = 5 * 1024 * 1024;
+
 export const ImageUploadRequestSchema = z.object({
-  contentType: z.enum(["image/jpeg", "image/png"], {
+  contentType: z.enum(IMAGE_CONTENT_TYPES, {
     errorMap: () => ({ message: "Content type must be image/jpeg or image/png" }),
   }),
-  size: z
+  size: z.number().int().min(1, "File size must be positive").max(MAX_IMAGE_SIZE_BYTES, "File size cannot exceed 5MB"),
+});
+
+/** A calendar day that exists, e.g. 2024-02-29 but not 2025-02-30 or 2025-13-01 */
+const IsoDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00.000Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, "Date does not exist");
+
+export const TrendBucket = z.enum(["week", "month"]);
+
+export const TrendsQuerySchema = z
+  .object({
+    metrics: z
+      .string()
+      .optional()
+      .transform((val) => {
+        if (!val) return undefined;
+        return val.split(",").map((metric) => metric.trim());
+      })
+      .refine(
+        (metrics) => {
+          if (!metrics) return true;
+          return metrics.every((metric) => (REPORT_METRICS as string[]).includes(metric));
+        },
+        {
+          message: `Invalid metrics. Valid options: ${REPORT_METRICS.join(", ")}`,
+        }
+      )
+      .transform((metrics) => metrics as ReportMetric[] | undefined),
+    from: IsoDateSchema.optional(),
+    to: IsoDateSchema.optional(),
+    bucket: TrendBucket.optional(),
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, {
+    message: "`from` must not be after `to`",
+    path: ["from"],
+  });
+
+export const RemindersQuerySchema = PaginationQuerySchema.extend({
+  // No additional filters for now
+});
+
+/** IANA time zone name, e.g. "Europe/Warsaw" */
+const TimeZoneSchema = z.string().refine((timeZone) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}, "Invalid time zone");
+
+export const ReminderSettingsSchema = z.object({
+  enabled: z.boolean(),
+  weekday: z
     .number()
     .int()
-    .min(1, "File size must be positive")
-    .max(5 * 1024 * 1024, "File size cannot exceed 5MB"),
+    .min(1, "Weekday must be 1 (Monday) to 7 (Sunday)")
+    .max(7, "Weekday must be 1 (Monday) to 7 (Sunday)"),
+  hour: z.number().int().min(0, "Hour must be 0-23").max(23, "Hour must be 0-23"),
+  timezone: TimeZoneSchema,
 });
 
-export const TrendsQuerySchema = z.object({
-  metrics: z
-    .string()
-    .optional()
-    .transform((val) => {
-      if (!val) return undefined;
-      return val.split(",").map((metric) => metric.trim());
-    })
-    .refine(
-      (metrics) => {
-        if (!metrics) return true;
-        const validMetrics = [
-          "weight",
-          "waist",
-          "chest",
-          "biceps_left",
-          "biceps_right",
-          "thigh_left",
-          "thigh_right",
-          "cardio_days",
-        ];
-        return metrics.every((metric) => validMetrics.includes(metric));
-      },
-      {
-        message:
-          "Invalid metrics. Valid options: weight, waist, chest, biceps_left, biceps_right, thigh_left, thigh_right, cardio_days",
-      }
-    ),
+export const ReminderRunsQuerySchema = PaginationQuerySchema.extend({
+  trainerId: z.string().uuid("Invalid UUID format").optional(),
+});
+
+export const ReportCommentsQuerySchema = PaginationQuerySchema.extend({
+  // No additional filters for now
+});
+
+export const ReportCommentSchema = z.object({
+  body: z.string().trim().min(1, "Comment cannot be empty").max(2000, "Comment too long"),
+});
+
+export const GoalStatusSchema = z.enum(["active", "achieved", "cancelled"]);
+
+export const GoalsQuerySchema = z.object({
+  status: GoalStatusSchema.optional(),
+});
+
+const GoalTargetValueSchema = z.number().min(0, "Target value must be non-negative").max(1000, "Target value too high");
+
+export const CreateGoalSchema = z.object({
+  metric: z.enum(REPORT_METRICS as [ReportMetric, ...ReportMetric[]], {
+    errorMap: () => ({ message: `Invalid metric. Valid options: ${REPORT_METRICS.join(", ")}` }),
+  }),
+  targetValue: GoalTargetValueSchema,
+  direction: z.enum(["below", "above"]).optional(),
+  targetDate: IsoDateSchema.optional(),
+});
+
+export const UpdateGoalSchema = z
+  .object({
+    targetValue: GoalTargetValueSchema.optional(),
+    targetDate: IsoDateSchema.nullable().optional(),
+    status: z.enum(["active", "cancelled"]).optional(),
+  })
+  .refine((update) => Object.values(update).some((value) => value !== undefined), {
+    message: "No valid fields provided for update",
+  });
+
+export const ComplianceQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).default(12),
+});
+
+export const AdminStatsQuerySchema = z.object({
+  weeks: z.coerce.number().int().min(1).max(52).default(12),
+});
+
+export const AuditLogsQuerySchema = PaginationQuerySchema.extend({
+  entityType: z.string().min(1).max(100).optional(),
+  entityId: z.string().min(1).max(200).optional(),
+  actorId: z.string().uuid("Invalid UUID format").optional(),
+  from: IsoDateSchema.optional(),
+  to: IsoDateSchema.optional(),
+}).refine(({ from, to }) => !from || !to || from <= to, {
+  message: "`from` must not be after `to`",
+  path: ["from"],
+});
+
+export const ImageRetentionRunSchema = z.object({
+  dryRun: z.boolean().default(false),
+});
+
+export const PhotoComparisonQuerySchema = z.object({
+  baseReportId: z.string().uuid("Invalid UUID format").optional(),
+  compareReportId: z.string().uuid("Invalid UUID format").optional(),
 });
 
 /* ------------------------------------------------------------------ */
@@ -295,25 +468,75 @@ export function getPaginationRange(page: number, pageSize: number): { from: numb
 /* API Route wrapper                                                  */
 /* ------------------------------------------------------------------ */
 
+const MUTATING_METHODS = ["POST", "PUT", "PATCH", "DELETE"];
+
+/**
+ * Collects the audit entries of one request. Mutating routes record what they changed;
+ * a successful mutation without entries is logged from the route and method alone.
+ * Entries are written with the service role; a failed write is logged on the server and
+ * the route's own response is returned, since the change was already applied.
+ */
+export interface AuditRecorder {
+  record(entry: AuditEntry): void;
+  /** The request turned out to change nothing, so no entry is written */
+  skip(): void;
+}
+
 export function createApiRoute(
   handler: (context: {
     request: Request;
     params: Record<string, string | undefined>;
     supabase: SupabaseClient;
     user: AuthenticatedUser | null;
+    cookies: AstroCookies;
+    audit: AuditRecorder;
   }) => Promise<Response>
 ): APIRoute {
   return async (context) => {
     try {
       const supabase = context.locals.supabase as SupabaseClient;
-      const user = await getAuthenticatedUser(supabase);
-
-      return await handler({
+      const user = context.locals.user;
+
+      const entries: AuditEntry[] = [];
+      let skipped = false;
+      const audit: AuditRecorder = {
+        record: (entry) => entries.push(entry),
+        skip: () => {
+          skipped = true;
+        },
+      };
+
+      const response = await handler({
         request: context.request,
         params: context.params,
         supabase,
         user,
+        cookies: context.cookies,
+        audit,
       });
+
+      const { method } = context.request;
+      if (MUTATING_METHODS.includes(method) && response.ok && !skipped) {
+        try {
+          // Users have no insert policy on audit_logs, only the server writes entries
+          await writeAuditLogs(
+            createSupabaseAdminClient(),
+            {
+              actorId: user?.id ?? null,
+              actorRole: user?.role ?? (isSchedulerRequest(context.request) ? "scheduler" : null),
+              method,
+              route: context.routePattern,
+            },
+            entries.length > 0 ? entries : [getFallbackAuditEntry(method, context.routePattern, context.params)]
+          );
+        } catch (error) {
+          // The change is already applied, a 500 here would only make clients repeat it
+          // eslint-disable-next-line no-console
+          console.error("Error writing audit log:", error, { method, route: context.routePattern, entries });
+        }
+      }
+
+      return response;
     } catch (error) {
       // eslint-disable-next-line no-console
       console.error("API Error:", error);
@@ -361,31 +584,35 @@ export function createPaginatedResponse<T>(data: T[], meta: PaginationMeta, stat
  * Get the current week number and year
  */
 export function getCurrentWeekInfo(): { year: number; weekNumber: number } {
-  const now = new Date();
-  const year = now.getFullYear();
-
-  // Calculate week number (ISO 8601 week numbering)
-  const startOfYear = new Date(year, 0, 1);
-  const dayOfYear = Math.floor((now.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000)) + 1;
-  const weekNumber = Math.ceil(dayOfYear / 7);
-
-  return { year, weekNumber };
+  return getWeekInfo(new Date());
 }
 
 /**
- * Get week info for a specific date
+ * Get week info for a specific date: ISO 8601 week and week-numbering year in UTC,
+ * the same values the reports trigger stores in `week_number` and `year`.
  */
 export function getWeekInfo(date: Date): { year: number; weekNumber: number } {
-  const year = date.getFullYear();
+  // The Thursday of the week decides which year the week belongs to
+  const thursday = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  thursday.setUTCDate(thursday.getUTCDate() + 4 - (thursday.getUTCDay() || 7));
 
-  // Calculate week number (ISO 8601 week numbering)
-  const startOfYear = new Date(year, 0, 1);
-  const dayOfYear = Math.floor((date.getTime() - startOfYear.getTime()) / (24 * 60 * 60 * 1000)) + 1;
+  const year = thursday.getUTCFullYear();
+  const dayOfYear = Math.floor((thursday.getTime() - Date.UTC(year, 0, 1)) / (24 * 60 * 60 * 1000)) + 1;
   const weekNumber = Math.ceil(dayOfYear / 7);
 
   return { year, weekNumber };
 }
 
+/** How long after creation a report can still be edited */
+export const REPORT_EDIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Get the moment the edit window of a report closes
+ */
+export function getReportEditDeadline(createdAt: string): Date {
+  return new Date(new Date(createdAt).getTime() + REPORT_EDIT_WINDOW_MS);
+}
+
 /**
  * Check if a report can be edited (within 1 hour and sequence 0)
  */
@@ -394,9 +621,5 @@ export function canEditReport(createdAt: string, sequence: number): boolean {
     return false;
   }
 
-  const createdDate = new Date(createdAt);
-  const now = new Date();
-  const oneHourAgo = new Date(now.getTime() - 60 * 60 * 1000);
-
-  return createdDate > oneHourAgo;
+  return getReportEditDeadline(createdAt) > new Date();
 }
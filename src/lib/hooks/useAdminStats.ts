@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchJson } from "@/lib/api-client";
+import type { AdminStatsDTO } from "@/types";
+
+/** Query key prefix for the super-admin system statistics. */
+export const ADMIN_STATS_QUERY_KEY = "admin-stats";
+
+export function useAdminStats(weeks = 12) {
+  return useQuery({
+    queryKey: [ADMIN_STATS_QUERY_KEY, weeks],
+    queryFn: () => fetchJson<AdminStatsDTO>(`/api/admin/stats?weeks=${weeks}`),
+    retry: false,
+  });
+}
@@ -0,0 +1,48 @@
+import { useMutation } from "@tanstack/react-query";
+import { fetchJson } from "@/lib/api-client";
+import type { AcceptInvitationCommand, ChangePasswordCommand, LoginCommand, LoginResponseDTO } from "@/types";
+
+/**
+ * POST /api/auth/login; on success the session cookies are set and the browser
+ * continues to the start page of the user's role.
+ */
+export function useLogin() {
+  return useMutation({
+    mutationFn: (body: LoginCommand) => fetchJson<LoginResponseDTO>("/api/auth/login", { method: "POST", body }),
+    onSuccess: ({ redirectTo }) => window.location.assign(redirectTo),
+  });
+}
+
+/**
+ * POST /api/auth/logout; the browser continues to the login page even if the session
+ * could not be revoked, as the session cookies are cleared either way.
+ */
+export function useLogout() {
+  return useMutation({
+    mutationFn: () => fetchJson<undefined>("/api/auth/logout", { method: "POST" }),
+    onSettled: () => window.location.assign("/login"),
+  });
+}
+
+/**
+ * POST /api/invitations/accept; sets the password, signs the user in and continues
+ * to the start page of their role.
+ */
+export function useAcceptInvitation() {
+  return useMutation({
+    mutationFn: (body: AcceptInvitationCommand) =>
+      fetchJson<LoginResponseDTO>("/api/invitations/accept", { method: "POST", body }),
+    onSuccess: ({ redirectTo }) => window.location.assign(redirectTo),
+  });
+}
+
+/**
+ * POST /api/auth/change-password; the browser continues to the start page of the user's role.
+ */
+export function useChangePassword() {
+  return useMutation({
+    mutationFn: (body: ChangePasswordCommand) =>
+      fetchJson<LoginResponseDTO>("/api/auth/change-password", { method: "POST", body }),
+    onSuccess: ({ redirectTo }) => window.location.assign(redirectTo),
+  });
+}
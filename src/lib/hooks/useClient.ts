@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchJson } from "@/lib/api-client";
+import type { ClientDTO } from "@/types";
+
+/** Query key prefix for a single client profile. */
+export const CLIENT_QUERY_KEY = "client";
+
+export function useClient(clientId: string) {
+  return useQuery({
+    queryKey: [CLIENT_QUERY_KEY, clientId],
+    queryFn: () => fetchJson<ClientDTO>(`/api/clients/${clientId}`),
+    retry: false,
+  });
+}
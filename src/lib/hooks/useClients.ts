@@ -0,0 +1,98 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchJson } from "@/lib/api-client";
+import type { ClientListItemDTO, ClientListSort, InvitationDTO, PaginationMeta, ReportReminderDTO } from "@/types";
+
+/** Query key prefix for the trainer's client list. */
+export const CLIENTS_QUERY_KEY = "clients";
+
+const PAGE_SIZE = 100;
+
+/** Search, weekly report filter and order of the client list, applied by GET /api/clients */
+export interface ClientListQuery {
+  search?: string;
+  missingReportForWeek?: boolean;
+  hasReportForWeek?: boolean;
+  sort: ClientListSort;
+  order: "asc" | "desc";
+}
+
+function toSearchParams(query: ClientListQuery): URLSearchParams {
+  const params = new URLSearchParams({ sort: query.sort, order: query.order });
+
+  if (query.search?.trim()) params.set("search", query.search.trim());
+  if (query.missingReportForWeek) params.set("missingReportForWeek", "true");
+  if (query.hasReportForWeek) params.set("hasReportForWeek", "true");
+
+  return params;
+}
+
+/**
+ * Active clients of the signed-in trainer matching the query, in the order the API sorts them.
+ * The dashboard shows them in one table, so all pages are fetched up front; the previous list
+ * stays on screen while a changed query loads.
+ */
+export function useClients(query: ClientListQuery) {
+  return useQuery({
+    queryKey: [CLIENTS_QUERY_KEY, query],
+    queryFn: async () => {
+      const clients: ClientListItemDTO[] = [];
+      const params = toSearchParams(query);
+      params.set("pageSize", String(PAGE_SIZE));
+
+      for (let page = 1; ; page++) {
+        params.set("page", String(page));
+        const { data, meta } = await fetchJson<{ data: ClientListItemDTO[]; meta: PaginationMeta }>(
+          `/api/clients?${params}`
+        );
+        clients.push(...data);
+
+        if (page >= meta.totalPages) {
+          return clients;
+        }
+      }
+    },
+    placeholderData: keepPreviousData,
+    retry: false,
+  });
+}
+
+/**
+ * All active clients of the signed-in trainer and how many of them have no report this week,
+ * whatever the list is filtered by.
+ */
+export function useClientWeekSummary() {
+  return useQuery({
+    queryKey: [CLIENTS_QUERY_KEY, "summary"],
+    queryFn: async () => {
+      const [all, missing] = await Promise.all([
+        fetchJson<{ meta: PaginationMeta }>("/api/clients?pageSize=1"),
+        fetchJson<{ meta: PaginationMeta }>("/api/clients?pageSize=1&missingReportForWeek=true"),
+      ]);
+
+      return { total: all.meta.totalItems, missing: missing.meta.totalItems };
+    },
+    retry: false,
+  });
+}
+
+/**
+ * POST /api/clients/{clientId}/reminders; refreshes the client list so the last reminder shows up.
+ */
+export function useSendReminder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (clientId: string) =>
+      fetchJson<ReportReminderDTO>(`/api/clients/${clientId}/reminders`, { method: "POST" }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [CLIENTS_QUERY_KEY] }),
+  });
+}
+
+/**
+ * POST /api/users/{clientId}/invitation; sends a new activation link, earlier links stop working.
+ */
+export function useResendInvitation() {
+  return useMutation({
+    mutationFn: (clientId: string) => fetchJson<InvitationDTO>(`/api/users/${clientId}/invitation`, { method: "POST" }),
+  });
+}
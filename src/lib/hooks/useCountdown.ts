@@ -0,0 +1,24 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Milliseconds left until `deadline` (never negative), refreshed every second.
+ * Pass `null` when there is nothing to count down to.
+ */
+export function useCountdown(deadline: Date | null): number {
+  const target = deadline?.getTime() ?? null;
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (target === null) return;
+
+    const interval = window.setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      if (current >= target) window.clearInterval(interval);
+    }, 1000);
+
+    return () => window.clearInterval(interval);
+  }, [target]);
+
+  return target === null ? 0 : Math.max(0, target - now);
+}
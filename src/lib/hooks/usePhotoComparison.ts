@@ -0,0 +1,31 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchJson } from "@/lib/api-client";
+import { getSignedUrlRefetchInterval } from "@/lib/hooks/useReport";
+import type { PhotoComparisonDTO } from "@/types";
+
+/** Query key prefix for photo comparisons. */
+export const PHOTO_COMPARISON_QUERY_KEY = "photo-comparison";
+
+interface PhotoComparisonParams {
+  baseReportId?: string;
+  compareReportId?: string;
+}
+
+/**
+ * Photos of two reports paired by slot. Without params the server compares
+ * the latest report with the one before it.
+ */
+export function usePhotoComparison(clientId: string, params: PhotoComparisonParams = {}) {
+  const search = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+
+  return useQuery({
+    queryKey: [PHOTO_COMPARISON_QUERY_KEY, clientId, params],
+    queryFn: () =>
+      fetchJson<PhotoComparisonDTO>(`/api/clients/${clientId}/photo-comparison${search ? `?${search}` : ""}`),
+    // refetch before the signed URLs expire
+    refetchInterval: (query) => getSignedUrlRefetchInterval(query.state.data?.expiresAt),
+    retry: false,
+  });
+}
@@ -0,0 +1,27 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchJson } from "@/lib/api-client";
+import type { TrainerReminderSettingsDTO, UpdateReminderSettingsCommand } from "@/types";
+
+/** Query key prefix for a trainer's reminder schedule. */
+export const REMINDER_SETTINGS_QUERY_KEY = "reminder-settings";
+
+export function useReminderSettings(trainerId: string) {
+  return useQuery({
+    queryKey: [REMINDER_SETTINGS_QUERY_KEY, trainerId],
+    queryFn: () => fetchJson<TrainerReminderSettingsDTO>(`/api/trainers/${trainerId}/reminder-settings`),
+    retry: false,
+  });
+}
+
+/**
+ * PUT /api/trainers/{trainerId}/reminder-settings; stores the saved schedule in the cache.
+ */
+export function useSaveReminderSettings(trainerId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: UpdateReminderSettingsCommand) =>
+      fetchJson<TrainerReminderSettingsDTO>(`/api/trainers/${trainerId}/reminder-settings`, { method: "PUT", body }),
+    onSuccess: (settings) => queryClient.setQueryData([REMINDER_SETTINGS_QUERY_KEY, trainerId], settings),
+  });
+}
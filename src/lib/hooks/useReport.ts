@@ -0,0 +1,49 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import type { z } from "zod";
+import type { EditReportSchema } from "@/lib/api-helpers";
+import { fetchJson } from "@/lib/api-client";
+import { REPORTS_QUERY_KEY } from "@/lib/hooks/useReports";
+import type { ReportDTO, ReportDetailDTO } from "@/types";
+
+export type EditReportBody = z.infer<typeof EditReportSchema>;
+
+/** Query key prefix for a single report detail. */
+export const REPORT_QUERY_KEY = "report";
+
+/** Refetch this long before signed image URLs expire */
+const URL_REFRESH_MARGIN_MS = 30 * 1000;
+
+/**
+ * Time until the signed URLs of the photos need refreshing; false when there are no photos.
+ */
+export function getSignedUrlRefetchInterval(expiresAt: string | undefined): number | false {
+  if (!expiresAt) return false;
+  return Math.max(new Date(expiresAt).getTime() - Date.now() - URL_REFRESH_MARGIN_MS, 10 * 1000);
+}
+
+export function useReport(reportId: string) {
+  return useQuery({
+    queryKey: [REPORT_QUERY_KEY, reportId],
+    queryFn: () => fetchJson<ReportDetailDTO>(`/api/reports/${reportId}`),
+    // photo URLs are signed and short-lived
+    refetchInterval: (query) => getSignedUrlRefetchInterval(query.state.data?.images[0]?.urls_expire_at),
+    retry: false,
+  });
+}
+
+/**
+ * PATCH /api/reports/{reportId}; refreshes the cached detail and report lists on success.
+ */
+export function useEditReport(reportId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (body: EditReportBody) => fetchJson<ReportDTO>(`/api/reports/${reportId}`, { method: "PATCH", body }),
+    // PATCH returns a plain ReportDTO, so refetch the detail to recompute deltas
+    onSuccess: () =>
+      Promise.all([
+        queryClient.invalidateQueries({ queryKey: [REPORT_QUERY_KEY, reportId] }),
+        queryClient.invalidateQueries({ queryKey: [REPORTS_QUERY_KEY] }),
+      ]),
+  });
+}
@@ -0,0 +1,60 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { fetchJson } from "@/lib/api-client";
+import type { PaginationMeta, ReportCommentCommand, ReportCommentDTO } from "@/types";
+
+/** Query key prefix for the comments of a report. */
+export const REPORT_COMMENTS_QUERY_KEY = "report-comments";
+
+const PAGE_SIZE = 100;
+
+/**
+ * All comments of a report, oldest first. Fetching marks the other side's comments as read.
+ */
+export function useReportComments(reportId: string) {
+  return useQuery({
+    queryKey: [REPORT_COMMENTS_QUERY_KEY, reportId],
+    queryFn: async () => {
+      const comments: ReportCommentDTO[] = [];
+
+      for (let page = 1; ; page++) {
+        const { data, meta } = await fetchJson<{ data: ReportCommentDTO[]; meta: PaginationMeta }>(
+          `/api/reports/${reportId}/comments?page=${page}&pageSize=${PAGE_SIZE}`
+        );
+        comments.push(...data);
+
+        if (page >= meta.totalPages) {
+          return comments;
+        }
+      }
+    },
+    retry: false,
+  });
+}
+
+/**
+ * Create, edit and delete comments of a report; each refetches the comment list on success.
+ */
+export function useReportCommentMutations(reportId: string) {
+  const queryClient = useQueryClient();
+  const onSuccess = () => queryClient.invalidateQueries({ queryKey: [REPORT_COMMENTS_QUERY_KEY, reportId] });
+
+  const create = useMutation({
+    mutationFn: (body: ReportCommentCommand) =>
+      fetchJson<ReportCommentDTO>(`/api/reports/${reportId}/comments`, { method: "POST", body }),
+    onSuccess,
+  });
+
+  const edit = useMutation({
+    mutationFn: ({ commentId, ...body }: ReportCommentCommand & { commentId: string }) =>
+      fetchJson<ReportCommentDTO>(`/api/reports/${reportId}/comments/${commentId}`, { method: "PATCH", body }),
+    onSuccess,
+  });
+
+  const remove = useMutation({
+    mutationFn: (commentId: string) =>
+      fetchJson(`/api/reports/${reportId}/comments/${commentId}`, { method: "DELETE" }),
+    onSuccess,
+  });
+
+  return { create, edit, remove };
+}
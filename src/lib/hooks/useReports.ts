@@ -1,4 +1,5 @@
-import { useEffect, useState, useCallback } from "react";
+import { useCallback, useMemo } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import { mapReportToCardVM } from "@/lib/mappers/reportCardMapper";
 import type { ReportCardVM } from "@/components/dashboard/types";
 import type { PaginationMeta, ReportListItemDTO } from "@/types";
@@ -13,55 +14,46 @@ interface UseReportsResult {
 
 const PAGE_SIZE = 20;
 
-export function useReports(clientId: string): UseReportsResult {
-  const [page, setPage] = useState(1);
-  const [reports, setReports] = useState<ReportCardVM[]>([]);
-  const [meta, setMeta] = useState<PaginationMeta | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+/** Query key prefix shared by every report list; invalidate it after a mutation. */
+export const REPORTS_QUERY_KEY = "reports";
 
-  const fetchPage = useCallback(
-    async (pageToFetch: number) => {
-      setIsLoading(true);
-      try {
-        const res = await fetch(`/api/clients/${clientId}/reports?page=${pageToFetch}&pageSize=${PAGE_SIZE}`);
-        if (!res.ok) {
-          // Stop further pagination on auth errors to prevent loops
-          if (res.status === 401 || res.status === 403) {
-            setMeta({ page: pageToFetch, pageSize: PAGE_SIZE, totalPages: pageToFetch, totalItems: 0 });
-            setError(`Auth error ${res.status}`);
-            return;
-          }
-          throw new Error(`Failed to fetch: ${res.status}`);
+export function useReports(clientId: string): UseReportsResult {
+  const query = useInfiniteQuery({
+    queryKey: [REPORTS_QUERY_KEY, clientId],
+    initialPageParam: 1,
+    queryFn: async ({ pageParam }) => {
+      const res = await fetch(`/api/clients/${clientId}/reports?page=${pageParam}&pageSize=${PAGE_SIZE}`);
+      if (!res.ok) {
+        // Auth errors are surfaced as-is so pagination stops instead of looping
+        if (res.status === 401 || res.status === 403) {
+          throw new Error(`Auth error ${res.status}`);
         }
-        const json: { data: ReportListItemDTO[]; meta: PaginationMeta } = await res.json();
-        setReports((prev) => [...prev, ...json.data.map(mapReportToCardVM)]);
-        setMeta(json.meta);
-      } catch (e) {
-        setError((e as Error).message);
-      } finally {
-        setIsLoading(false);
+        throw new Error(`Failed to fetch: ${res.status}`);
       }
+      const json: { data: ReportListItemDTO[]; meta: PaginationMeta } = await res.json();
+      return json;
     },
-    [clientId]
-  );
+    getNextPageParam: (lastPage) =>
+      lastPage.meta.page < lastPage.meta.totalPages ? lastPage.meta.page + 1 : undefined,
+    retry: false,
+  });
+
+  const { data, error, isFetching, hasNextPage, isFetchingNextPage, fetchNextPage } = query;
 
-  // initial load and page change
-  useEffect(() => {
-    fetchPage(page);
-  }, [page, fetchPage]);
+  const reports = useMemo(() => data?.pages.flatMap((page) => page.data.map(mapReportToCardVM)) ?? [], [data]);
+  const meta = data?.pages[data.pages.length - 1]?.meta ?? null;
 
   const loadMore = useCallback(() => {
     if (error) return;
-    if (meta && page >= meta.totalPages) return;
-    setPage((p) => p + 1);
-  }, [meta, page, error]);
+    if (!hasNextPage || isFetchingNextPage) return;
+    fetchNextPage();
+  }, [error, hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   return {
     reports,
     meta,
-    isLoading,
-    error,
+    isLoading: isFetching,
+    error: error ? error.message : null,
     loadMore,
   };
 }
@@ -0,0 +1,25 @@
+import { useCallback, useState } from "react";
+
+/**
+ * Single URL query parameter kept in sync with component state.
+ * Uses history.replaceState so changes are shareable without adding history entries.
+ */
+export function useSearchParam(name: string): [string | null, (value: string | null) => void] {
+  const [value, setValue] = useState<string | null>(() => new URLSearchParams(window.location.search).get(name));
+
+  const update = useCallback(
+    (next: string | null) => {
+      const url = new URL(window.location.href);
+      if (next === null || next === "") {
+        url.searchParams.delete(name);
+      } else {
+        url.searchParams.set(name, next);
+      }
+      window.history.replaceState(window.history.state, "", url);
+      setValue(next);
+    },
+    [name]
+  );
+
+  return [value, update];
+}
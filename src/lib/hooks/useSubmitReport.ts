@@ -0,0 +1,142 @@
+import { useCallback, useRef, useState } from "react";
+import type { z } from "zod";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import type { SubmitReportSchema } from "@/lib/api-helpers";
+import { fetchJson } from "@/lib/api-client";
+import { REPORTS_QUERY_KEY } from "@/lib/hooks/useReports";
+import type { ReportDTO } from "@/types";
+
+export type SubmitReportBody = z.infer<typeof SubmitReportSchema>;
+
+export type ImageUploadStatus = "pending" | "uploading" | "done" | "error";
+
+export interface ImageUploadProgress {
+  status: ImageUploadStatus;
+  /** 0-100 */
+  progress: number;
+}
+
+interface SubmitReportVariables {
+  body: SubmitReportBody;
+  images: File[];
+}
+
+interface UploadUrlResponse {
+  url: string;
+  storagePath: string;
+  imageId: string;
+}
+
+interface UseSubmitReportResult {
+  submit: (variables: SubmitReportVariables) => Promise<ReportDTO>;
+  uploads: ImageUploadProgress[];
+  /** True once the report row exists – the form must not change anymore. */
+  isReportCreated: boolean;
+  isSubmitting: boolean;
+  error: string | null;
+}
+
+/**
+ * PUT a file to a Supabase signed upload URL.
+ * XMLHttpRequest is used instead of fetch because only XHR reports upload progress.
+ */
+function uploadToSignedUrl(url: string, file: File, onProgress: (percent: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    // Same multipart layout as supabase-js `uploadToSignedUrl`
+    const body = new FormData();
+    body.append("cacheControl", "3600");
+    body.append("", file);
+
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", url);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress(Math.round((event.loaded / event.total) * 100));
+      }
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(new Error(`Upload failed: ${xhr.status}`));
+      }
+    };
+    xhr.onerror = () => reject(new Error("Upload failed: network error"));
+    xhr.send(body);
+  });
+}
+
+/**
+ * Creates a report for the given client and then uploads its images one by one
+ * (upload URL → PUT → completion), exposing per-image progress. Invalidates report lists once everything is done.
+ *
+ * A retry after a failed upload reuses the already created report and only
+ * uploads the images that did not finish, so no duplicate report is created.
+ */
+export function useSubmitReport(clientId: string): UseSubmitReportResult {
+  const queryClient = useQueryClient();
+  const [uploads, setUploads] = useState<ImageUploadProgress[]>([]);
+  const [isReportCreated, setIsReportCreated] = useState(false);
+  const createdReportRef = useRef<ReportDTO | null>(null);
+  const uploadedIndexesRef = useRef(new Set<number>());
+
+  const updateUpload = useCallback((index: number, patch: Partial<ImageUploadProgress>) => {
+    setUploads((prev) => prev.map((upload, i) => (i === index ? { ...upload, ...patch } : upload)));
+  }, []);
+
+  const mutation = useMutation({
+    mutationFn: async ({ body, images }: SubmitReportVariables): Promise<ReportDTO> => {
+      const uploaded = uploadedIndexesRef.current;
+      setUploads(
+        images.map((_, index) =>
+          uploaded.has(index) ? { status: "done", progress: 100 } : { status: "pending", progress: 0 }
+        )
+      );
+
+      let report = createdReportRef.current;
+      if (!report) {
+        report = await fetchJson<ReportDTO>(`/api/clients/${clientId}/reports`, { method: "POST", body });
+        createdReportRef.current = report;
+        setIsReportCreated(true);
+      }
+
+      for (const [index, file] of images.entries()) {
+        if (uploaded.has(index)) continue;
+
+        updateUpload(index, { status: "uploading" });
+        let imageId: string | null = null;
+        try {
+          const upload = await fetchJson<UploadUrlResponse>(`/api/reports/${report.id}/images/upload-url`, {
+            method: "POST",
+            body: { contentType: file.type, size: file.size },
+          });
+          imageId = upload.imageId;
+
+          await uploadToSignedUrl(upload.url, file, (progress) => updateUpload(index, { progress }));
+          await fetchJson(`/api/report-images/${imageId}/complete`, { method: "POST" });
+          uploaded.add(index);
+          updateUpload(index, { status: "done", progress: 100 });
+        } catch (error) {
+          updateUpload(index, { status: "error" });
+          // free the slot so a retry is not blocked by the image limit; the sweep catches leftovers
+          if (imageId) {
+            fetchJson(`/api/report-images/${imageId}`, { method: "DELETE" }).catch(() => undefined);
+          }
+          throw error;
+        }
+      }
+
+      return report;
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: [REPORTS_QUERY_KEY] }),
+  });
+
+  return {
+    submit: mutation.mutateAsync,
+    uploads,
+    isReportCreated,
+    isSubmitting: mutation.isPending,
+    error: mutation.error ? mutation.error.message : null,
+  };
+}
@@ -0,0 +1,30 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchJson } from "@/lib/api-client";
+import type { TrendsDTO } from "@/types";
+
+/** Query key prefix for client trend series. */
+export const TRENDS_QUERY_KEY = "trends";
+
+interface TrendsParams {
+  from?: string;
+  to?: string;
+  bucket?: "week" | "month";
+}
+
+/**
+ * All metric series of a client; charts pick what they show locally,
+ * so toggling metrics does not refetch.
+ */
+export function useTrends(clientId: string, params: TrendsParams = {}) {
+  const search = new URLSearchParams(
+    Object.entries(params).filter((entry): entry is [string, string] => !!entry[1])
+  ).toString();
+
+  return useQuery({
+    queryKey: [TRENDS_QUERY_KEY, clientId, params],
+    queryFn: () => fetchJson<TrendsDTO>(`/api/clients/${clientId}/trends${search ? `?${search}` : ""}`),
+    // trends change at most a couple of times a week
+    staleTime: 5 * 60 * 1000,
+    retry: false,
+  });
+}
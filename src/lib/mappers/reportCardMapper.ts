@@ -11,7 +11,7 @@ export function mapReportToCardVM(item: ReportListItemDTO): ReportCardVM {
     sequence: item.sequence,
     cardioDays: item.cardio_days ?? 0,
     hasNote: !!item.note,
-    imageThumbUrls: (item.image_thumb_urls as string[]) ?? [],
+    thumbnails: (item.thumbnails ?? []).map(({ url, blurhash }) => ({ url, blurhash })),
   };
 }
 
@@ -0,0 +1,67 @@
+import { MEASUREMENT_FIELDS } from "@/lib/measurements";
+import type { ReportFormValues } from "@/components/report-wizard/types";
+import type { ReportDTO } from "@/types";
+
+function toNumber(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (trimmed === "") return undefined;
+  // accept Polish decimal comma
+  return Number(trimmed.replace(",", "."));
+}
+
+/**
+ * Converts wizard form state into the request body of
+ * POST /api/clients/{clientId}/reports (before schema validation).
+ */
+export function mapFormToSubmitReportBody(values: ReportFormValues): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+
+  MEASUREMENT_FIELDS.forEach(({ key }) => {
+    const value = toNumber(values.measurements[key]);
+    if (value !== undefined) body[key] = value;
+  });
+
+  const cardioDays = toNumber(values.cardioDays);
+  if (cardioDays !== undefined) body.cardio_days = cardioDays;
+
+  const note = values.note.trim();
+  if (note !== "") body.note = note;
+
+  return body;
+}
+
+/**
+ * Converts the inline edit form into the request body of PATCH /api/reports/{reportId}
+ * (before schema validation). Empty fields are sent as null, so clearing a saved value removes it.
+ */
+export function mapFormToEditReportBody(values: ReportFormValues): Record<string, unknown> {
+  const body: Record<string, unknown> = {};
+
+  MEASUREMENT_FIELDS.forEach(({ key }) => {
+    body[key] = toNumber(values.measurements[key]) ?? null;
+  });
+
+  body.cardio_days = toNumber(values.cardioDays) ?? null;
+
+  const note = values.note.trim();
+  body.note = note === "" ? null : note;
+
+  return body;
+}
+
+function toInputValue(value: number | null): string {
+  return value === null ? "" : String(value);
+}
+
+/**
+ * Prefills the report form (used for inline editing) from an existing report.
+ */
+export function mapReportToFormValues(report: ReportDTO): ReportFormValues {
+  return {
+    measurements: Object.fromEntries(
+      MEASUREMENT_FIELDS.map(({ key }) => [key, toInputValue(report[key])])
+    ) as ReportFormValues["measurements"],
+    cardioDays: toInputValue(report.cardio_days),
+    note: report.note ?? "",
+  };
+}
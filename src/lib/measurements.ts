@@ -0,0 +1,27 @@
+import type { ReportDTO } from "@/types";
+
+/** Body measurement columns of `reports` (cardio and note are handled separately). */
+export type MeasurementKey = keyof Pick<
+  ReportDTO,
+  "weight" | "waist" | "chest" | "biceps_left" | "biceps_right" | "thigh_left" | "thigh_right"
+>;
+
+export interface MeasurementField {
+  key: MeasurementKey;
+  label: string;
+  unit: "kg" | "cm";
+}
+
+/**
+ * Ordered list of measurements shown in forms and report details.
+ * Keys mirror `SubmitReportSchema`.
+ */
+export const MEASUREMENT_FIELDS: MeasurementField[] = [
+  { key: "weight", label: "Waga", unit: "kg" },
+  { key: "waist", label: "Talia", unit: "cm" },
+  { key: "chest", label: "Klatka piersiowa", unit: "cm" },
+  { key: "biceps_left", label: "Biceps lewy", unit: "cm" },
+  { key: "biceps_right", label: "Biceps prawy", unit: "cm" },
+  { key: "thigh_left", label: "Udo lewe", unit: "cm" },
+  { key: "thigh_right", label: "Udo prawe", unit: "cm" },
+];
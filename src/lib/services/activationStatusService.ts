@@ -0,0 +1,37 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { ActivationStatus } from "../../types";
+
+/**
+ * Activation status of the given users ("pending" until they accept their invitation).
+ * Users the caller may not see stay "pending".
+ */
+export async function fetchActivationStatuses(
+  supabase: SupabaseClient,
+  userIds: string[]
+): Promise<Map<string, ActivationStatus>> {
+  const statuses = new Map<string, ActivationStatus>(userIds.map((id) => [id, "pending"]));
+
+  if (userIds.length === 0) {
+    return statuses;
+  }
+
+  const { data, error } = await supabase.rpc("get_activation_statuses", { user_ids: userIds });
+
+  if (error) throw error;
+
+  data.forEach((activation) => {
+    if (statuses.has(activation.user_id)) {
+      statuses.set(activation.user_id, activation.activation_status as ActivationStatus);
+    }
+  });
+
+  return statuses;
+}
+
+/**
+ * Activation status of one user, see fetchActivationStatuses.
+ */
+export async function fetchActivationStatus(supabase: SupabaseClient, userId: string): Promise<ActivationStatus> {
+  const statuses = await fetchActivationStatuses(supabase, [userId]);
+  return statuses.get(userId) ?? "pending";
+}
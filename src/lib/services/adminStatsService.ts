@@ -0,0 +1,78 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import { getRecentWeeks } from "./complianceService";
+import type { AdminStatsDTO, RoleUserStatsDTO } from "../../types";
+
+const ROLES = ["super_admin", "trainer", "client"] as const;
+
+function toHours(seconds: number | null): number | null {
+  return seconds === null ? null : Math.round((seconds / 3600) * 10) / 10;
+}
+
+/**
+ * System-wide counters for the super-admin dashboard over the last `weekCount` ISO weeks.
+ */
+export async function fetchAdminStats(
+  supabase: SupabaseClient,
+  weekCount: number,
+  now = new Date()
+): Promise<AdminStatsDTO> {
+  const weeks = getRecentWeeks(weekCount, now);
+
+  const [userStats, reportCounts, storageStats] = await Promise.all([
+    supabase.rpc("admin_user_stats"),
+    supabase.rpc("admin_weekly_report_counts", { p_since: weeks[0].start.toISOString() }),
+    supabase.rpc("admin_image_storage_stats"),
+  ]);
+
+  if (userStats.error) throw userStats.error;
+  if (reportCounts.error) throw reportCounts.error;
+  if (storageStats.error) throw storageStats.error;
+
+  const users = Object.fromEntries(
+    ROLES.map((role) => {
+      const row = userStats.data.find((stats) => stats.role === role);
+      const stats: RoleUserStatsDTO = {
+        total: row?.total ?? 0,
+        active: row?.active ?? 0,
+        pending: (row?.total ?? 0) - (row?.active ?? 0),
+        averageActivationHours: toHours(row?.avg_activation_seconds ?? null),
+      };
+      return [role, stats];
+    })
+  ) as AdminStatsDTO["users"];
+
+  // mean over trainers and clients together, weighted by the number of activated accounts
+  const invited = userStats.data.filter(
+    (stats) => stats.role !== "super_admin" && stats.avg_activation_seconds !== null
+  );
+  const activatedCount = invited.reduce((acc, stats) => acc + stats.active, 0);
+  const averageActivationSeconds =
+    activatedCount === 0
+      ? null
+      : invited.reduce((acc, stats) => acc + (stats.avg_activation_seconds as number) * stats.active, 0) /
+        activatedCount;
+
+  const storage = storageStats.data[0];
+
+  return {
+    users,
+    averageActivationHours: toHours(averageActivationSeconds),
+    reportsPerWeek: weeks.map((week) => {
+      const counts = reportCounts.data.find((row) => row.year === week.year && row.week_number === week.weekNumber);
+      return {
+        year: week.year,
+        weekNumber: week.weekNumber,
+        weekStart: week.start.toISOString(),
+        reportCount: counts?.report_count ?? 0,
+        clientCount: counts?.client_count ?? 0,
+      };
+    }),
+    storage: {
+      imageCount: storage?.image_count ?? 0,
+      totalBytes: Number(storage?.total_bytes ?? 0),
+      pendingPurgeCount: storage?.pending_purge_count ?? 0,
+      pendingPurgeBytes: Number(storage?.pending_purge_bytes ?? 0),
+    },
+    generatedAt: now.toISOString(),
+  };
+}
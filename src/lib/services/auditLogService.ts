@@ -0,0 +1,103 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json, Tables } from "../../db/database.types";
+import type { AuditAction, AuditActorRole, AuditChangesDTO, AuditLogDTO } from "../../types";
+
+/** Columns of an audit entry together with its actor's name */
+export const AUDIT_LOG_SELECT = "*, actor:users!audit_logs_actor_id_fkey(id, full_name)";
+
+/** Row or DTO as it was before or after a mutation */
+type AuditSnapshot = object;
+
+/** One mutation made by a route, recorded through `audit.record` of createApiRoute */
+export interface AuditEntry {
+  action: AuditAction;
+  /** Table name of the entity, e.g. "reports" */
+  entityType: string;
+  entityId: string | null;
+  /** Entity before the change; null or omitted for creations */
+  before?: AuditSnapshot | null;
+  /** Entity after the change; null or omitted for deletions */
+  after?: AuditSnapshot | null;
+}
+
+/** Request the entries were made in */
+export interface AuditContext {
+  actorId: string | null;
+  actorRole: AuditActorRole | null;
+  method: string;
+  route: string;
+}
+
+type AuditLogWithActor = Tables<"audit_logs"> & {
+  actor: { id: string; full_name: string } | null;
+};
+
+export function toAuditLogDTO(row: AuditLogWithActor): AuditLogDTO {
+  return {
+    ...row,
+    action: row.action as AuditAction,
+    actor_role: row.actor_role as AuditActorRole | null,
+    changes: row.changes as unknown as AuditChangesDTO,
+  };
+}
+
+/**
+ * Columns whose values differ between the two snapshots. A missing snapshot counts as
+ * all columns null, so creations and deletions list every column.
+ */
+export function diffSnapshots(before: AuditSnapshot | null, after: AuditSnapshot | null): AuditChangesDTO {
+  const changes: AuditChangesDTO = {};
+  const oldRow = (before ?? {}) as Record<string, unknown>;
+  const newRow = (after ?? {}) as Record<string, unknown>;
+  const keys = new Set([...Object.keys(oldRow), ...Object.keys(newRow)]);
+
+  keys.forEach((key) => {
+    const oldValue = oldRow[key] ?? null;
+    const newValue = newRow[key] ?? null;
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[key] = { before: oldValue, after: newValue };
+    }
+  });
+
+  return changes;
+}
+
+/**
+ * Entry for a mutation the route did not describe: the action follows the HTTP method
+ * and the entity is the route's first segment and last path parameter.
+ */
+export function getFallbackAuditEntry(method: string, route: string, params: Record<string, string | undefined>) {
+  const values = Object.values(params).filter((value): value is string => !!value);
+
+  return {
+    action: method === "DELETE" ? "delete" : method === "POST" ? "create" : "update",
+    entityType: route.replace(/^\/api\//, "").split("/")[0],
+    entityId: values.length > 0 ? values[values.length - 1] : null,
+  } satisfies AuditEntry;
+}
+
+export async function writeAuditLogs(
+  supabase: SupabaseClient,
+  context: AuditContext,
+  entries: AuditEntry[]
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  const { error } = await supabase.from("audit_logs").insert(
+    entries.map((entry) => ({
+      actor_id: context.actorId,
+      actor_role: context.actorRole,
+      action: entry.action,
+      entity_type: entry.entityType,
+      entity_id: entry.entityId,
+      changes: diffSnapshots(entry.before ?? null, entry.after ?? null) as Json,
+      method: context.method,
+      route: context.route,
+    }))
+  );
+
+  if (error) throw error;
+}
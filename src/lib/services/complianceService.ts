@@ -0,0 +1,135 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import { getWeekInfo } from "../api-helpers";
+import { getBucketStart } from "./trendService";
+import type { ClientComplianceDTO, ComplianceClientDTO, TrainerComplianceDTO, WeeklyComplianceDTO } from "../../types";
+
+/** Weekly submission rate the PRD sets as the success metric (percent) */
+export const COMPLIANCE_TARGET_RATE = 80;
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface ReportWeek {
+  year: number;
+  weekNumber: number;
+  start: Date;
+}
+
+/** Percent with one decimal; null when nothing was expected */
+function toRate(submitted: number, expected: number): number | null {
+  return expected === 0 ? null : Math.round((submitted / expected) * 1000) / 10;
+}
+
+/**
+ * The `count` most recent ISO weeks (UTC, as stored on reports), oldest first, ending with the week of `now`.
+ */
+export function getRecentWeeks(count: number, now: Date): ReportWeek[] {
+  const currentStart = getBucketStart(now, "week");
+
+  return Array.from({ length: count }, (_, index) => {
+    const start = new Date(currentStart.getTime() - (count - 1 - index) * WEEK_MS);
+    return { ...getWeekInfo(start), start };
+  });
+}
+
+/**
+ * Report submissions of the trainer's active clients over the last `weekCount` ISO weeks.
+ *
+ * Weeks are matched on the reports' `year`/`week_number`, the values the client list badges use.
+ * A client is expected to report from the week their assignment started; several reports
+ * in one week count once.
+ */
+export async function buildTrainerCompliance(
+  supabase: SupabaseClient,
+  trainerId: string,
+  weekCount: number,
+  now = new Date()
+): Promise<TrainerComplianceDTO> {
+  const weeks = getRecentWeeks(weekCount, now);
+  const current = weeks[weeks.length - 1];
+
+  // Same client set as the trainer's client list
+  const { data: clients, error: clientsError } = await supabase.rpc("trainer_clients_for_week", {
+    p_trainer_id: trainerId,
+    p_year: current.year,
+    p_week: current.weekNumber,
+  });
+
+  if (clientsError) throw clientsError;
+
+  const submittedWeeks = new Set<string>();
+
+  if (clients.length > 0) {
+    // Grouped by week in the database: one row per report would run into the API row limit
+    const { data: reportWeeks, error: reportsError } = await supabase.rpc("client_submitted_weeks", {
+      p_client_ids: clients.map((client) => client.client_id),
+      p_since: weeks[0].start.toISOString(),
+    });
+
+    if (reportsError) throw reportsError;
+
+    reportWeeks.forEach((week) =>
+      week.client_ids.forEach((clientId) => submittedWeeks.add(`${clientId}:${week.year}:${week.week_number}`))
+    );
+  }
+
+  const clientStats = new Map<string, ClientComplianceDTO>(
+    clients.map((client) => [
+      client.client_id,
+      {
+        clientId: client.client_id,
+        fullName: client.full_name,
+        expectedWeeks: 0,
+        submittedWeeks: 0,
+        complianceRate: null,
+      },
+    ])
+  );
+
+  const weekly: WeeklyComplianceDTO[] = weeks.map((week) => {
+    const weekEnd = week.start.getTime() + WEEK_MS;
+    const submitted: ComplianceClientDTO[] = [];
+    const missing: ComplianceClientDTO[] = [];
+
+    clients
+      .filter((client) => new Date(client.started_at).getTime() < weekEnd)
+      .forEach((client) => {
+        const stats = clientStats.get(client.client_id) as ClientComplianceDTO;
+        const entry = { clientId: client.client_id, fullName: client.full_name };
+        stats.expectedWeeks += 1;
+
+        if (submittedWeeks.has(`${client.client_id}:${week.year}:${week.weekNumber}`)) {
+          stats.submittedWeeks += 1;
+          submitted.push(entry);
+        } else {
+          missing.push(entry);
+        }
+      });
+
+    return {
+      year: week.year,
+      weekNumber: week.weekNumber,
+      weekStart: week.start.toISOString(),
+      isCurrent: week === current,
+      expectedCount: submitted.length + missing.length,
+      submittedCount: submitted.length,
+      submissionRate: toRate(submitted.length, submitted.length + missing.length),
+      submitted,
+      missing,
+    };
+  });
+
+  const clientCompliance = Array.from(clientStats.values())
+    .map((stats) => ({ ...stats, complianceRate: toRate(stats.submittedWeeks, stats.expectedWeeks) }))
+    .sort((a, b) => a.fullName.localeCompare(b.fullName, "pl"));
+
+  return {
+    trainerId,
+    targetRate: COMPLIANCE_TARGET_RATE,
+    overallRate: toRate(
+      weekly.reduce((acc, week) => acc + week.submittedCount, 0),
+      weekly.reduce((acc, week) => acc + week.expectedCount, 0)
+    ),
+    weeks: weekly,
+    clients: clientCompliance,
+  };
+}
@@ -0,0 +1,198 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Tables } from "../../db/database.types";
+import { ApiException, REPORT_METRICS } from "../api-helpers";
+import type {
+  ClientGoalDTO,
+  GoalDirection,
+  GoalStatus,
+  ReportMetric,
+  TrendPointDTO,
+  TrendSeriesDTO,
+} from "../../types";
+import { buildTrendSeries } from "./trendService";
+
+/** Latest reports loaded to find the current value and the pace of each metric */
+const RECENT_REPORTS_LIMIT = 12;
+
+/** Points of one metric the pace is fitted to */
+const PACE_POINTS = 4;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isGoalMet(direction: GoalDirection, targetValue: number, value: number): boolean {
+  return direction === "below" ? value <= targetValue : value >= targetValue;
+}
+
+/**
+ * Change per day of the least-squares line through the points (oldest to newest).
+ */
+function getDailySlope(points: TrendPointDTO[]): number {
+  const xs = points.map((point) => new Date(point.date).getTime() / DAY_MS);
+  const meanX = xs.reduce((acc, x) => acc + x, 0) / xs.length;
+  const meanY = points.reduce((acc, point) => acc + point.value, 0) / points.length;
+
+  let numerator = 0;
+  let denominator = 0;
+  points.forEach((point, index) => {
+    numerator += (xs[index] - meanX) * (point.value - meanY);
+    denominator += (xs[index] - meanX) ** 2;
+  });
+
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function getProgressPercent(row: Tables<"client_goals">, currentValue: number | null): number | null {
+  if (row.status === "achieved") return 100;
+  if (row.start_value === null || currentValue === null) return null;
+
+  const targetValue = Number(row.target_value);
+  const startValue = Number(row.start_value);
+  if (isGoalMet(row.direction as GoalDirection, targetValue, currentValue)) return 100;
+  if (targetValue === startValue) return 0;
+
+  const progress = ((currentValue - startValue) / (targetValue - startValue)) * 100;
+  return Math.round(Math.min(100, Math.max(0, progress)));
+}
+
+/**
+ * Direction of a new goal: the given one, or the side of the target the latest value is on.
+ * Rejects targets the latest value already meets and target dates in the past.
+ */
+export function resolveGoalTarget(
+  targetValue: number,
+  direction: GoalDirection | undefined,
+  targetDate: string | null | undefined,
+  latestValue: number | null
+): GoalDirection {
+  const resolved = direction ?? (latestValue === null ? undefined : targetValue < latestValue ? "below" : "above");
+
+  if (!resolved) {
+    throw new ApiException(400, {
+      error: "direction is required when the client has not reported this metric yet",
+    });
+  }
+
+  if (latestValue !== null && isGoalMet(resolved, targetValue, latestValue)) {
+    throw new ApiException(400, {
+      error: "Target is already reached by the latest report",
+      details: { latestValue, targetValue, direction: resolved },
+    });
+  }
+
+  if (targetDate && targetDate < new Date().toISOString().slice(0, 10)) {
+    throw new ApiException(400, { error: "Target date cannot be in the past" });
+  }
+
+  return resolved;
+}
+
+/**
+ * With a target date the pace of the recent reports is projected to that date;
+ * without one the client is on track while the values move towards the target.
+ */
+function isOnTrack(row: Tables<"client_goals">, points: TrendPointDTO[], now: Date): boolean | null {
+  if (row.status === "achieved") return true;
+  if (row.status !== "active" || points.length === 0) return null;
+
+  const direction = row.direction as GoalDirection;
+  const targetValue = Number(row.target_value);
+  const latest = points[points.length - 1];
+  if (isGoalMet(direction, targetValue, latest.value)) return true;
+
+  // the target date is inclusive
+  if (row.target_date && now.getTime() >= new Date(`${row.target_date}T00:00:00.000Z`).getTime() + DAY_MS) {
+    return false;
+  }
+
+  const recent = points.slice(-PACE_POINTS);
+  if (recent.length < 2) return null;
+
+  const slope = getDailySlope(recent);
+
+  if (!row.target_date) {
+    return direction === "below" ? slope < 0 : slope > 0;
+  }
+
+  const daysLeft =
+    (new Date(`${row.target_date}T00:00:00.000Z`).getTime() + DAY_MS - new Date(latest.date).getTime()) / DAY_MS;
+  return isGoalMet(direction, targetValue, latest.value + slope * daysLeft);
+}
+
+/**
+ * @param points - Series of the goal's metric, oldest to newest
+ */
+export function toClientGoalDTO(row: Tables<"client_goals">, points: TrendPointDTO[], now = new Date()): ClientGoalDTO {
+  const currentValue = points.length > 0 ? points[points.length - 1].value : null;
+
+  return {
+    ...row,
+    metric: row.metric as ReportMetric,
+    direction: row.direction as GoalDirection,
+    status: row.status as GoalStatus,
+    currentValue,
+    progressPercent: getProgressPercent(row, currentValue),
+    onTrack: isOnTrack(row, points, now),
+  };
+}
+
+/**
+ * Series of every metric over the client's latest reports, oldest to newest.
+ */
+export async function fetchRecentMetricSeries(supabase: SupabaseClient, clientId: string): Promise<TrendSeriesDTO> {
+  const { data, error } = await supabase
+    .from("reports")
+    .select("id, created_at, weight, waist, chest, biceps_left, biceps_right, thigh_left, thigh_right, cardio_days")
+    .eq("client_id", clientId)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: false })
+    .limit(RECENT_REPORTS_LIMIT);
+
+  if (error) throw error;
+
+  return buildTrendSeries(data.reverse(), REPORT_METRICS);
+}
+
+/**
+ * Goals of a client, newest first, with their progress.
+ */
+export async function fetchClientGoals(
+  supabase: SupabaseClient,
+  clientId: string,
+  filters: { metrics?: ReportMetric[]; statuses?: GoalStatus[] } = {}
+): Promise<ClientGoalDTO[]> {
+  let query = supabase.from("client_goals").select("*").eq("client_id", clientId);
+
+  if (filters.metrics) {
+    query = query.in("metric", filters.metrics);
+  }
+
+  if (filters.statuses) {
+    query = query.in("status", filters.statuses);
+  }
+
+  const { data: goals, error } = await query.order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  if (goals.length === 0) {
+    return [];
+  }
+
+  const series = await fetchRecentMetricSeries(supabase, clientId);
+  return goals.map((goal) => toClientGoalDTO(goal, series[goal.metric as ReportMetric] ?? []));
+}
+
+/**
+ * Mark the client's active goals the report meets as achieved by that report.
+ * Returns the ids of the goals achieved.
+ *
+ * Runs in the database (achieve_report_goals) with the values stored on the report, as the
+ * client submitting it may not update their goals; callers must be participants of the report.
+ */
+export async function evaluateGoalsForReport(supabase: SupabaseClient, reportId: string): Promise<string[]> {
+  const { data, error } = await supabase.rpc("achieve_report_goals", { p_report_id: reportId });
+
+  if (error) throw error;
+
+  return data;
+}
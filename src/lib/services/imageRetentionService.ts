@@ -0,0 +1,197 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json, Tables } from "../../db/database.types";
+import { REPORT_IMAGES_BUCKET } from "./reportImageService";
+import type { ImageRetentionFailureDTO, ImageRetentionMode, ImageRetentionRunDTO } from "../../types";
+
+const DEFAULT_RETENTION_DAYS = 180;
+const DEFAULT_ARCHIVE_BUCKET = "report-images-archive";
+/** Images purged per run; the rest is picked up by the next run */
+const PURGE_BATCH_SIZE = 500;
+
+export interface ImageRetentionConfig {
+  retentionDays: number;
+  mode: ImageRetentionMode;
+  archiveBucket: string;
+}
+
+interface PendingImage {
+  id: string;
+  storage_path: string;
+  thumb_path: string | null;
+  purge_attempts: number;
+}
+
+/**
+ * Retention settings from IMAGE_RETENTION_DAYS, IMAGE_RETENTION_MODE and IMAGE_ARCHIVE_BUCKET.
+ */
+export function getImageRetentionConfig(): ImageRetentionConfig {
+  const days = Number(import.meta.env.IMAGE_RETENTION_DAYS);
+
+  return {
+    retentionDays: Number.isInteger(days) && days > 0 ? days : DEFAULT_RETENTION_DAYS,
+    mode: import.meta.env.IMAGE_RETENTION_MODE === "archive" ? "archive" : "delete",
+    archiveBucket: import.meta.env.IMAGE_ARCHIVE_BUCKET || DEFAULT_ARCHIVE_BUCKET,
+  };
+}
+
+export function toImageRetentionRunDTO(row: Tables<"image_retention_runs">): ImageRetentionRunDTO {
+  return {
+    ...row,
+    mode: row.mode as ImageRetentionMode,
+    failures: row.failures as unknown as ImageRetentionFailureDTO[],
+  };
+}
+
+/**
+ * Delete (or move to the archive bucket) the storage objects of one image.
+ * Returns the paths that failed.
+ */
+async function purgeImage(
+  supabase: SupabaseClient,
+  image: PendingImage,
+  config: ImageRetentionConfig
+): Promise<ImageRetentionFailureDTO[]> {
+  const paths = image.thumb_path ? [image.storage_path, image.thumb_path] : [image.storage_path];
+  const bucket = supabase.storage.from(REPORT_IMAGES_BUCKET);
+
+  if (config.mode === "delete") {
+    const { error } = await bucket.remove(paths);
+    return error ? paths.map((path) => ({ imageId: image.id, path, error: error.message })) : [];
+  }
+
+  const failures: ImageRetentionFailureDTO[] = [];
+
+  for (const path of paths) {
+    const { error } = await bucket.move(path, path, { destinationBucket: config.archiveBucket });
+
+    // an object already gone (e.g. removed when the image was deleted) has nothing left to archive
+    if (error && !/not.?found/i.test(error.message)) {
+      failures.push({ imageId: image.id, path, error: error.message });
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * One retention run:
+ * 1. marks images older than the retention age as deleted (cleanup_old_report_images),
+ * 2. deletes or archives the storage objects of every deleted image not purged yet,
+ * 3. records the counts and failures in image_retention_runs.
+ *
+ * A dry run changes nothing and logs how many images would be marked and purged.
+ * Images that failed stay unpurged and are retried by later runs; each failure counts in
+ * `purge_attempts`, and a batch takes the fewest attempts first, so images that keep
+ * failing cannot crowd out the others.
+ */
+export async function runImageRetention(
+  supabase: SupabaseClient,
+  options: { dryRun: boolean; triggeredBy: string | null },
+  config: ImageRetentionConfig = getImageRetentionConfig()
+): Promise<ImageRetentionRunDTO> {
+  const { data: run, error: runError } = await supabase
+    .from("image_retention_runs")
+    .insert({
+      mode: config.mode,
+      archive_bucket: config.mode === "archive" ? config.archiveBucket : null,
+      dry_run: options.dryRun,
+      retention_days: config.retentionDays,
+      triggered_by: options.triggeredBy,
+    })
+    .select("id")
+    .single();
+
+  if (runError || !run) {
+    throw runError ?? new Error("Failed to create retention run");
+  }
+
+  const cutoff = new Date(Date.now() - config.retentionDays * 24 * 60 * 60 * 1000).toISOString();
+  let markedCount: number;
+
+  if (options.dryRun) {
+    const { count, error } = await supabase
+      .from("report_images")
+      .select("id", { count: "exact", head: true })
+      .eq("is_deleted", false)
+      .lt("created_at", cutoff);
+
+    if (error) throw error;
+    markedCount = count ?? 0;
+  } else {
+    const { data, error } = await supabase.rpc("cleanup_old_report_images", { retention_days: config.retentionDays });
+
+    if (error) throw error;
+    markedCount = data ?? 0;
+  }
+
+  // In a dry run the images that would be marked are not deleted yet, so include them
+  const pendingQuery = supabase
+    .from("report_images")
+    .select("id, storage_path, thumb_path, purge_attempts")
+    .is("purged_at", null);
+  const { data: pending, error: pendingError } = await (
+    options.dryRun ? pendingQuery.or(`is_deleted.eq.true,created_at.lt.${cutoff}`) : pendingQuery.eq("is_deleted", true)
+  )
+    .order("purge_attempts", { ascending: true })
+    .order("deleted_at", { ascending: true })
+    .limit(PURGE_BATCH_SIZE);
+
+  if (pendingError) throw pendingError;
+
+  let purgedCount = 0;
+  const failures: ImageRetentionFailureDTO[] = [];
+
+  for (const image of pending ?? []) {
+    if (options.dryRun) {
+      purgedCount++;
+      continue;
+    }
+
+    const imageFailures = await purgeImage(supabase, image, config);
+
+    if (imageFailures.length > 0) {
+      failures.push(...imageFailures);
+
+      const { error } = await supabase
+        .from("report_images")
+        .update({ purge_attempts: image.purge_attempts + 1 })
+        .eq("id", image.id);
+
+      if (error) {
+        // eslint-disable-next-line no-console
+        console.error(`Error counting the failed purge of image ${image.id}:`, error);
+      }
+      continue;
+    }
+
+    const { error } = await supabase
+      .from("report_images")
+      .update({ purged_at: new Date().toISOString() })
+      .eq("id", image.id);
+
+    if (error) {
+      failures.push({ imageId: image.id, path: image.storage_path, error: error.message });
+    } else {
+      purgedCount++;
+    }
+  }
+
+  const { data: finishedRun, error: finishError } = await supabase
+    .from("image_retention_runs")
+    .update({
+      finished_at: new Date().toISOString(),
+      marked_count: markedCount,
+      purged_count: purgedCount,
+      failed_count: new Set(failures.map((failure) => failure.imageId)).size,
+      failures: failures as unknown as Json,
+    })
+    .eq("id", run.id)
+    .select()
+    .single();
+
+  if (finishError || !finishedRun) {
+    throw finishError ?? new Error("Failed to finish retention run");
+  }
+
+  return toImageRetentionRunDTO(finishedRun);
+}
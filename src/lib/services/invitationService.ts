@@ -0,0 +1,224 @@
+import { createHash, randomBytes } from "node:crypto";
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Tables } from "../../db/database.types";
+import type { InvitationDTO, InvitationStatus, NotificationChannel } from "../../types";
+import { getNotificationAddress, getNotifier, type Notification } from "./notifierService";
+
+/** How long an activation link can be used */
+export const INVITATION_TTL_HOURS = 24;
+
+/** Columns of an invitation without the token hash, which never leaves the server */
+export const INVITATION_SELECT =
+  "id, user_id, channel, recipient, status, error, expires_at, accepted_at, created_by, created_at";
+
+type InvitationRow = Omit<Tables<"invitations">, "token_hash">;
+
+/** User data needed to address an invitation */
+export interface InvitationRecipient {
+  userId: string;
+  fullName: string;
+  email: string | null;
+  phone: string | null;
+}
+
+/**
+ * A sent link past its expiry counts as expired, even before anything updates the row.
+ */
+export function getInvitationStatus(
+  row: Pick<InvitationRow, "status" | "expires_at">,
+  now = new Date()
+): InvitationStatus {
+  if (row.status === "sent" && new Date(row.expires_at) <= now) {
+    return "expired";
+  }
+  return row.status as InvitationStatus;
+}
+
+export function toInvitationDTO(row: InvitationRow): InvitationDTO {
+  return {
+    ...row,
+    channel: row.channel as NotificationChannel,
+    status: getInvitationStatus(row),
+  };
+}
+
+/** Only the sha-256 of a token is stored, so a leaked table does not leak working links */
+function hashInvitationToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function buildInvitationNotification(
+  recipient: InvitationRecipient,
+  to: string,
+  link: string,
+  passwordReset: boolean
+): Notification {
+  if (passwordReset) {
+    return {
+      to,
+      subject: "Ustaw nowe hasło w aplikacji raportów",
+      text: `Cześć ${recipient.fullName}, Twoje hasło zostało zresetowane i wylogowaliśmy Cię ze wszystkich urządzeń. Aby ustawić nowe hasło, otwórz link (ważny ${INVITATION_TTL_HOURS} godziny): ${link}`,
+    };
+  }
+
+  return {
+    to,
+    subject: "Aktywuj konto w aplikacji raportów",
+    text: `Cześć ${recipient.fullName}, założyliśmy Ci konto. Aby je aktywować i ustawić hasło, otwórz link (ważny ${INVITATION_TTL_HOURS} godziny): ${link}`,
+  };
+}
+
+/**
+ * Send a new activation link to the user and record it in invitations.
+ *
+ * Links sent earlier stop working. A failed delivery is stored in `error` of the returned
+ * invitation; the link stays valid, so it can be passed on another way or resent.
+ * `origin` is the base URL of the app the link points to; `passwordReset` words the message
+ * for an existing account whose password was reset.
+ */
+export async function sendInvitation(
+  supabase: SupabaseClient,
+  recipient: InvitationRecipient,
+  options: { createdBy: string; origin: string; passwordReset?: boolean }
+): Promise<InvitationDTO> {
+  const address = getNotificationAddress(recipient);
+  if (!address) {
+    throw new Error(`User ${recipient.userId} has no email or phone`);
+  }
+
+  const { error: expireError } = await supabase
+    .from("invitations")
+    .update({ status: "expired" })
+    .eq("user_id", recipient.userId)
+    .eq("status", "sent");
+
+  if (expireError) throw expireError;
+
+  const token = randomBytes(32).toString("base64url");
+
+  const { data: invitation, error: insertError } = await supabase
+    .from("invitations")
+    .insert({
+      user_id: recipient.userId,
+      token_hash: hashInvitationToken(token),
+      channel: address.channel,
+      recipient: address.to,
+      expires_at: new Date(Date.now() + INVITATION_TTL_HOURS * 60 * 60 * 1000).toISOString(),
+      created_by: options.createdBy,
+    })
+    .select(INVITATION_SELECT)
+    .single();
+
+  if (insertError) throw insertError;
+
+  const link = new URL(`/invite/${token}`, options.origin).toString();
+
+  try {
+    await getNotifier(address.channel).send(
+      buildInvitationNotification(recipient, address.to, link, options.passwordReset ?? false)
+    );
+  } catch (error) {
+    const deliveryError = error instanceof Error ? error.message : String(error);
+
+    const { data: updated, error: updateError } = await supabase
+      .from("invitations")
+      .update({ error: deliveryError })
+      .eq("id", invitation.id)
+      .select(INVITATION_SELECT)
+      .single();
+
+    if (updateError) throw updateError;
+
+    return toInvitationDTO(updated);
+  }
+
+  return toInvitationDTO(invitation);
+}
+
+/**
+ * Make the user's unused links stop working. Returns the invitations that were revoked.
+ */
+export async function revokeInvitations(supabase: SupabaseClient, userId: string): Promise<InvitationDTO[]> {
+  const { data, error } = await supabase
+    .from("invitations")
+    .update({ status: "expired" })
+    .eq("user_id", userId)
+    .eq("status", "sent")
+    .select(INVITATION_SELECT);
+
+  if (error) throw error;
+
+  return data.map(toInvitationDTO);
+}
+
+/**
+ * Invitation a link token belongs to, null for unknown tokens.
+ * Tokens are looked up before their user has a session, so this needs the admin client.
+ */
+export async function findInvitationByToken(admin: SupabaseClient, token: string): Promise<InvitationDTO | null> {
+  const { data, error } = await admin
+    .from("invitations")
+    .select(INVITATION_SELECT)
+    .eq("token_hash", hashInvitationToken(token))
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return data ? toInvitationDTO(data) : null;
+}
+
+/**
+ * Use a link: mark the invitation accepted and set the user's password, confirming
+ * the address the link was sent to. The password meets the policy, so no further change
+ * is required of the user, and sessions opened with an earlier password are ended.
+ * Returns null when the link is unknown, used or expired.
+ */
+export async function acceptInvitation(
+  admin: SupabaseClient,
+  token: string,
+  password: string
+): Promise<InvitationDTO | null> {
+  const invitation = await findInvitationByToken(admin, token);
+
+  if (!invitation || invitation.status !== "sent") {
+    return null;
+  }
+
+  // Claiming the link first makes a concurrent second use fail
+  const { data: claimed, error: claimError } = await admin
+    .from("invitations")
+    .update({ status: "accepted", accepted_at: new Date().toISOString() })
+    .eq("id", invitation.id)
+    .eq("status", "sent")
+    .select(INVITATION_SELECT);
+
+  if (claimError) throw claimError;
+
+  if (claimed.length === 0) {
+    return null;
+  }
+
+  const { error: passwordError } = await admin.auth.admin.updateUserById(invitation.user_id, {
+    password,
+    ...(invitation.channel === "email" ? { email_confirm: true } : { phone_confirm: true }),
+  });
+
+  if (passwordError) {
+    // Give the link back, the user can try again while it is valid
+    await admin.from("invitations").update({ status: "sent", accepted_at: null }).eq("id", invitation.id);
+    throw passwordError;
+  }
+
+  const { error: revokeError } = await admin.rpc("revoke_user_sessions", { p_user_id: invitation.user_id });
+
+  if (revokeError) throw revokeError;
+
+  const { error: flagError } = await admin
+    .from("users")
+    .update({ must_change_password: false })
+    .eq("id", invitation.user_id);
+
+  if (flagError) throw flagError;
+
+  return toInvitationDTO(claimed[0]);
+}
@@ -0,0 +1,133 @@
+import { appendFile } from "node:fs/promises";
+import type { NotificationChannel } from "../../types";
+
+const DEFAULT_NOTIFICATION_LOG = "notifications.log";
+
+export interface Notification {
+  /** Email address or phone number, depending on the channel */
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/** Where a message to a user goes */
+export interface NotificationAddress {
+  channel: NotificationChannel;
+  to: string;
+}
+
+/**
+ * Email is preferred, users without one get an SMS. Null when the user has neither.
+ */
+export function getNotificationAddress(contact: {
+  email: string | null;
+  phone: string | null;
+}): NotificationAddress | null {
+  if (contact.email) return { channel: "email", to: contact.email };
+  if (contact.phone) return { channel: "sms", to: contact.phone };
+  return null;
+}
+
+/**
+ * Delivers a message over one channel; rejects when the provider did not accept it.
+ */
+export interface Notifier {
+  channel: NotificationChannel;
+  send(notification: Notification): Promise<void>;
+}
+
+/**
+ * Email through the Resend HTTP API (RESEND_API_KEY, EMAIL_FROM).
+ */
+export function createEmailNotifier(apiKey: string, from: string): Notifier {
+  return {
+    channel: "email",
+    async send({ to, subject, text }) {
+      const res = await fetch("https://api.resend.com/emails", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${apiKey}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ from, to, subject, text }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`Email provider responded with ${res.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * SMS through the Twilio Messages API (TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM).
+ * SMS has no subject, so only the text is sent.
+ */
+export function createSmsNotifier(accountSid: string, authToken: string, from: string): Notifier {
+  return {
+    channel: "sms",
+    async send({ to, text }) {
+      const res = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: "POST",
+        headers: {
+          Authorization: `Basic ${Buffer.from(`${accountSid}:${authToken}`).toString("base64")}`,
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: new URLSearchParams({ From: from, To: to, Body: text }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`SMS provider responded with ${res.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Stand-in for development: prints the message instead of sending it.
+ */
+export function createConsoleNotifier(channel: NotificationChannel): Notifier {
+  return {
+    channel,
+    async send({ to, subject, text }) {
+      // eslint-disable-next-line no-console
+      console.log(`[${channel}] to ${to}: ${subject}\n${text}`);
+    },
+  };
+}
+
+/**
+ * Stand-in for development and e2e runs: appends the message as a JSON line to a file.
+ */
+export function createFileNotifier(channel: NotificationChannel, path: string): Notifier {
+  return {
+    channel,
+    async send(notification) {
+      const line = JSON.stringify({ channel, ...notification, sentAt: new Date().toISOString() });
+      await appendFile(path, `${line}\n`, "utf8");
+    },
+  };
+}
+
+/**
+ * Notifier for a channel, chosen by NOTIFIER_TRANSPORT:
+ * "console" (default), "file" (NOTIFIER_FILE_PATH) or "live" (real providers).
+ */
+export function getNotifier(channel: NotificationChannel): Notifier {
+  const env = import.meta.env;
+
+  switch (env.NOTIFIER_TRANSPORT) {
+    case "live":
+      if (channel === "email") {
+        if (!env.RESEND_API_KEY || !env.EMAIL_FROM) {
+          throw new Error("Email notifier is not configured");
+        }
+        return createEmailNotifier(env.RESEND_API_KEY, env.EMAIL_FROM);
+      }
+      if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN || !env.TWILIO_FROM) {
+        throw new Error("SMS notifier is not configured");
+      }
+      return createSmsNotifier(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN, env.TWILIO_FROM);
+    case "file":
+      return createFileNotifier(channel, env.NOTIFIER_FILE_PATH || DEFAULT_NOTIFICATION_LOG);
+    default:
+      return createConsoleNotifier(channel);
+  }
+}
@@ -0,0 +1,183 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Json, Tables } from "../../db/database.types";
+import { getWeekInfo } from "../api-helpers";
+import { getNotificationAddress } from "./notifierService";
+import { sendReportReminder } from "./reminderService";
+import type {
+  ReminderRunDTO,
+  ReminderRunFailureDTO,
+  ReminderRunRecipientDTO,
+  TrainerReminderSettingsDTO,
+} from "../../types";
+
+/** Postgres unique_violation – the trainer's run for this week already exists */
+const UNIQUE_VIOLATION = "23505";
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+/** Schedule of trainers that never saved one (disabled) */
+export function getDefaultReminderSettings(trainerId: string): TrainerReminderSettingsDTO {
+  return { trainer_id: trainerId, enabled: false, weekday: 5, hour: 9, timezone: "Europe/Warsaw", updated_at: null };
+}
+
+export function toReminderRunDTO(row: Tables<"reminder_runs">): ReminderRunDTO {
+  return {
+    ...row,
+    reminded: row.reminded as unknown as ReminderRunRecipientDTO[],
+    failures: row.failures as unknown as ReminderRunFailureDTO[],
+  };
+}
+
+/**
+ * Wall clock of `now` in the time zone: the calendar day (as midnight UTC), ISO weekday and hour.
+ */
+function getLocalTime(timezone: string, now: Date): { date: Date; weekday: number; hour: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    weekday: "short",
+    hour: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find((entry) => entry.type === type)?.value ?? "";
+
+  return {
+    date: new Date(Date.UTC(Number(part("year")), Number(part("month")) - 1, Number(part("day")))),
+    weekday: WEEKDAYS.indexOf(part("weekday")) + 1,
+    hour: Number(part("hour")),
+  };
+}
+
+/**
+ * Whether the scheduled time of this week has been reached: it is the configured weekday
+ * in the trainer's time zone and the configured hour or later, so a missed hourly tick
+ * is caught up the same day.
+ */
+export function isReminderDue(settings: Pick<TrainerReminderSettingsDTO, "weekday" | "hour" | "timezone">, now: Date) {
+  const { weekday, hour } = getLocalTime(settings.timezone, now);
+
+  return weekday === settings.weekday && hour >= settings.hour;
+}
+
+/**
+ * ISO week a due schedule reminds about: the week of the trainer's local date, the same
+ * day isReminderDue looks at, so a run near midnight does not fall into the UTC week next to it.
+ */
+function getReminderWeek(timezone: string, now: Date): { year: number; weekNumber: number } {
+  return getWeekInfo(getLocalTime(timezone, now).date);
+}
+
+/**
+ * Remind every active client of the trainer without a report in the given ISO week.
+ * Returns null when the trainer's run for this week already happened.
+ */
+async function runTrainerReminders(
+  supabase: SupabaseClient,
+  trainerId: string,
+  { year, weekNumber }: { year: number; weekNumber: number }
+): Promise<ReminderRunDTO | null> {
+  const { data: clients, error: clientsError } = await supabase
+    .rpc("trainer_clients_for_week", { p_trainer_id: trainerId, p_year: year, p_week: weekNumber })
+    .eq("reports_in_week", 0);
+
+  if (clientsError) throw clientsError;
+
+  // Claim the week before sending, so overlapping job invocations do not remind twice
+  const { data: run, error: runError } = await supabase
+    .from("reminder_runs")
+    .insert({ trainer_id: trainerId, year, week_number: weekNumber })
+    .select("id")
+    .single();
+
+  if (runError) {
+    if (runError.code === UNIQUE_VIOLATION) return null;
+    throw runError;
+  }
+
+  const reminded: ReminderRunRecipientDTO[] = [];
+  const failures: ReminderRunFailureDTO[] = [];
+  let skippedCount = 0;
+
+  for (const client of clients) {
+    const recipient = {
+      clientId: client.client_id,
+      fullName: client.full_name,
+      email: client.email,
+      phone: client.phone,
+    };
+
+    if (!getNotificationAddress(recipient)) {
+      failures.push({ clientId: client.client_id, error: "Client has no email or phone" });
+      continue;
+    }
+
+    try {
+      const reminder = await sendReportReminder(supabase, recipient, { runId: run.id });
+
+      if (!reminder) {
+        skippedCount++;
+      } else if (reminder.status === "failed") {
+        failures.push({ clientId: client.client_id, error: reminder.error ?? "Delivery failed" });
+      } else {
+        reminded.push({ clientId: client.client_id, reminderId: reminder.id, channel: reminder.channel });
+      }
+    } catch (error) {
+      failures.push({ clientId: client.client_id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const { data: finishedRun, error: finishError } = await supabase
+    .from("reminder_runs")
+    .update({
+      finished_at: new Date().toISOString(),
+      reminded_count: reminded.length,
+      skipped_count: skippedCount,
+      failed_count: failures.length,
+      reminded: reminded as unknown as Json,
+      failures: failures as unknown as Json,
+    })
+    .eq("id", run.id)
+    .select()
+    .single();
+
+  if (finishError || !finishedRun) {
+    throw finishError ?? new Error("Failed to finish reminder run");
+  }
+
+  return toReminderRunDTO(finishedRun);
+}
+
+/**
+ * One tick of the reminder job (meant to be called hourly): runs the weekly reminders of
+ * every trainer whose schedule is due and who has no run for the current week (in the
+ * trainer's time zone) yet.
+ * Returns the number of enabled schedules it saw and the runs made in this tick; a trainer
+ * whose clients could not be loaded is retried on the next tick.
+ */
+export async function runScheduledReminders(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ checkedSchedules: number; runs: ReminderRunDTO[] }> {
+  const { data: schedules, error } = await supabase
+    .from("trainer_reminder_settings")
+    .select("trainer_id, weekday, hour, timezone")
+    .eq("enabled", true);
+
+  if (error) throw error;
+
+  const runs: ReminderRunDTO[] = [];
+
+  for (const schedule of schedules.filter((settings) => isReminderDue(settings, now))) {
+    try {
+      const run = await runTrainerReminders(supabase, schedule.trainer_id, getReminderWeek(schedule.timezone, now));
+      if (run) runs.push(run);
+    } catch (runError) {
+      // eslint-disable-next-line no-console
+      console.error(`Error running reminders of trainer ${schedule.trainer_id}:`, runError);
+    }
+  }
+
+  return { checkedSchedules: schedules.length, runs };
+}
@@ -0,0 +1,113 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Tables } from "../../db/database.types";
+import type { NotificationChannel, ReportReminderDTO, ReportReminderStatus } from "../../types";
+import { getNotificationAddress, getNotifier, type Notification } from "./notifierService";
+
+/** Client data needed to address a reminder */
+export interface ReminderRecipient {
+  clientId: string;
+  fullName: string;
+  email: string | null;
+  phone: string | null;
+}
+
+/** Postgres unique_violation – the client already got a reminder today */
+const UNIQUE_VIOLATION = "23505";
+
+export function toReportReminderDTO(row: Tables<"report_reminders">): ReportReminderDTO {
+  return {
+    ...row,
+    channel: row.channel as NotificationChannel,
+    status: row.status as ReportReminderStatus,
+  };
+}
+
+function buildReminderNotification(recipient: ReminderRecipient, to: string): Notification {
+  return {
+    to,
+    subject: "Przypomnienie o raporcie tygodniowym",
+    text: `Cześć ${recipient.fullName}, nie otrzymaliśmy jeszcze Twojego raportu w tym tygodniu. Dodaj go w aplikacji, aby trener mógł ocenić postępy.`,
+  };
+}
+
+/**
+ * Send a report reminder and record it in report_reminders.
+ *
+ * The row is inserted before sending, so the one-per-day limit holds for concurrent requests.
+ * Returns null when the client already got a reminder today; a failed delivery is returned
+ * with status "failed" and does not count against the limit.
+ * Manual reminders pass the sending trainer, scheduled ones the run.
+ */
+export async function sendReportReminder(
+  supabase: SupabaseClient,
+  recipient: ReminderRecipient,
+  origin: { sentBy: string } | { runId: string }
+): Promise<ReportReminderDTO | null> {
+  const address = getNotificationAddress(recipient);
+  if (!address) {
+    throw new Error(`Client ${recipient.clientId} has no email or phone`);
+  }
+
+  const { data: reminder, error: insertError } = await supabase
+    .from("report_reminders")
+    .insert({
+      client_id: recipient.clientId,
+      sent_by: "sentBy" in origin ? origin.sentBy : null,
+      run_id: "runId" in origin ? origin.runId : null,
+      channel: address.channel,
+      recipient: address.to,
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    if (insertError.code === UNIQUE_VIOLATION) return null;
+    throw insertError;
+  }
+
+  let deliveryError: string | null = null;
+  try {
+    await getNotifier(address.channel).send(buildReminderNotification(recipient, address.to));
+  } catch (error) {
+    deliveryError = error instanceof Error ? error.message : String(error);
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from("report_reminders")
+    .update({ status: deliveryError ? "failed" : "sent", error: deliveryError })
+    .eq("id", reminder.id)
+    .select()
+    .single();
+
+  if (updateError) throw updateError;
+
+  return toReportReminderDTO(updated);
+}
+
+/**
+ * Time of the last sent reminder per client; clients without one are missing from the map.
+ */
+export async function fetchLastReminders(supabase: SupabaseClient, clientIds: string[]): Promise<Map<string, string>> {
+  const lastReminders = new Map<string, string>();
+
+  if (clientIds.length === 0) {
+    return lastReminders;
+  }
+
+  const { data, error } = await supabase
+    .from("report_reminders")
+    .select("client_id, created_at")
+    .in("client_id", clientIds)
+    .eq("status", "sent")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  data.forEach((reminder) => {
+    if (!lastReminders.has(reminder.client_id)) {
+      lastReminders.set(reminder.client_id, reminder.created_at);
+    }
+  });
+
+  return lastReminders;
+}
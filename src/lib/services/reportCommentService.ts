@@ -0,0 +1,48 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Tables } from "../../db/database.types";
+import type { ReportCommentAuthorRole, ReportCommentDTO } from "../../types";
+
+/** Columns of a comment together with its author's name */
+export const REPORT_COMMENT_SELECT = "*, author:users!report_comments_author_id_fkey(id, full_name)";
+
+type ReportCommentWithAuthor = Tables<"report_comments"> & {
+  author: { id: string; full_name: string } | null;
+};
+
+export function toReportCommentDTO(row: ReportCommentWithAuthor): ReportCommentDTO {
+  return {
+    ...row,
+    author_role: row.author_role as ReportCommentAuthorRole,
+  };
+}
+
+/**
+ * Number of comments each client wrote on their reports that the trainer has not read yet.
+ * Clients without unread comments are missing from the map.
+ */
+export async function fetchUnreadFeedbackCounts(
+  supabase: SupabaseClient,
+  clientIds: string[]
+): Promise<Map<string, number>> {
+  const counts = new Map<string, number>();
+
+  if (clientIds.length === 0) {
+    return counts;
+  }
+
+  const { data, error } = await supabase
+    .from("report_comments")
+    .select("report:reports!inner(client_id)")
+    .eq("author_role", "client")
+    .is("read_at", null)
+    .in("report.client_id", clientIds)
+    .is("report.deleted_at", null);
+
+  if (error) throw error;
+
+  data.forEach(({ report }) => {
+    counts.set(report.client_id, (counts.get(report.client_id) ?? 0) + 1);
+  });
+
+  return counts;
+}
@@ -0,0 +1,94 @@
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Tables } from "../../db/database.types";
+import { ApiException, REPORT_METRICS } from "../api-helpers";
+import type { MetricChangeDTO, MetricDeltaDTO, ReportMetric, ReportSummaryDTO } from "../../types";
+
+type ReportMetricValues = Pick<Tables<"reports">, ReportMetric>;
+type BaselineReport = ReportSummaryDTO & ReportMetricValues;
+
+const BASELINE_COLUMNS =
+  "id, created_at, weight, waist, chest, biceps_left, biceps_right, thigh_left, thigh_right, cardio_days";
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Change from `from` to `to`; null when either value is missing.
+ */
+export function computeMetricChange(from: number | null, to: number | null): MetricChangeDTO | null {
+  if (from === null || to === null) {
+    return null;
+  }
+
+  const absolute = to - from;
+
+  return {
+    absolute: round2(absolute),
+    percent: from === 0 ? null : round2((absolute / from) * 100),
+  };
+}
+
+/**
+ * Per-metric change of `current` vs the previous and the first report.
+ */
+export function computeReportDeltas(
+  current: ReportMetricValues,
+  previous: ReportMetricValues | null,
+  first: ReportMetricValues | null
+): Record<ReportMetric, MetricDeltaDTO> {
+  return Object.fromEntries(
+    REPORT_METRICS.map((metric) => [
+      metric,
+      {
+        sincePrevious: previous ? computeMetricChange(previous[metric], current[metric]) : null,
+        sinceFirst: first ? computeMetricChange(first[metric], current[metric]) : null,
+      },
+    ])
+  ) as Record<ReportMetric, MetricDeltaDTO>;
+}
+
+/**
+ * Load the client's report right before `createdAt` and the client's very first report.
+ * `first` is null when the given report is the first one itself.
+ */
+export async function fetchDeltaBaselines(
+  supabase: SupabaseClient,
+  report: { id: string; client_id: string; created_at: string }
+): Promise<{ previous: BaselineReport | null; first: BaselineReport | null }> {
+  const { data: previous, error: previousError } = await supabase
+    .from("reports")
+    .select(BASELINE_COLUMNS)
+    .eq("client_id", report.client_id)
+    .is("deleted_at", null)
+    .lt("created_at", report.created_at)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .single();
+
+  if (previousError && previousError.code !== "PGRST116") {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching previous report:", previousError);
+    throw new ApiException(500, { error: "Failed to fetch previous report" });
+  }
+
+  const { data: first, error: firstError } = await supabase
+    .from("reports")
+    .select(BASELINE_COLUMNS)
+    .eq("client_id", report.client_id)
+    .is("deleted_at", null)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .single();
+
+  if (firstError && firstError.code !== "PGRST116") {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching first report:", firstError);
+    throw new ApiException(500, { error: "Failed to fetch first report" });
+  }
+
+  return {
+    previous: previous ?? null,
+    first: first && first.id !== report.id ? first : null,
+  };
+}
@@ -0,0 +1,254 @@
+import sharp from "sharp";
+import { encode } from "blurhash";
+import type { SupabaseClient } from "../../db/supabase.client";
+import type { Tables } from "../../db/database.types";
+import type { ImageContentType } from "../api-helpers";
+import type { ReportImageDTO } from "../../types";
+
+export const REPORT_IMAGES_BUCKET = "report-images";
+
+/** Used when REPORT_IMAGE_URL_TTL_SECONDS is not set */
+const DEFAULT_SIGNED_URL_TTL_SECONDS = 10 * 60;
+
+/** Pending images older than this are treated as abandoned uploads */
+export const UNCONFIRMED_IMAGE_TIMEOUT_MS = 60 * 60 * 1000;
+
+/** Longest edge of the display rendition; larger photos are downscaled */
+const DISPLAY_MAX_EDGE = 1600;
+/** Edge of the square list thumbnail */
+const THUMB_EDGE = 320;
+
+export interface ImageMetadata {
+  contentType: ImageContentType;
+  width: number;
+  height: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+function readPngMetadata(bytes: Uint8Array): ImageMetadata | null {
+  // signature (8) + IHDR length (4) + "IHDR" (4) + width (4) + height (4)
+  if (bytes.length < 24 || !PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  return { contentType: "image/png", width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function readJpegMetadata(bytes: Uint8Array): ImageMetadata | null {
+  if (bytes.length < 4 || bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return null;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 2;
+
+  // walk the segments until a start-of-frame marker, which holds the dimensions
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) {
+      return null;
+    }
+
+    const marker = bytes[offset + 1];
+    const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+
+    if (isStartOfFrame) {
+      return { contentType: "image/jpeg", height: view.getUint16(offset + 5), width: view.getUint16(offset + 7) };
+    }
+
+    offset += 2 + view.getUint16(offset + 2);
+  }
+
+  return null;
+}
+
+/**
+ * Detect the real type and pixel dimensions of an uploaded file from its header.
+ * Returns null for anything that is not a readable JPEG or PNG.
+ */
+export function readImageMetadata(bytes: Uint8Array): ImageMetadata | null {
+  return readPngMetadata(bytes) ?? readJpegMetadata(bytes);
+}
+
+export interface SignedImageUrls {
+  /** Signed view URL by storage path; paths that could not be signed are missing */
+  urls: Map<string, string>;
+  expiresAt: string;
+}
+
+/**
+ * Lifetime of signed view URLs, configurable with REPORT_IMAGE_URL_TTL_SECONDS.
+ */
+export function getSignedUrlTtlSeconds(): number {
+  const configured = Number(import.meta.env.REPORT_IMAGE_URL_TTL_SECONDS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_SIGNED_URL_TTL_SECONDS;
+}
+
+/**
+ * Sign view URLs for images of the private bucket in one call.
+ * Anyone holding a URL can view the image until it expires, so call this only
+ * after the caller passed the access check of the report the images belong to.
+ */
+export async function createSignedImageUrls(supabase: SupabaseClient, paths: string[]): Promise<SignedImageUrls> {
+  const ttlSeconds = getSignedUrlTtlSeconds();
+  const urls = new Map<string, string>();
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000).toISOString();
+
+  if (paths.length === 0) {
+    return { urls, expiresAt };
+  }
+
+  const { data, error } = await supabase.storage.from(REPORT_IMAGES_BUCKET).createSignedUrls(paths, ttlSeconds);
+
+  if (error || !data) {
+    throw error ?? new Error("No signed URLs returned");
+  }
+
+  data.forEach((signed) => {
+    if (signed.path && signed.signedUrl) {
+      urls.set(signed.path, signed.signedUrl);
+    }
+  });
+
+  return { urls, expiresAt };
+}
+
+/**
+ * Attach signed view URLs of the display rendition and thumbnail to image rows.
+ */
+export async function withSignedImageUrls(
+  supabase: SupabaseClient,
+  images: Tables<"report_images">[]
+): Promise<ReportImageDTO[]> {
+  const paths = images.flatMap((image) =>
+    image.thumb_path ? [image.storage_path, image.thumb_path] : [image.storage_path]
+  );
+  const { urls, expiresAt } = await createSignedImageUrls(supabase, paths);
+
+  return images.map((image) => ({
+    ...image,
+    url: urls.get(image.storage_path) ?? null,
+    thumb_url: image.thumb_path ? (urls.get(image.thumb_path) ?? null) : null,
+    urls_expire_at: expiresAt,
+  }));
+}
+
+export interface ProcessedImage {
+  storagePath: string;
+  thumbPath: string;
+  sizeBytes: number;
+  width: number;
+  height: number;
+  blurhash: string;
+}
+
+/**
+ * Build the renditions of an uploaded photo and store them next to the original:
+ * a JPEG display rendition (at most DISPLAY_MAX_EDGE px) at `{imageId}.jpg`, which
+ * overwrites a JPEG original, and a square thumbnail at `{imageId}_thumb.jpg`.
+ * Orientation is baked in and all EXIF/GPS metadata is dropped. A PNG original
+ * keeps its own path; the caller removes it once the row points at the rendition.
+ */
+export async function processReportImage(
+  supabase: SupabaseClient,
+  image: Pick<Tables<"report_images">, "id" | "report_id">,
+  original: Uint8Array
+): Promise<ProcessedImage> {
+  // rotate() applies the EXIF orientation; sharp writes no metadata unless asked to
+  const source = sharp(original).rotate().flatten({ background: "#ffffff" });
+
+  const display = await source
+    .clone()
+    .resize(DISPLAY_MAX_EDGE, DISPLAY_MAX_EDGE, { fit: "inside", withoutEnlargement: true })
+    .jpeg({ quality: 80, mozjpeg: true })
+    .toBuffer({ resolveWithObject: true });
+
+  const thumb = await source
+    .clone()
+    .resize(THUMB_EDGE, THUMB_EDGE, { fit: "cover" })
+    .jpeg({ quality: 70, mozjpeg: true })
+    .toBuffer();
+
+  const placeholder = await source
+    .clone()
+    .resize(32, 32, { fit: "inside" })
+    .ensureAlpha()
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const storagePath = `reports/${image.report_id}/${image.id}.jpg`;
+  const thumbPath = `reports/${image.report_id}/${image.id}_thumb.jpg`;
+  const bucket = supabase.storage.from(REPORT_IMAGES_BUCKET);
+
+  for (const [path, data] of [
+    [storagePath, display.data],
+    [thumbPath, thumb],
+  ] as const) {
+    const { error } = await bucket.upload(path, data, { contentType: "image/jpeg", upsert: true });
+    if (error) {
+      throw error;
+    }
+  }
+
+  return {
+    storagePath,
+    thumbPath,
+    sizeBytes: display.info.size,
+    width: display.info.width,
+    height: display.info.height,
+    blurhash: encode(new Uint8ClampedArray(placeholder.data), placeholder.info.width, placeholder.info.height, 4, 3),
+  };
+}
+
+/**
+ * Remove uploads that were never completed: the storage object (if any) is deleted
+ * and the row is marked as deleted. Rows whose object could not be removed are kept
+ * for the next run.
+ */
+export async function sweepUnconfirmedImages(
+  supabase: SupabaseClient,
+  now: Date = new Date()
+): Promise<{ swept: number; failed: number }> {
+  const cutoff = new Date(now.getTime() - UNCONFIRMED_IMAGE_TIMEOUT_MS).toISOString();
+
+  const { data: images, error } = await supabase
+    .from("report_images")
+    .select("id, storage_path")
+    .eq("is_confirmed", false)
+    .eq("is_deleted", false)
+    .lt("created_at", cutoff);
+
+  if (error) {
+    throw error;
+  }
+
+  if (!images || images.length === 0) {
+    return { swept: 0, failed: 0 };
+  }
+
+  // removing a path that was never uploaded is not an error
+  const { error: storageError } = await supabase.storage
+    .from(REPORT_IMAGES_BUCKET)
+    .remove(images.map((image) => image.storage_path));
+
+  if (storageError) {
+    // eslint-disable-next-line no-console
+    console.error("Error removing abandoned uploads from storage:", storageError);
+    return { swept: 0, failed: images.length };
+  }
+
+  const { error: updateError } = await supabase
+    .from("report_images")
+    .update({ is_deleted: true, deleted_at: now.toISOString(), purged_at: now.toISOString() })
+    .in(
+      "id",
+      images.map((image) => image.id)
+    );
+
+  if (updateError) {
+    throw updateError;
+  }
+
+  return { swept: images.length, failed: 0 };
+}
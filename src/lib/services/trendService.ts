@@ -0,0 +1,68 @@
+import type { z } from "zod";
+import type { Tables } from "../../db/database.types";
+import type { TrendBucket } from "../api-helpers";
+import type { ReportMetric, TrendPointDTO, TrendSeriesDTO } from "../../types";
+
+export type TrendBucketType = z.infer<typeof TrendBucket>;
+
+export type TrendSourceReport = Pick<Tables<"reports">, "id" | "created_at" | ReportMetric>;
+
+/**
+ * Start of the week (ISO, Monday) or month containing `date`, in UTC.
+ */
+export function getBucketStart(date: Date, bucket: TrendBucketType): Date {
+  if (bucket === "month") {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+
+  const dayOfWeek = date.getUTCDay() || 7;
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - (dayOfWeek - 1)));
+}
+
+/**
+ * Collapse chronologically ordered points into one point per bucket:
+ * the mean value, dated at the bucket start, pointing at the latest report.
+ */
+function aggregatePoints(points: TrendPointDTO[], bucket: TrendBucketType): TrendPointDTO[] {
+  const buckets = new Map<string, TrendPointDTO[]>();
+
+  points.forEach((point) => {
+    const key = getBucketStart(new Date(point.date), bucket).toISOString();
+    const bucketPoints = buckets.get(key) ?? [];
+    bucketPoints.push(point);
+    buckets.set(key, bucketPoints);
+  });
+
+  return Array.from(buckets.entries()).map(([date, bucketPoints]) => {
+    const sum = bucketPoints.reduce((acc, point) => acc + point.value, 0);
+    return {
+      date,
+      value: Math.round((sum / bucketPoints.length) * 100) / 100,
+      reportId: bucketPoints[bucketPoints.length - 1].reportId,
+    };
+  });
+}
+
+/**
+ * Build one time-stamped series per metric from reports ordered oldest to newest.
+ * Reports without a value for a metric are skipped in that metric's series only.
+ */
+export function buildTrendSeries(
+  reports: TrendSourceReport[],
+  metrics: ReportMetric[],
+  bucket?: TrendBucketType
+): TrendSeriesDTO {
+  return Object.fromEntries(
+    metrics.map((metric) => {
+      const points: TrendPointDTO[] = reports
+        .filter((report) => report[metric] !== null && report[metric] !== undefined)
+        .map((report) => ({
+          date: report.created_at,
+          value: Number(report[metric]),
+          reportId: report.id,
+        }));
+
+      return [metric, bucket ? aggregatePoints(points, bucket) : points];
+    })
+  );
+}
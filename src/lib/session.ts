@@ -0,0 +1,113 @@
+import type { AstroCookies } from "astro";
+import type { Session } from "@supabase/supabase-js";
+import { createSupabaseClient } from "../db/supabase.client";
+import { isSchedulerRequest, type AuthenticatedUser } from "./api-helpers";
+
+/** httpOnly cookies holding the caller's Supabase session */
+export const ACCESS_TOKEN_COOKIE = "sb-access-token";
+export const REFRESH_TOKEN_COOKIE = "sb-refresh-token";
+
+/** Lifetime of the session cookies; the access token inside expires much earlier and is refreshed */
+const SESSION_COOKIE_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+/** Access tokens this close to expiry are refreshed before the request is handled */
+const TOKEN_REFRESH_MARGIN_SECONDS = 60;
+
+/** Start page of each role, where the login view continues to */
+const ROLE_HOME_PATHS: Record<AuthenticatedUser["role"], string> = {
+  super_admin: "/admin",
+  trainer: "/trainer",
+  client: "/app",
+};
+
+export function getRoleHomePath(role: AuthenticatedUser["role"]): string {
+  return ROLE_HOME_PATHS[role];
+}
+
+/** Page where users flagged with must_change_password set their new password */
+export const CHANGE_PASSWORD_PATH = "/change-password";
+
+/** Routes open to users who have to change their password first */
+const PASSWORD_CHANGE_ROUTES = [CHANGE_PASSWORD_PATH, "/api/auth/change-password", "/api/auth/logout"];
+
+export function isPasswordChangeRoute(pathname: string): boolean {
+  return PASSWORD_CHANGE_ROUTES.includes(pathname.replace(/\/$/, ""));
+}
+
+export function setSessionCookies(cookies: AstroCookies, session: Pick<Session, "access_token" | "refresh_token">) {
+  const options = {
+    path: "/",
+    httpOnly: true,
+    secure: import.meta.env.PROD,
+    sameSite: "lax" as const,
+    maxAge: SESSION_COOKIE_MAX_AGE_SECONDS,
+  };
+
+  cookies.set(ACCESS_TOKEN_COOKIE, session.access_token, options);
+  cookies.set(REFRESH_TOKEN_COOKIE, session.refresh_token, options);
+}
+
+export function clearSessionCookies(cookies: AstroCookies) {
+  cookies.delete(ACCESS_TOKEN_COOKIE, { path: "/" });
+  cookies.delete(REFRESH_TOKEN_COOKIE, { path: "/" });
+}
+
+/**
+ * Bearer token of API callers that manage the session themselves.
+ * The scheduler secret is sent the same way but is not a user token.
+ */
+function getBearerToken(request: Request): string | null {
+  const match = request.headers.get("Authorization")?.match(/^Bearer\s+(\S+)$/i);
+
+  if (!match || isSchedulerRequest(request)) {
+    return null;
+  }
+
+  return match[1];
+}
+
+/**
+ * Whether the JWT expires within the refresh margin. Only the `exp` claim is read,
+ * the signature is verified by Supabase on every use of the token.
+ */
+function isTokenExpiring(token: string): boolean {
+  try {
+    const payload = JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString("utf8"));
+    return typeof payload.exp !== "number" || payload.exp - TOKEN_REFRESH_MARGIN_SECONDS <= Date.now() / 1000;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Access token of the caller: the `Authorization: Bearer` header, else the session cookie.
+ * An expiring cookie session is refreshed and the new tokens are written back to the cookies;
+ * a session that cannot be refreshed is cleared, and the request continues as anonymous.
+ */
+export async function resolveAccessToken(request: Request, cookies: AstroCookies): Promise<string | null> {
+  const bearerToken = getBearerToken(request);
+  if (bearerToken) {
+    return bearerToken;
+  }
+
+  const accessToken = cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  if (accessToken && !isTokenExpiring(accessToken)) {
+    return accessToken;
+  }
+
+  const refreshToken = cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+  if (!refreshToken) {
+    return accessToken ?? null;
+  }
+
+  // A fresh client, so the refreshed session is never shared with another request
+  const { data, error } = await createSupabaseClient().auth.refreshSession({ refresh_token: refreshToken });
+
+  if (error || !data.session) {
+    clearSessionCookies(cookies);
+    return null;
+  }
+
+  setSessionCookies(cookies, data.session);
+  return data.session.access_token;
+}
@@ -1,15 +1,33 @@
 import { defineMiddleware } from "astro:middleware";
-import { supabaseClient } from "../db/supabase.client";
+import { createSupabaseClient } from "../db/supabase.client";
+import { createApiError, getAuthenticatedUser } from "../lib/api-helpers";
+import { CHANGE_PASSWORD_PATH, isPasswordChangeRoute, resolveAccessToken } from "../lib/session";
 
 /**
  * Astro middleware that:
- * 1. Injects Supabase client into context.locals
- * 2. Handles CORS for API routes
- * 3. Provides rate limiting (basic implementation)
+ * 1. Injects a Supabase client acting as the caller (session cookie or bearer token) and the caller into context.locals
+ * 2. Keeps users who have to change their password on the password change
+ * 3. Handles CORS for API routes
+ * 4. Provides rate limiting (basic implementation)
  */
 export const onRequest = defineMiddleware(async (context, next) => {
-  // Inject Supabase client
-  context.locals.supabase = supabaseClient;
+  // Inject a request-scoped Supabase client, so RLS and getAuthenticatedUser see the real caller
+  const accessToken = await resolveAccessToken(context.request, context.cookies);
+  context.locals.supabase = createSupabaseClient(accessToken);
+  context.locals.user = await getAuthenticatedUser(context.locals.supabase);
+
+  // Until the new password is saved, only the password change (and signing out) is open
+  if (
+    context.locals.user?.must_change_password &&
+    context.request.method !== "OPTIONS" &&
+    !isPasswordChangeRoute(context.url.pathname)
+  ) {
+    if (context.url.pathname.startsWith("/api/")) {
+      return createApiError(403, "Password change required");
+    }
+
+    return context.redirect(CHANGE_PASSWORD_PATH);
+  }
 
   // Handle CORS for API routes
   if (context.url.pathname.startsWith("/api/")) {
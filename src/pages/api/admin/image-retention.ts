@@ -0,0 +1,113 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  requireRole,
+  isSchedulerRequest,
+  getJobClient,
+  ImageRetentionRunSchema,
+  PaginationQuerySchema,
+  getPaginationRange,
+  calculatePagination,
+  createPaginatedResponse,
+  createSuccessResponse,
+  ApiException,
+} from "../../../lib/api-helpers";
+import { runImageRetention, toImageRetentionRunDTO } from "../../../lib/services/imageRetentionService";
+
+/**
+ * GET /api/admin/image-retention
+ *
+ * Retention log: past runs of the image retention job, newest first.
+ * Requires super_admin role.
+ *
+ * Query Parameters:
+ * - page: number (default: 1)
+ * - pageSize: number (default: 20, max: 100)
+ *
+ * Response: 200 OK
+ * {
+ *   data: ImageRetentionRunDTO[],
+ *   meta: PaginationMeta
+ * }
+ *
+ * Errors:
+ * - 400: Invalid pagination params
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not super_admin)
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ request, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["super_admin"]);
+
+  // Parse and validate query parameters
+  const url = new URL(request.url);
+  const { page, pageSize } = PaginationQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+  const { from, to } = getPaginationRange(page, pageSize);
+  const { data, error, count } = await supabase
+    .from("image_retention_runs")
+    .select("*", { count: "exact" })
+    .order("started_at", { ascending: false })
+    .range(from, to);
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching retention runs:", error);
+    throw new ApiException(500, { error: "Failed to fetch retention runs" });
+  }
+
+  return createPaginatedResponse(data.map(toImageRetentionRunDTO), calculatePagination(page, pageSize, count || 0));
+});
+
+/**
+ * POST /api/admin/image-retention
+ *
+ * Run the image retention job: mark images older than IMAGE_RETENTION_DAYS as deleted,
+ * then delete their files or move them to IMAGE_ARCHIVE_BUCKET (IMAGE_RETENTION_MODE).
+ * The run is recorded in the retention log.
+ * Requires super_admin role, or the scheduler secret (`Authorization: Bearer <CRON_SECRET>`);
+ * scheduler runs use the service role, as they have no user to run as.
+ *
+ * Request Body (optional):
+ * {
+ *   dryRun?: boolean (default: false, only count what would be marked and purged)
+ * }
+ *
+ * Response: 200 OK ImageRetentionRunDTO
+ *
+ * Note: A run purges at most 500 images; the rest and any failures are handled by later runs.
+ * Images with fewer failed attempts go first, so images that keep failing do not block the others.
+ *
+ * Errors:
+ * - 400: Validation error
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not super_admin)
+ * - 500: Server error
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, supabase, user, audit }) => {
+  // Authentication & Authorization
+  let triggeredBy: string | null = null;
+
+  if (!isSchedulerRequest(request)) {
+    const authenticatedUser = requireAuth(user);
+    requireRole(authenticatedUser, ["super_admin"]);
+    triggeredBy = authenticatedUser.id;
+  }
+
+  // Parse and validate request body (schedulers may send none)
+  const rawBody = await request.text();
+  const { dryRun } = ImageRetentionRunSchema.parse(rawBody ? JSON.parse(rawBody) : {});
+
+  try {
+    const run = await runImageRetention(getJobClient(request, supabase), { dryRun, triggeredBy });
+    audit.record({ action: "run", entityType: "image_retention_runs", entityId: run.id, after: run });
+    return createSuccessResponse(run);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error running image retention:", error);
+    throw new ApiException(500, { error: "Failed to run image retention" });
+  }
+});
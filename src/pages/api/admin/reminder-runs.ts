@@ -0,0 +1,117 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  requireRole,
+  isSchedulerRequest,
+  getJobClient,
+  ReminderRunsQuerySchema,
+  getPaginationRange,
+  calculatePagination,
+  createPaginatedResponse,
+  createSuccessResponse,
+  ApiException,
+} from "../../../lib/api-helpers";
+import { runScheduledReminders, toReminderRunDTO } from "../../../lib/services/reminderScheduleService";
+
+/**
+ * GET /api/admin/reminder-runs
+ *
+ * Log of scheduled reminder runs, newest first, with the reminded clients and failures.
+ * Requires super_admin role.
+ *
+ * Query Parameters:
+ * - page: number (default: 1)
+ * - pageSize: number (default: 20, max: 100)
+ * - trainerId: string (UUID, optional, runs of one trainer)
+ *
+ * Response: 200 OK
+ * {
+ *   data: ReminderRunDTO[],
+ *   meta: PaginationMeta
+ * }
+ *
+ * Errors:
+ * - 400: Invalid query parameters
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not super_admin)
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ request, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["super_admin"]);
+
+  // Parse and validate query parameters
+  const url = new URL(request.url);
+  const { page, pageSize, trainerId } = ReminderRunsQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+  let query = supabase.from("reminder_runs").select("*", { count: "exact" });
+
+  if (trainerId) {
+    query = query.eq("trainer_id", trainerId);
+  }
+
+  const { from, to } = getPaginationRange(page, pageSize);
+  const { data, error, count } = await query.order("started_at", { ascending: false }).range(from, to);
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching reminder runs:", error);
+    throw new ApiException(500, { error: "Failed to fetch reminder runs" });
+  }
+
+  return createPaginatedResponse(data.map(toReminderRunDTO), calculatePagination(page, pageSize, count || 0));
+});
+
+/**
+ * POST /api/admin/reminder-runs
+ *
+ * One tick of the weekly reminder job, meant to be called hourly by the scheduler.
+ * For every trainer whose reminder schedule is due and who was not handled this ISO week yet,
+ * reminds the active clients without a report in the current week and records the run.
+ * Requires super_admin role, or the scheduler secret (`Authorization: Bearer <CRON_SECRET>`);
+ * scheduler runs use the service role, as they have no user to run as.
+ *
+ * Response: 200 OK
+ * {
+ *   data: ReminderRunDTO[] (runs made by this call, empty when no schedule was due),
+ *   checkedSchedules: number (enabled schedules looked at, due or not)
+ * }
+ *
+ * Note: A schedule is due from its hour until the end of its weekday (trainer's time zone),
+ * so a missed tick is caught up. Clients reminded earlier that day are counted as skipped.
+ *
+ * Errors:
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not super_admin)
+ * - 500: Server error
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, supabase, user, audit }) => {
+  // Authentication & Authorization
+  if (!isSchedulerRequest(request)) {
+    const authenticatedUser = requireAuth(user);
+    requireRole(authenticatedUser, ["super_admin"]);
+  }
+
+  try {
+    const { checkedSchedules, runs } = await runScheduledReminders(getJobClient(request, supabase));
+
+    // Schedules hidden by RLS look like no schedules at all, so an empty scheduler tick is worth a look
+    if (isSchedulerRequest(request) && checkedSchedules === 0) {
+      // eslint-disable-next-line no-console
+      console.warn("Warning: Scheduled reminder run found no enabled reminder schedules");
+    }
+
+    // A tick with no trainer due changes nothing
+    if (runs.length === 0) {
+      audit.skip();
+    }
+    runs.forEach((run) => audit.record({ action: "run", entityType: "reminder_runs", entityId: run.id, after: run }));
+    return createSuccessResponse({ data: runs, checkedSchedules });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error running scheduled reminders:", error);
+    throw new ApiException(500, { error: "Failed to run scheduled reminders" });
+  }
+});
@@ -0,0 +1,58 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  requireRole,
+  AdminStatsQuerySchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../lib/api-helpers";
+import { fetchAdminStats } from "../../../lib/services/adminStatsService";
+
+/**
+ * GET /api/admin/stats
+ *
+ * System statistics for the admin dashboard.
+ * Requires super_admin role.
+ *
+ * Query Parameters:
+ * - weeks: number (default: 12, max: 52, ISO weeks of `reportsPerWeek` ending with the current one)
+ *
+ * Response: 200 OK AdminStatsDTO
+ * {
+ *   users: {
+ *     super_admin | trainer | client: { total, active, pending, averageActivationHours }
+ *   },
+ *   averageActivationHours: number | null,
+ *   reportsPerWeek: { year, weekNumber, weekStart, reportCount, clientCount }[],
+ *   storage: { imageCount, totalBytes, pendingPurgeCount, pendingPurgeBytes },
+ *   generatedAt: string
+ * }
+ *
+ * Note: Deleted accounts are not counted. An account is active once it accepted an invitation
+ * (accounts from before invitations: once it signed in), as activationStatus elsewhere;
+ * activation time runs from the first invitation to its acceptance. Storage counts image originals only, without thumbnails.
+ *
+ * Errors:
+ * - 400: Invalid query parameters
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not super_admin)
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ request, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["super_admin"]);
+
+  // Parse and validate query parameters
+  const url = new URL(request.url);
+  const { weeks } = AdminStatsQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+  try {
+    return createSuccessResponse(await fetchAdminStats(supabase, weeks));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching admin stats:", error);
+    throw new ApiException(500, { error: "Failed to fetch statistics" });
+  }
+});
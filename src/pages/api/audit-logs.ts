@@ -0,0 +1,95 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  requireRole,
+  AuditLogsQuerySchema,
+  getPaginationRange,
+  calculatePagination,
+  createPaginatedResponse,
+  ApiException,
+} from "../../lib/api-helpers";
+import { AUDIT_LOG_SELECT, toAuditLogDTO } from "../../lib/services/auditLogService";
+
+/**
+ * GET /api/audit-logs
+ *
+ * Log of changes made through the API, newest first, with the changed columns of each entry.
+ * Requires super_admin role.
+ *
+ * Query Parameters:
+ * - page: number (default: 1)
+ * - pageSize: number (default: 20, max: 100)
+ * - entityType: string (optional, e.g. "reports", "clients", "trainer_client")
+ * - entityId: string (optional; "trainerId:clientId" for trainer_client)
+ * - actorId: string (UUID, optional, changes made by one user)
+ * - from: string (YYYY-MM-DD, optional, inclusive)
+ * - to: string (YYYY-MM-DD, optional, inclusive)
+ *
+ * Response: 200 OK
+ * {
+ *   data: AuditLogDTO[],
+ *   meta: PaginationMeta
+ * }
+ *
+ * Note: Scheduled jobs are logged with actor_role "scheduler" and no actor.
+ *
+ * Errors:
+ * - 400: Invalid query parameters (including a `from` or `to` day that does not exist)
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not super_admin)
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ request, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["super_admin"]);
+
+  // Parse and validate query parameters
+  const url = new URL(request.url);
+  const {
+    page,
+    pageSize,
+    entityType,
+    entityId,
+    actorId,
+    from: fromDate,
+    to: toDate,
+  } = AuditLogsQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+  let query = supabase.from("audit_logs").select(AUDIT_LOG_SELECT, { count: "exact" });
+
+  if (entityType) {
+    query = query.eq("entity_type", entityType);
+  }
+
+  if (entityId) {
+    query = query.eq("entity_id", entityId);
+  }
+
+  if (actorId) {
+    query = query.eq("actor_id", actorId);
+  }
+
+  // Apply date range (both ends inclusive, whole UTC days)
+  if (fromDate) {
+    query = query.gte("created_at", `${fromDate}T00:00:00.000Z`);
+  }
+
+  if (toDate) {
+    const dayAfterTo = new Date(`${toDate}T00:00:00.000Z`);
+    dayAfterTo.setUTCDate(dayAfterTo.getUTCDate() + 1);
+    query = query.lt("created_at", dayAfterTo.toISOString());
+  }
+
+  const { from, to } = getPaginationRange(page, pageSize);
+  const { data, error, count } = await query.order("created_at", { ascending: false }).range(from, to);
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching audit logs:", error);
+    throw new ApiException(500, { error: "Failed to fetch audit logs" });
+  }
+
+  return createPaginatedResponse(data.map(toAuditLogDTO), calculatePagination(page, pageSize, count || 0));
+});
@@ -0,0 +1,113 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  ChangePasswordSchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../lib/api-helpers";
+import { createSupabaseAdminClient, createSupabaseClient } from "../../../db/supabase.client";
+import { getRoleHomePath } from "../../../lib/session";
+import type { ChangePasswordCommand, LoginResponseDTO } from "../../../types";
+
+/**
+ * POST /api/auth/change-password
+ *
+ * Set a new password for the signed-in user. Open while a password change is required,
+ * which it ends. The current password has to be given, a session alone is not enough.
+ *
+ * Request Body:
+ * {
+ *   currentPassword: string,
+ *   password: string (8-72 characters, at least one letter and one digit)
+ * }
+ *
+ * Response: 200 OK LoginResponseDTO (the start page to continue to)
+ *
+ * Note: The current session stays signed in.
+ *
+ * Errors:
+ * - 400: Validation error
+ * - 401: Unauthenticated
+ * - 403: Current password is incorrect
+ * - 500: Server error
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, supabase, user, audit }) => {
+  // Authentication
+  const authenticatedUser = requireAuth(user);
+
+  // Parse and validate request body
+  const { currentPassword, password }: ChangePasswordCommand = ChangePasswordSchema.parse(await request.json());
+
+  const { data: account, error: accountError } = await supabase
+    .from("users")
+    .select("email, phone")
+    .eq("id", authenticatedUser.id)
+    .single();
+
+  if (accountError || !account) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching user:", accountError);
+    throw new ApiException(500, { error: "Failed to change password" });
+  }
+
+  // Check the current password the way the user signs in (clients by phone, others by email),
+  // on a client of its own; the session this opens is ended right away
+  const verifyClient = createSupabaseClient();
+  const { data: verified, error: verifyError } = await verifyClient.auth.signInWithPassword(
+    authenticatedUser.role === "client"
+      ? { phone: account.phone ?? "", password: currentPassword }
+      : { email: account.email ?? "", password: currentPassword }
+  );
+
+  if (verifyError || !verified.session) {
+    if (verifyError?.status && verifyError.status >= 500) {
+      // eslint-disable-next-line no-console
+      console.error("Error verifying current password:", verifyError);
+      throw new ApiException(500, { error: "Failed to change password" });
+    }
+
+    throw new ApiException(403, { error: "Current password is incorrect" });
+  }
+
+  await verifyClient.auth.signOut({ scope: "local" });
+
+  // Request clients carry no session to update, and users cannot clear their own flag under RLS
+  const admin = createSupabaseAdminClient();
+
+  const { error: passwordError } = await admin.auth.admin.updateUserById(authenticatedUser.id, { password });
+
+  if (passwordError) {
+    // eslint-disable-next-line no-console
+    console.error("Error changing password:", passwordError);
+    throw new ApiException(500, { error: "Failed to change password" });
+  }
+
+  if (authenticatedUser.must_change_password) {
+    const { error: flagError } = await admin
+      .from("users")
+      .update({ must_change_password: false })
+      .eq("id", authenticatedUser.id);
+
+    if (flagError) {
+      // eslint-disable-next-line no-console
+      console.error("Error clearing password change flag:", flagError);
+      throw new ApiException(500, { error: "Failed to change password" });
+    }
+  }
+
+  audit.record({
+    action: "update",
+    entityType: "users",
+    entityId: authenticatedUser.id,
+    before: { must_change_password: authenticatedUser.must_change_password },
+    after: { must_change_password: false, password_changed: true },
+  });
+
+  const response: LoginResponseDTO = {
+    role: authenticatedUser.role,
+    redirectTo: getRoleHomePath(authenticatedUser.role),
+  };
+
+  return createSuccessResponse(response);
+});
@@ -0,0 +1,88 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  getAuthenticatedUser,
+  LoginSchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../lib/api-helpers";
+import { createSupabaseClient } from "../../../db/supabase.client";
+import { CHANGE_PASSWORD_PATH, getRoleHomePath, setSessionCookies } from "../../../lib/session";
+import type { LoginResponseDTO } from "../../../types";
+
+/** The same answer for unknown accounts, wrong passwords and the wrong sign-in method */
+const INVALID_CREDENTIALS = { error: "Invalid login credentials" };
+
+/**
+ * POST /api/auth/login
+ *
+ * Sign in with a password and start a cookie session.
+ * Trainers and super_admins sign in with their email, clients with their phone number.
+ *
+ * Request Body:
+ * {
+ *   method: "email",
+ *   email: string,
+ *   password: string
+ * }
+ * or
+ * {
+ *   method: "phone",
+ *   phone: string,
+ *   password: string
+ * }
+ *
+ * Response: 200 OK LoginResponseDTO (sets the httpOnly session cookies)
+ *
+ * Note: Failures never tell whether the account exists. Users who have to change their
+ * password are sent to the password change instead of their start page.
+ *
+ * Errors:
+ * - 400: Validation error
+ * - 401: Invalid login credentials
+ * - 500: Server error
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, cookies, audit }) => {
+  // Parse and validate request body
+  const credentials = LoginSchema.parse(await request.json());
+
+  // A client of its own, so the new session never reaches another request
+  const authClient = createSupabaseClient();
+  const { data, error } = await authClient.auth.signInWithPassword(
+    credentials.method === "email"
+      ? { email: credentials.email, password: credentials.password }
+      : { phone: credentials.phone, password: credentials.password }
+  );
+
+  if (error || !data.session) {
+    if (error?.status && error.status >= 500) {
+      // eslint-disable-next-line no-console
+      console.error("Error signing in:", error);
+      throw new ApiException(500, { error: "Failed to sign in" });
+    }
+
+    throw new ApiException(401, INVALID_CREDENTIALS);
+  }
+
+  const signedInUser = await getAuthenticatedUser(createSupabaseClient(data.session.access_token));
+  const expectedMethod = signedInUser?.role === "client" ? "phone" : "email";
+
+  // Removed accounts and sign-ins with the other role's method end the new session right away
+  if (!signedInUser || credentials.method !== expectedMethod) {
+    await authClient.auth.signOut({ scope: "local" });
+    throw new ApiException(401, INVALID_CREDENTIALS);
+  }
+
+  setSessionCookies(cookies, data.session);
+
+  // Signing in changes no entity
+  audit.skip();
+
+  const response: LoginResponseDTO = {
+    role: signedInUser.role,
+    // A one-time password has to be replaced before anything else
+    redirectTo: signedInUser.must_change_password ? CHANGE_PASSWORD_PATH : getRoleHomePath(signedInUser.role),
+  };
+
+  return createSuccessResponse(response);
+});
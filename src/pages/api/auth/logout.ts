@@ -0,0 +1,33 @@
+import type { APIRoute } from "astro";
+import { createApiRoute } from "../../../lib/api-helpers";
+import { ACCESS_TOKEN_COOKIE, clearSessionCookies } from "../../../lib/session";
+
+/**
+ * POST /api/auth/logout
+ *
+ * End the cookie session of the caller. Safe to call without a session.
+ *
+ * Response: 204 No Content (clears the session cookies)
+ *
+ * Note: Only this session is revoked; the user's sessions on other devices stay signed in.
+ */
+export const POST: APIRoute = createApiRoute(async ({ supabase, cookies, audit }) => {
+  const accessToken = cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+
+  if (accessToken) {
+    const { error } = await supabase.auth.admin.signOut(accessToken, "local");
+
+    if (error) {
+      // eslint-disable-next-line no-console
+      console.warn("Warning: Failed to revoke session:", error);
+      // Don't fail the request - the cookies are cleared either way
+    }
+  }
+
+  clearSessionCookies(cookies);
+
+  // Signing out changes no entity
+  audit.skip();
+
+  return new Response(null, { status: 204 });
+});
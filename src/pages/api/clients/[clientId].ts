@@ -8,7 +8,8 @@ import {
   createSuccessResponse,
   ApiException,
 } from "../../../lib/api-helpers";
-import type { ClientDTO } from "../../../types";
+import { fetchActivationStatus } from "../../../lib/services/activationStatusService";
+import type { ActivationStatus, ClientDTO } from "../../../types";
 
 /**
  * Helper function to check if user can access client data
@@ -123,6 +124,15 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
     throw new ApiException(404, { error: "Client not found" });
   }
 
+  let activationStatus: ActivationStatus;
+  try {
+    activationStatus = await fetchActivationStatus(supabase, clientId);
+  } catch (activationError) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching activation status:", activationError);
+    throw new ApiException(500, { error: "Failed to fetch client" });
+  }
+
   // Transform to DTO
   const clientDto: ClientDTO = {
     id: data.id,
@@ -132,6 +142,7 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
     role: data.role,
     date_of_birth: data.clients?.[0]?.date_of_birth || null,
     gender: data.clients?.[0]?.gender || null,
+    activationStatus,
   };
 
   return createSuccessResponse(clientDto);
@@ -163,7 +174,7 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
  * - 404: Client not found
  * - 409: Phone or email already exists
  */
-export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -197,7 +208,7 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
   // First check if client exists
   const { data: existingClient, error: fetchError } = await supabase
     .from("users")
-    .select("id, phone, email")
+    .select("id, full_name, phone, email, clients ( date_of_birth, gender )")
     .eq("id", clientId)
     .eq("role", "client")
     .is("deleted_at", null)
@@ -299,6 +310,8 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
       throw new ApiException(500, { error: "Failed to fetch updated client data" });
     }
 
+    const activationStatus = await fetchActivationStatus(supabase, clientId);
+
     // Transform to DTO
     const clientDto: ClientDTO = {
       id: updatedData.id,
@@ -308,8 +321,29 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
       role: updatedData.role,
       date_of_birth: updatedData.clients?.[0]?.date_of_birth || null,
       gender: updatedData.clients?.[0]?.gender || null,
+      activationStatus,
     };
 
+    audit.record({
+      action: "update",
+      entityType: "clients",
+      entityId: clientId,
+      before: {
+        full_name: existingClient.full_name,
+        email: existingClient.email,
+        phone: existingClient.phone,
+        date_of_birth: existingClient.clients?.date_of_birth || null,
+        gender: existingClient.clients?.gender || null,
+      },
+      after: {
+        full_name: clientDto.full_name,
+        email: clientDto.email,
+        phone: clientDto.phone,
+        date_of_birth: clientDto.date_of_birth,
+        gender: clientDto.gender,
+      },
+    });
+
     return createSuccessResponse(clientDto);
   } catch (error) {
     // If it's already an ApiException, re-throw it
@@ -340,7 +374,7 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
  * - 403: Forbidden (not trainer of client or super_admin)
  * - 404: Client not found
  */
-export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }) => {
+export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -380,7 +414,7 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
   // First check if client exists and is not already deleted
   const { data: existingClient, error: fetchError } = await supabase
     .from("users")
-    .select("id")
+    .select("id, deleted_at")
     .eq("id", clientId)
     .eq("role", "client")
     .is("deleted_at", null)
@@ -391,7 +425,8 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
   }
 
   // Soft delete the client
-  const { error } = await supabase.from("users").update({ deleted_at: new Date().toISOString() }).eq("id", clientId);
+  const deletedAt = new Date().toISOString();
+  const { error } = await supabase.from("users").update({ deleted_at: deletedAt }).eq("id", clientId);
 
   if (error) {
     // eslint-disable-next-line no-console
@@ -399,5 +434,13 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
     throw new ApiException(500, { error: "Failed to delete client" });
   }
 
+  audit.record({
+    action: "delete",
+    entityType: "clients",
+    entityId: clientId,
+    before: existingClient,
+    after: { ...existingClient, deleted_at: deletedAt },
+  });
+
   return new Response(null, { status: 204 });
 });
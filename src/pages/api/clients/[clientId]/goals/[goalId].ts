@@ -0,0 +1,215 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  requireRole,
+  UuidParamSchema,
+  UpdateGoalSchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../../../lib/api-helpers";
+import type { SupabaseClient } from "../../../../../db/supabase.client";
+import { fetchRecentMetricSeries, resolveGoalTarget, toClientGoalDTO } from "../../../../../lib/services/goalService";
+import type { GoalDirection, ReportMetric, TrendPointDTO } from "../../../../../types";
+
+/**
+ * Helper function to check if user can manage client's goals
+ */
+async function checkGoalManageAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  userRole: string,
+  clientId: string
+): Promise<boolean> {
+  // Super admin can manage any goals
+  if (userRole === "super_admin") {
+    return true;
+  }
+
+  // Trainer can manage their assigned clients' goals
+  if (userRole === "trainer") {
+    const { data, error } = await supabase
+      .from("trainer_client")
+      .select("client_id")
+      .eq("trainer_id", userId)
+      .eq("client_id", clientId)
+      .eq("is_active", true)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      // eslint-disable-next-line no-console
+      console.error("Error checking trainer-client relationship:", error);
+      return false;
+    }
+
+    return !!data;
+  }
+
+  return false;
+}
+
+/**
+ * PATCH /api/clients/{clientId}/goals/{goalId}
+ *
+ * Change the target of a goal, or cancel and reactivate it.
+ * Accessible by the client's trainer or super_admin.
+ *
+ * Path Parameters:
+ * - clientId: string (UUID, required)
+ * - goalId: string (UUID, required)
+ *
+ * Request Body (at least one field):
+ * {
+ *   targetValue?: number (0-1000),
+ *   targetDate?: string | null (YYYY-MM-DD, today or later; null removes it),
+ *   status?: "active" | "cancelled"
+ * }
+ *
+ * Response: 200 OK ClientGoalDTO
+ *
+ * Note: The direction and start value stay as set on creation.
+ *
+ * Errors:
+ * - 400: Validation error, target already reached, or target date in the past
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not the client's trainer or super_admin)
+ * - 404: Goal not found
+ * - 409: Goal already achieved
+ * - 500: Server error
+ */
+export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["trainer", "super_admin"]);
+
+  // Validate path parameters
+  const { id: clientId } = UuidParamSchema.parse({ id: params.clientId });
+  const { id: goalId } = UuidParamSchema.parse({ id: params.goalId });
+
+  // Check authorization
+  const hasAccess = await checkGoalManageAccess(supabase, authenticatedUser.id, authenticatedUser.role, clientId);
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only change goals of your assigned clients.",
+    });
+  }
+
+  const { data: goal, error: goalError } = await supabase
+    .from("client_goals")
+    .select("*")
+    .eq("id", goalId)
+    .eq("client_id", clientId)
+    .single();
+
+  if (goalError || !goal) {
+    throw new ApiException(404, { error: "Goal not found" });
+  }
+
+  if (goal.status === "achieved") {
+    throw new ApiException(409, { error: "Achieved goals cannot be changed" });
+  }
+
+  // Parse and validate request body
+  const update = UpdateGoalSchema.parse(await request.json());
+
+  let points: TrendPointDTO[];
+  try {
+    points = (await fetchRecentMetricSeries(supabase, clientId))[goal.metric as ReportMetric] ?? [];
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching latest reports:", error);
+    throw new ApiException(500, { error: "Failed to fetch latest reports" });
+  }
+
+  // An active goal must still be ahead of the client
+  if ((update.status ?? goal.status) === "active") {
+    resolveGoalTarget(
+      update.targetValue ?? Number(goal.target_value),
+      goal.direction as GoalDirection,
+      update.targetDate,
+      points.length > 0 ? points[points.length - 1].value : null
+    );
+  }
+
+  const { data, error } = await supabase
+    .from("client_goals")
+    .update({
+      target_value: update.targetValue,
+      target_date: update.targetDate,
+      status: update.status,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", goalId)
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Error updating goal:", error);
+    throw new ApiException(500, { error: "Failed to update goal" });
+  }
+
+  audit.record({ action: "update", entityType: "client_goals", entityId: goalId, before: goal, after: data });
+
+  return createSuccessResponse(toClientGoalDTO(data, points));
+});
+
+/**
+ * DELETE /api/clients/{clientId}/goals/{goalId}
+ *
+ * Delete a goal.
+ * Accessible by the client's trainer or super_admin.
+ *
+ * Path Parameters:
+ * - clientId: string (UUID, required)
+ * - goalId: string (UUID, required)
+ *
+ * Response: 204 No Content
+ *
+ * Errors:
+ * - 400: Invalid UUID format
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not the client's trainer or super_admin)
+ * - 404: Goal not found
+ * - 500: Server error
+ */
+export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["trainer", "super_admin"]);
+
+  // Validate path parameters
+  const { id: clientId } = UuidParamSchema.parse({ id: params.clientId });
+  const { id: goalId } = UuidParamSchema.parse({ id: params.goalId });
+
+  // Check authorization
+  const hasAccess = await checkGoalManageAccess(supabase, authenticatedUser.id, authenticatedUser.role, clientId);
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only delete goals of your assigned clients.",
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("client_goals")
+    .delete()
+    .eq("id", goalId)
+    .eq("client_id", clientId)
+    .select("*");
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error deleting goal:", error);
+    throw new ApiException(500, { error: "Failed to delete goal" });
+  }
+
+  if (data.length === 0) {
+    throw new ApiException(404, { error: "Goal not found" });
+  }
+
+  audit.record({ action: "delete", entityType: "client_goals", entityId: goalId, before: data[0] });
+
+  return new Response(null, { status: 204 });
+});
@@ -0,0 +1,217 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  requireRole,
+  UuidParamSchema,
+  GoalsQuerySchema,
+  CreateGoalSchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../../../lib/api-helpers";
+import type { SupabaseClient } from "../../../../../db/supabase.client";
+import {
+  fetchClientGoals,
+  fetchRecentMetricSeries,
+  resolveGoalTarget,
+  toClientGoalDTO,
+} from "../../../../../lib/services/goalService";
+import type { TrendPointDTO } from "../../../../../types";
+
+/**
+ * Helper function to check if user can access client's goals
+ */
+async function checkGoalAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  userRole: string,
+  clientId: string
+): Promise<boolean> {
+  // Super admin can access any goals
+  if (userRole === "super_admin") {
+    return true;
+  }
+
+  // Client can access their own goals
+  if (userRole === "client" && userId === clientId) {
+    return true;
+  }
+
+  // Trainer can access their assigned clients' goals
+  if (userRole === "trainer") {
+    const { data, error } = await supabase
+      .from("trainer_client")
+      .select("client_id")
+      .eq("trainer_id", userId)
+      .eq("client_id", clientId)
+      .eq("is_active", true)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      // eslint-disable-next-line no-console
+      console.error("Error checking trainer-client relationship:", error);
+      return false;
+    }
+
+    return !!data;
+  }
+
+  return false;
+}
+
+/**
+ * GET /api/clients/{clientId}/goals
+ *
+ * Goals of a client, newest first, with their current progress.
+ * Accessible by the client themselves, their trainer, or super_admin.
+ *
+ * Path Parameters:
+ * - clientId: string (UUID, required)
+ *
+ * Query Parameters:
+ * - status: "active" | "achieved" | "cancelled" (optional)
+ *
+ * Response: 200 OK
+ * {
+ *   data: ClientGoalDTO[]
+ * }
+ *
+ * Note: `currentValue` is the latest reported value of the metric. `onTrack` fits a line
+ * through the last 4 reported values and checks it reaches the target by `target_date`
+ * (or, without a date, that it heads towards the target).
+ *
+ * Errors:
+ * - 400: Invalid UUID format or query parameters
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not client, trainer, or super_admin)
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id: clientId } = UuidParamSchema.parse({ id: params.clientId });
+
+  // Check authorization
+  const hasAccess = await checkGoalAccess(supabase, authenticatedUser.id, authenticatedUser.role, clientId);
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only view your own goals, your assigned clients' goals, or be a super admin.",
+    });
+  }
+
+  // Parse and validate query parameters
+  const url = new URL(request.url);
+  const { status } = GoalsQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+  try {
+    const goals = await fetchClientGoals(supabase, clientId, { statuses: status ? [status] : undefined });
+    return createSuccessResponse({ data: goals });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching goals:", error);
+    throw new ApiException(500, { error: "Failed to fetch goals" });
+  }
+});
+
+/**
+ * POST /api/clients/{clientId}/goals
+ *
+ * Set a measurement goal for a client.
+ * Accessible by the client's trainer or super_admin.
+ *
+ * Path Parameters:
+ * - clientId: string (UUID, required)
+ *
+ * Request Body:
+ * {
+ *   metric: ReportMetric (required),
+ *   targetValue: number (required, 0-1000),
+ *   direction?: "below" | "above" (required when the client has not reported the metric yet),
+ *   targetDate?: string (YYYY-MM-DD, today or later)
+ * }
+ *
+ * Response: 201 Created ClientGoalDTO
+ *
+ * Note: The latest reported value becomes `start_value`, the 0% point of the progress.
+ * Without `direction` the goal is to move from that value to the target.
+ * The goal is achieved by the first later report that meets the target.
+ *
+ * Errors:
+ * - 400: Validation error, target already reached, or target date in the past
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not the client's trainer or super_admin)
+ * - 404: Client not found
+ * - 500: Server error
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["trainer", "super_admin"]);
+
+  // Validate path parameters
+  const { id: clientId } = UuidParamSchema.parse({ id: params.clientId });
+
+  // Check authorization
+  const hasAccess = await checkGoalAccess(supabase, authenticatedUser.id, authenticatedUser.role, clientId);
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only set goals for your assigned clients.",
+    });
+  }
+
+  // Verify client exists
+  const { data: client, error: clientError } = await supabase
+    .from("users")
+    .select("id")
+    .eq("id", clientId)
+    .eq("role", "client")
+    .is("deleted_at", null)
+    .single();
+
+  if (clientError || !client) {
+    throw new ApiException(404, { error: "Client not found" });
+  }
+
+  // Parse and validate request body
+  const { metric, targetValue, direction, targetDate } = CreateGoalSchema.parse(await request.json());
+
+  let points: TrendPointDTO[];
+  try {
+    points = (await fetchRecentMetricSeries(supabase, clientId))[metric] ?? [];
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching latest reports:", error);
+    throw new ApiException(500, { error: "Failed to fetch latest reports" });
+  }
+
+  const startValue = points.length > 0 ? points[points.length - 1].value : null;
+  const resolvedDirection = resolveGoalTarget(targetValue, direction, targetDate, startValue);
+
+  const { data, error } = await supabase
+    .from("client_goals")
+    .insert({
+      client_id: clientId,
+      created_by: authenticatedUser.id,
+      metric,
+      direction: resolvedDirection,
+      target_value: targetValue,
+      start_value: startValue,
+      target_date: targetDate ?? null,
+    })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Error creating goal:", error);
+    throw new ApiException(500, { error: "Failed to create goal" });
+  }
+
+  audit.record({ action: "create", entityType: "client_goals", entityId: data.id, after: data });
+
+  return createSuccessResponse(toClientGoalDTO(data, points), 201);
+});
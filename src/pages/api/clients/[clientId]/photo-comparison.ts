@@ -0,0 +1,237 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  UuidParamSchema,
+  PhotoComparisonQuerySchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../../lib/api-helpers";
+import type { SupabaseClient } from "../../../../db/supabase.client";
+import { createSignedImageUrls, type SignedImageUrls } from "../../../../lib/services/reportImageService";
+import type { ComparisonImageDTO, PhotoComparisonDTO, ReportSummaryDTO } from "../../../../types";
+
+/**
+ * Helper function to check if user can access client's photos
+ */
+async function checkPhotoAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  userRole: string,
+  clientId: string
+): Promise<boolean> {
+  // Super admin can access any photos
+  if (userRole === "super_admin") {
+    return true;
+  }
+
+  // Client can access their own photos
+  if (userRole === "client" && userId === clientId) {
+    return true;
+  }
+
+  // Trainer can access their assigned clients' photos
+  if (userRole === "trainer") {
+    const { data, error } = await supabase
+      .from("trainer_client")
+      .select("client_id")
+      .eq("trainer_id", userId)
+      .eq("client_id", clientId)
+      .eq("is_active", true)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      // eslint-disable-next-line no-console
+      console.error("Error checking trainer-client relationship:", error);
+      return false;
+    }
+
+    return !!data;
+  }
+
+  return false;
+}
+
+/**
+ * Helper function to load one report of the client, or the newest one created before `before`
+ */
+async function findClientReport(
+  supabase: SupabaseClient,
+  clientId: string,
+  criteria: { reportId?: string; before?: string }
+): Promise<ReportSummaryDTO | null> {
+  let query = supabase.from("reports").select("id, created_at").eq("client_id", clientId).is("deleted_at", null);
+
+  if (criteria.reportId) {
+    query = query.eq("id", criteria.reportId);
+  }
+
+  if (criteria.before) {
+    query = query.lt("created_at", criteria.before);
+  }
+
+  const { data, error } = await query.order("created_at", { ascending: false }).limit(1).single();
+
+  if (error && error.code !== "PGRST116") {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching report for comparison:", error);
+    throw new ApiException(500, { error: "Failed to fetch report" });
+  }
+
+  return data;
+}
+
+/**
+ * GET /api/clients/{clientId}/photo-comparison
+ *
+ * Returns the photos of two reports of a client, paired by slot, with signed view URLs.
+ * Accessible by the client themselves, their trainer, or super_admin.
+ *
+ * Path Parameters:
+ * - clientId: string (UUID, required)
+ *
+ * Query Parameters:
+ * - baseReportId: string (UUID, optional, defaults to the client's latest report)
+ * - compareReportId: string (UUID, optional, defaults to the report right before the base one)
+ *
+ * Response: 200 OK PhotoComparisonDTO
+ * {
+ *   base: { id: string, created_at: string },
+ *   compare: { id: string, created_at: string },
+ *   slots: [
+ *     {
+ *       slot: number,
+ *       base: { id: string, url: string, width: number | null, height: number | null } | null,
+ *       compare: { id: string, url: string, width: number | null, height: number | null } | null
+ *     }
+ *   ],
+ *   expiresAt: string
+ * }
+ *
+ * Note: Photos are paired by upload order within each report (slot 0 = first photo).
+ * A slot has `null` on the side whose report has fewer photos.
+ *
+ * Errors:
+ * - 400: Invalid UUID format or both report IDs point to the same report
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not client, trainer, or super_admin)
+ * - 404: Client or report not found, or no report to compare with
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id: clientId } = UuidParamSchema.parse({ id: params.clientId });
+
+  // Check authorization
+  const hasAccess = await checkPhotoAccess(supabase, authenticatedUser.id, authenticatedUser.role, clientId);
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only view your own photos, your assigned clients' photos, or be a super admin.",
+    });
+  }
+
+  // Verify client exists
+  const { data: client, error: clientError } = await supabase
+    .from("users")
+    .select("id")
+    .eq("id", clientId)
+    .eq("role", "client")
+    .is("deleted_at", null)
+    .single();
+
+  if (clientError || !client) {
+    throw new ApiException(404, { error: "Client not found" });
+  }
+
+  // Parse and validate query parameters
+  const url = new URL(request.url);
+  const queryParams = Object.fromEntries(url.searchParams.entries());
+
+  const { baseReportId, compareReportId } = PhotoComparisonQuerySchema.parse(queryParams);
+
+  if (baseReportId && baseReportId === compareReportId) {
+    throw new ApiException(400, { error: "Base and compare report must be different" });
+  }
+
+  // Resolve both reports (only reports of this client are accepted)
+  const base = await findClientReport(supabase, clientId, { reportId: baseReportId });
+
+  if (!base) {
+    throw new ApiException(404, { error: baseReportId ? "Base report not found" : "Client has no reports" });
+  }
+
+  const compare = await findClientReport(
+    supabase,
+    clientId,
+    compareReportId ? { reportId: compareReportId } : { before: base.created_at }
+  );
+
+  if (!compare) {
+    throw new ApiException(404, {
+      error: compareReportId ? "Compare report not found" : "No earlier report to compare with",
+    });
+  }
+
+  if (compare.id === base.id) {
+    throw new ApiException(400, { error: "Base and compare report must be different" });
+  }
+
+  // Fetch images of both reports
+  const { data: images, error: imagesError } = await supabase
+    .from("report_images")
+    .select("id, report_id, storage_path, width, height")
+    .in("report_id", [base.id, compare.id])
+    .eq("is_deleted", false)
+    .eq("is_confirmed", true)
+    .order("created_at", { ascending: true });
+
+  if (imagesError) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching report images:", imagesError);
+    throw new ApiException(500, { error: "Failed to fetch report images" });
+  }
+
+  // Sign all paths in one call (access to the client's photos was checked above)
+  let signed: SignedImageUrls;
+  try {
+    signed = await createSignedImageUrls(
+      supabase,
+      (images || []).map((image) => image.storage_path)
+    );
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error creating signed URLs:", error);
+    throw new ApiException(500, { error: "Failed to create image URLs" });
+  }
+
+  const toComparisonImages = (reportId: string): ComparisonImageDTO[] =>
+    (images || [])
+      .filter((image) => image.report_id === reportId && signed.urls.has(image.storage_path))
+      .map((image) => ({
+        id: image.id,
+        url: signed.urls.get(image.storage_path) as string,
+        width: image.width,
+        height: image.height,
+      }));
+
+  const baseImages = toComparisonImages(base.id);
+  const compareImages = toComparisonImages(compare.id);
+  const slotCount = Math.max(baseImages.length, compareImages.length);
+
+  const comparison: PhotoComparisonDTO = {
+    base,
+    compare,
+    slots: Array.from({ length: slotCount }, (_, slot) => ({
+      slot,
+      base: baseImages[slot] ?? null,
+      compare: compareImages[slot] ?? null,
+    })),
+    expiresAt: signed.expiresAt,
+  };
+
+  return createSuccessResponse(comparison);
+});
@@ -0,0 +1,202 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  requireRole,
+  UuidParamSchema,
+  RemindersQuerySchema,
+  getPaginationRange,
+  calculatePagination,
+  createPaginatedResponse,
+  createSuccessResponse,
+  ApiException,
+} from "../../../../lib/api-helpers";
+import type { SupabaseClient } from "../../../../db/supabase.client";
+import { getNotificationAddress } from "../../../../lib/services/notifierService";
+import { sendReportReminder, toReportReminderDTO } from "../../../../lib/services/reminderService";
+
+/**
+ * Helper function to check if user can see or send reminders of a client
+ */
+async function checkReminderAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  userRole: string,
+  clientId: string
+): Promise<boolean> {
+  // Super admin can see any reminders
+  if (userRole === "super_admin") {
+    return true;
+  }
+
+  // Trainer can access their assigned clients' reminders
+  if (userRole === "trainer") {
+    const { data, error } = await supabase
+      .from("trainer_client")
+      .select("client_id")
+      .eq("trainer_id", userId)
+      .eq("client_id", clientId)
+      .eq("is_active", true)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      // eslint-disable-next-line no-console
+      console.error("Error checking trainer-client relationship:", error);
+      return false;
+    }
+
+    return !!data;
+  }
+
+  return false;
+}
+
+/**
+ * GET /api/clients/{clientId}/reminders
+ *
+ * Reminder history of a client, newest first.
+ * Accessible by the client's trainer or super_admin.
+ *
+ * Path Parameters:
+ * - clientId: string (UUID, required)
+ *
+ * Query Parameters:
+ * - page: number (default: 1)
+ * - pageSize: number (default: 20, max: 100)
+ *
+ * Response: 200 OK
+ * {
+ *   data: ReportReminderDTO[],
+ *   meta: PaginationMeta
+ * }
+ *
+ * Errors:
+ * - 400: Invalid UUID format or query parameters
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not the client's trainer or super_admin)
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["trainer", "super_admin"]);
+
+  // Validate path parameters
+  const { id: clientId } = UuidParamSchema.parse({ id: params.clientId });
+
+  // Check authorization
+  const hasAccess = await checkReminderAccess(supabase, authenticatedUser.id, authenticatedUser.role, clientId);
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only view reminders of your assigned clients.",
+    });
+  }
+
+  // Parse and validate query parameters
+  const url = new URL(request.url);
+  const queryParams = Object.fromEntries(url.searchParams.entries());
+
+  const { page, pageSize } = RemindersQuerySchema.parse(queryParams);
+  const { from, to } = getPaginationRange(page, pageSize);
+
+  const { data, error, count } = await supabase
+    .from("report_reminders")
+    .select("*", { count: "exact" })
+    .eq("client_id", clientId)
+    .order("created_at", { ascending: false })
+    .range(from, to);
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching reminders:", error);
+    throw new ApiException(500, { error: "Failed to fetch reminders" });
+  }
+
+  const meta = calculatePagination(page, pageSize, count || 0);
+
+  return createPaginatedResponse(data.map(toReportReminderDTO), meta);
+});
+
+/**
+ * POST /api/clients/{clientId}/reminders
+ *
+ * Sends the client a reminder to submit their weekly report, by email or
+ * (for clients invited by phone) SMS, and records it in the reminder history.
+ * Requires trainer role and an active assignment to the client.
+ *
+ * Path Parameters:
+ * - clientId: string (UUID, required)
+ *
+ * Response: 201 Created ReportReminderDTO
+ *
+ * Note: At most one reminder per client per day (UTC), counting reminders of all trainers.
+ * A failed delivery is recorded with status 'failed' and can be retried the same day.
+ *
+ * Errors:
+ * - 400: Invalid UUID format
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not the client's trainer)
+ * - 404: Client not found
+ * - 422: Client has no email or phone
+ * - 429: Client already got a reminder today
+ * - 500: Server error
+ * - 502: Notification could not be delivered
+ */
+export const POST: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["trainer"]);
+
+  // Validate path parameters
+  const { id: clientId } = UuidParamSchema.parse({ id: params.clientId });
+
+  // Check authorization
+  const hasAccess = await checkReminderAccess(supabase, authenticatedUser.id, authenticatedUser.role, clientId);
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only remind your assigned clients.",
+    });
+  }
+
+  // Load contact data of the client
+  const { data: client, error: clientError } = await supabase
+    .from("users")
+    .select("id, full_name, email, phone")
+    .eq("id", clientId)
+    .eq("role", "client")
+    .is("deleted_at", null)
+    .single();
+
+  if (clientError || !client) {
+    throw new ApiException(404, { error: "Client not found" });
+  }
+
+  const recipient = { clientId, fullName: client.full_name, email: client.email, phone: client.phone };
+
+  if (!getNotificationAddress(recipient)) {
+    throw new ApiException(422, { error: "Client has no email or phone" });
+  }
+
+  let reminder;
+  try {
+    reminder = await sendReportReminder(supabase, recipient, { sentBy: authenticatedUser.id });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error sending reminder:", error);
+    throw new ApiException(500, { error: "Failed to send reminder" });
+  }
+
+  if (!reminder) {
+    throw new ApiException(429, { error: "Client already got a reminder today" });
+  }
+
+  if (reminder.status === "failed") {
+    throw new ApiException(502, { error: "Failed to deliver reminder", details: reminder.error });
+  }
+
+  audit.record({ action: "create", entityType: "report_reminders", entityId: reminder.id, after: reminder });
+
+  return createSuccessResponse(reminder, 201);
+});
@@ -12,7 +12,9 @@ import {
   getCurrentWeekInfo,
   ApiException,
 } from "../../../../../lib/api-helpers";
-import type { ReportDTO, ReportListItemDTO } from "../../../../../types";
+import { createSignedImageUrls } from "../../../../../lib/services/reportImageService";
+import { evaluateGoalsForReport } from "../../../../../lib/services/goalService";
+import type { ReportDTO, ReportListItemDTO, ReportThumbnailDTO } from "../../../../../types";
 
 /**
  * Helper function to check if user can access client's reports
@@ -79,6 +81,8 @@ async function checkReportAccess(
  *
  * Response: 201 Created ReportDTO
  *
+ * Note: Active goals of the client that the report meets are marked as achieved.
+ *
  * Errors:
  * - 400: Validation error or invalid UUID
  * - 401: Unauthenticated
@@ -87,7 +91,7 @@ async function checkReportAccess(
  * - 409: Maximum 2 reports per week exceeded
  * - 500: Server error
  */
-export const POST: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+export const POST: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -197,6 +201,26 @@ export const POST: APIRoute = createApiRoute(async ({ request, params, supabase,
     throw new ApiException(500, { error: "Failed to create report" });
   }
 
+  audit.record({ action: "create", entityType: "reports", entityId: reportId, after: newReport });
+
+  // Goals the new measurements meet are achieved
+  try {
+    const achievedGoalIds = await evaluateGoalsForReport(supabase, newReport.id);
+    achievedGoalIds.forEach((goalId) =>
+      audit.record({
+        action: "update",
+        entityType: "client_goals",
+        entityId: goalId,
+        before: { status: "active" },
+        after: { status: "achieved", achieved_report_id: reportId },
+      })
+    );
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error evaluating goals:", error);
+    // Don't fail the submission, the report is saved
+  }
+
   // Transform to DTO (with empty images array for new report)
   const reportDto: ReportDTO = {
     ...newReport,
@@ -225,6 +249,9 @@ export const POST: APIRoute = createApiRoute(async ({ request, params, supabase,
  *   meta: PaginationMeta
  * }
  *
+ * Note: Each item carries `thumbnails` of its processed images with signed URLs
+ * valid for REPORT_IMAGE_URL_TTL_SECONDS (default 10 minutes).
+ *
  * Errors:
  * - 400: Invalid UUID format or pagination params
  * - 401: Unauthenticated
@@ -272,6 +299,7 @@ export const GET: APIRoute = createApiRoute(async ({ request, params, supabase,
         cardio_days: (idx % 7) as number,
         created_at: created.toISOString(),
         deleted_at: null,
+        thumbnails: [],
       } as ReportListItemDTO;
     });
 
@@ -365,6 +393,46 @@ export const GET: APIRoute = createApiRoute(async ({ request, params, supabase,
     throw new ApiException(500, { error: "No data returned from query" });
   }
 
+  // Fetch thumbnails of the listed reports
+  const thumbnailsByReport = new Map<string, ReportThumbnailDTO[]>();
+  const { data: images, error: imagesError } = await supabase
+    .from("report_images")
+    .select("id, report_id, thumb_path, blurhash")
+    .in(
+      "report_id",
+      data.map((report) => report.id)
+    )
+    .eq("is_deleted", false)
+    .eq("is_confirmed", true)
+    .not("thumb_path", "is", null)
+    .order("created_at", { ascending: true });
+
+  if (imagesError) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching report thumbnails:", imagesError);
+    // Don't fail the listing, reports are shown without thumbnails
+  }
+
+  // Sign thumbnail URLs (access to the client's reports was checked above)
+  try {
+    const { urls } = await createSignedImageUrls(
+      supabase,
+      (images || []).map((image) => image.thumb_path as string)
+    );
+
+    (images || []).forEach((image) => {
+      const url = urls.get(image.thumb_path as string);
+      if (!url) return;
+
+      const thumbnails = thumbnailsByReport.get(image.report_id) ?? [];
+      thumbnails.push({ id: image.id, url, blurhash: image.blurhash });
+      thumbnailsByReport.set(image.report_id, thumbnails);
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error creating thumbnail URLs:", error);
+  }
+
   // Transform to DTOs (ReportListItemDTO excludes note field)
   const reports: ReportListItemDTO[] = data.map((report) => ({
     id: report.id,
@@ -382,6 +450,7 @@ export const GET: APIRoute = createApiRoute(async ({ request, params, supabase,
     cardio_days: report.cardio_days,
     created_at: report.created_at,
     deleted_at: report.deleted_at,
+    thumbnails: thumbnailsByReport.get(report.id) ?? [],
   }));
 
   // Calculate pagination metadata
@@ -4,10 +4,13 @@ import {
   requireAuth,
   UuidParamSchema,
   TrendsQuerySchema,
+  REPORT_METRICS,
   createSuccessResponse,
   ApiException,
 } from "../../../../lib/api-helpers";
-import type { TrendsDTO } from "../../../../types";
+import { buildTrendSeries } from "../../../../lib/services/trendService";
+import { fetchClientGoals } from "../../../../lib/services/goalService";
+import type { ClientGoalDTO } from "../../../../types";
 
 /**
  * Helper function to check if user can access client's trends
@@ -53,7 +56,7 @@ async function checkTrendsAccess(
 /**
  * GET /api/clients/{clientId}/trends
  *
- * Returns aggregated measurement arrays over time for graphing.
+ * Returns time-stamped measurement series for graphing.
  * Accessible by the client themselves, their trainer, or super_admin.
  *
  * Path Parameters:
@@ -63,24 +66,27 @@ async function checkTrendsAccess(
  * - metrics: string (optional, comma-separated list of metrics to include)
  *   Valid metrics: weight, waist, chest, biceps_left, biceps_right, thigh_left, thigh_right, cardio_days
  *   Example: ?metrics=weight,waist,chest
+ * - from: string (optional, YYYY-MM-DD, inclusive)
+ * - to: string (optional, YYYY-MM-DD, inclusive)
+ * - bucket: "week" | "month" (optional, averages values per ISO week or calendar month)
  *
  * Response: 200 OK TrendsDTO
  * {
- *   weight?: number[],
- *   waist?: number[],
- *   chest?: number[],
- *   biceps_left?: number[],
- *   biceps_right?: number[],
- *   thigh_left?: number[],
- *   thigh_right?: number[],
- *   cardio_days?: number[]
+ *   weight?: { date: string, value: number, reportId: string }[],
+ *   waist?: ...,
+ *   ...
+ *   cardio_days?: ...,
+ *   goals: ClientGoalDTO[] (active and achieved goals of the requested metrics)
  * }
  *
- * Note: Arrays are ordered chronologically (oldest to newest).
- * Null values are excluded from arrays.
+ * Note: Every requested metric is present; series are ordered chronologically
+ * (oldest to newest). Reports without a value for a metric are skipped in that
+ * series only, so points of different metrics are aligned by `date`/`reportId`.
+ * With `bucket`, `date` is the bucket start (UTC) and `reportId` the latest report in it.
+ * Goal progress is computed from the latest reports regardless of `from`/`to`.
  *
  * Errors:
- * - 400: Invalid UUID format or invalid metrics
+ * - 400: Invalid UUID format, invalid metrics, date range or bucket
  * - 401: Unauthenticated
  * - 403: Forbidden (not client, trainer, or super_admin)
  * - 404: Client not found
@@ -119,31 +125,28 @@ export const GET: APIRoute = createApiRoute(async ({ request, params, supabase,
   const url = new URL(request.url);
   const queryParams = Object.fromEntries(url.searchParams.entries());
 
-  const { metrics } = TrendsQuerySchema.parse(queryParams);
-
-  // Define all possible metrics
-  const allMetrics = [
-    "weight",
-    "waist",
-    "chest",
-    "biceps_left",
-    "biceps_right",
-    "thigh_left",
-    "thigh_right",
-    "cardio_days",
-  ];
-  const requestedMetrics = metrics || allMetrics;
-
-  // Build select clause for requested metrics
-  const selectFields = ["created_at", ...requestedMetrics].join(", ");
+  const { metrics, from, to, bucket } = TrendsQuerySchema.parse(queryParams);
+  const requestedMetrics = metrics || REPORT_METRICS;
 
   // Fetch reports ordered chronologically
-  const { data: reports, error: reportsError } = await supabase
+  let query = supabase
     .from("reports")
-    .select(selectFields)
+    .select("id, created_at, weight, waist, chest, biceps_left, biceps_right, thigh_left, thigh_right, cardio_days")
     .eq("client_id", clientId)
-    .is("deleted_at", null)
-    .order("created_at", { ascending: true }); // Oldest to newest for trends
+    .is("deleted_at", null);
+
+  // Apply date range (both ends inclusive, whole UTC days)
+  if (from) {
+    query = query.gte("created_at", `${from}T00:00:00.000Z`);
+  }
+
+  if (to) {
+    const dayAfterTo = new Date(`${to}T00:00:00.000Z`);
+    dayAfterTo.setUTCDate(dayAfterTo.getUTCDate() + 1);
+    query = query.lt("created_at", dayAfterTo.toISOString());
+  }
+
+  const { data: reports, error: reportsError } = await query.order("created_at", { ascending: true }); // Oldest to newest for trends
 
   if (reportsError) {
     // eslint-disable-next-line no-console
@@ -155,37 +158,17 @@ export const GET: APIRoute = createApiRoute(async ({ request, params, supabase,
     throw new ApiException(500, { error: "No data returned from query" });
   }
 
-  // Transform data into trends format
-  const trends: TrendsDTO = {};
-
-  // Initialize arrays for requested metrics
-  requestedMetrics.forEach((metric) => {
-    trends[metric as keyof TrendsDTO] = [];
-  });
-
-  // Populate arrays with non-null values
-  reports.forEach((report) => {
-    requestedMetrics.forEach((metric) => {
-      const value = report[metric as keyof typeof report];
-      if (value !== null && value !== undefined) {
-        const trendsArray = trends[metric as keyof TrendsDTO] as number[];
-        trendsArray.push(Number(value));
-      }
+  let goals: ClientGoalDTO[] = [];
+  try {
+    goals = await fetchClientGoals(supabase, clientId, {
+      metrics: requestedMetrics,
+      statuses: ["active", "achieved"],
     });
-  });
-
-  // Remove empty arrays (metrics with no data)
-  Object.keys(trends).forEach((key) => {
-    const trendsKey = key as keyof TrendsDTO;
-    if (trends[trendsKey] && (trends[trendsKey] as number[]).length === 0) {
-      trends[trendsKey] = undefined;
-    }
-  });
-
-  // Filter out undefined values
-  const filteredTrends = Object.fromEntries(
-    Object.entries(trends).filter(([, value]) => value !== undefined)
-  ) as TrendsDTO;
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching goals for trends:", error);
+    // Don't fail the trends, charts are shown without goals
+  }
 
-  return createSuccessResponse(filteredTrends);
+  return createSuccessResponse({ ...buildTrendSeries(reports, requestedMetrics, bucket), goals });
 });
@@ -9,11 +9,14 @@ import {
   calculatePagination,
   createPaginatedResponse,
   createSuccessResponse,
-  inviteUser,
-  inviteUserByPhone,
+  getCurrentWeekInfo,
   ApiException,
 } from "../../../lib/api-helpers";
-import type { ClientDTO } from "../../../types";
+import { fetchActivationStatuses } from "../../../lib/services/activationStatusService";
+import { sendInvitation } from "../../../lib/services/invitationService";
+import { fetchLastReminders } from "../../../lib/services/reminderService";
+import { fetchUnreadFeedbackCounts } from "../../../lib/services/reportCommentService";
+import type { ActivationStatus, ClientDTO, ClientListItemDTO, ClientListSort } from "../../../types";
 
 /**
  * POST /api/clients
@@ -32,6 +35,9 @@ import type { ClientDTO } from "../../../types";
  *
  * Response: 201 Created ClientDTO
  *
+ * Note: The client gets an activation link valid for INVITATION_TTL_HOURS (24) hours,
+ * by email when given, else by SMS, and stays "pending" until it is accepted.
+ *
  * Errors:
  * - 400: Validation error
  * - 401: Unauthenticated
@@ -39,7 +45,7 @@ import type { ClientDTO } from "../../../types";
  * - 409: Phone or email already exists
  * - 500: Server error
  */
-export const POST: APIRoute = createApiRoute(async ({ request, supabase, user }) => {
+export const POST: APIRoute = createApiRoute(async ({ request, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
   requireRole(authenticatedUser, ["trainer"]);
@@ -103,6 +109,7 @@ export const POST: APIRoute = createApiRoute(async ({ request, supabase, user })
       email: email || null,
       phone: phone,
       role: "client",
+      must_change_password: true,
     });
 
     if (userError) {
@@ -143,17 +150,18 @@ export const POST: APIRoute = createApiRoute(async ({ request, supabase, user })
       throw new ApiException(500, { error: "Failed to assign client to trainer" });
     }
 
-    // Send invitation via Supabase Auth
+    // Send the activation link; the client stays pending until it is accepted
     try {
-      if (email) {
-        await inviteUser(supabase, email);
-      } else {
-        await inviteUserByPhone(supabase, phone);
-      }
+      const invitation = await sendInvitation(
+        supabase,
+        { userId: clientId, fullName, email: email || null, phone },
+        { createdBy: authenticatedUser.id, origin: new URL(request.url).origin }
+      );
+      audit.record({ action: "create", entityType: "invitations", entityId: invitation.id, after: invitation });
     } catch (inviteError) {
-      // Log the error but don't fail the entire operation
+      // Don't fail the entire operation - the invitation can be resent
       // eslint-disable-next-line no-console
-      console.warn("Failed to send invitation, but client was created:", inviteError);
+      console.error("Error sending invitation, but client was created:", inviteError);
     }
 
     // Fetch the created client with user data
@@ -190,8 +198,11 @@ export const POST: APIRoute = createApiRoute(async ({ request, supabase, user })
       role: clientData.role,
       date_of_birth: clientData.clients?.[0]?.date_of_birth || null,
       gender: clientData.clients?.[0]?.gender || null,
+      activationStatus: "pending",
     };
 
+    audit.record({ action: "create", entityType: "clients", entityId: clientId, after: clientDto });
+
     return createSuccessResponse(clientDto, 201);
   } catch (error) {
     // If it's already an ApiException, re-throw it
@@ -205,22 +216,50 @@ export const POST: APIRoute = createApiRoute(async ({ request, supabase, user })
   }
 });
 
+/** Column of trainer_clients_for_week behind each `sort` value */
+const CLIENT_SORT_COLUMNS: Record<ClientListSort, string> = {
+  name: "full_name",
+  lastReportAt: "last_report_at",
+  startedAt: "started_at",
+  status: "reports_in_week",
+  streak: "current_streak_weeks",
+  weightChange: "weight_change",
+};
+
 /**
  * GET /api/clients
  *
- * List clients for the current trainer with optional missing report filter.
+ * List clients for the current trainer with their report status for one ISO week.
  * Requires trainer role.
  *
  * Query Parameters:
  * - page: number (default: 1)
  * - pageSize: number (default: 20, max: 100)
- * - missingReportForWeek: boolean (optional, filters clients missing reports for current week)
+ * - missingReportForWeek: boolean (optional, only clients without a report in the week)
+ * - hasReportForWeek: boolean (optional, only clients with a report in the week)
+ * - year: number (optional, ISO week-numbering year, requires week)
+ * - week: number (optional, ISO week 1-53, requires year; default: current week)
+ * - search: string (optional, matches name, phone or email)
+ * - sort: 'name' | 'lastReportAt' | 'startedAt' | 'status' | 'streak' | 'weightChange' (default: 'startedAt')
+ *   ('status' orders by reports in the week, 'streak' by current streak)
+ * - order: 'asc' | 'desc' (optional, default: 'asc' for name, 'desc' otherwise)
  *
  * Response: 200 OK
  * {
- *   data: ClientDTO[],
+ *   data: ClientListItemDTO[],
  *   meta: PaginationMeta
  * }
+ *
+ * Note: Each item adds `startedAt`, `hasReportForWeek` and `reportsThisWeek` (the requested week),
+ * `lastReportAt`, `currentStreakWeeks`, `latestWeight`, `weightChange`, `lastReminderAt`,
+ * and `unreadFeedbackCount` (client comments the trainer has not read) to ClientDTO.
+ * Clients without a value for the sort column come last. Filtering happens in the database (trainer_clients_for_week), so `meta` is exact.
+ *
+ * Errors:
+ * - 400: Invalid query parameters
+ * - 401: Unauthenticated
+ * - 403: Insufficient permissions (not trainer)
+ * - 500: Server error
  */
 export const GET: APIRoute = createApiRoute(async ({ request, supabase, user }) => {
   // Authentication & Authorization
@@ -231,49 +270,41 @@ export const GET: APIRoute = createApiRoute(async ({ request, supabase, user })
   const url = new URL(request.url);
   const queryParams = Object.fromEntries(url.searchParams.entries());
 
-  const { page, pageSize, missingReportForWeek } = ClientsQuerySchema.parse(queryParams);
+  const { page, pageSize, missingReportForWeek, hasReportForWeek, year, week, search, sort, order } =
+    ClientsQuerySchema.parse(queryParams);
 
-  // Build the base query - get clients assigned to this trainer
-  let query = supabase
-    .from("trainer_client")
-    .select(
-      `
-      client_id,
-      is_active,
-      started_at,
-      clients!inner (
-        id,
-        date_of_birth,
-        gender,
-        users!inner (
-          id,
-          full_name,
-          email,
-          phone,
-          role
-        )
-      )
-    `,
-      { count: "exact" }
-    )
-    .eq("trainer_id", authenticatedUser.id)
-    .eq("is_active", true)
-    .is("clients.deleted_at", null);
-
-  // Apply missing report filter if requested
+  // Week to report on (same ISO numbering as reports.year / reports.week_number)
+  const weekInfo = year !== undefined && week !== undefined ? { year, weekNumber: week } : getCurrentWeekInfo();
+
+  // Build the query - clients assigned to this trainer with their report count for the week
+  let query = supabase.rpc(
+    "trainer_clients_for_week",
+    { p_trainer_id: authenticatedUser.id, p_year: weekInfo.year, p_week: weekInfo.weekNumber },
+    { count: "exact" }
+  );
+
+  // Apply report filters
   if (missingReportForWeek) {
-    // Get current week info
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentWeek = Math.ceil(((now.getTime() - new Date(currentYear, 0, 1).getTime()) / 86400000 + 1) / 7);
-
-    // This is a complex query that would need to be handled with a custom RPC function
-    // For now, we'll fetch all clients and filter in application logic
-    // In production, this should be optimized with a database view or RPC
+    query = query.eq("reports_in_week", 0);
   }
 
-  // Apply ordering
-  query = query.order("started_at", { ascending: false });
+  if (hasReportForWeek) {
+    query = query.gt("reports_in_week", 0);
+  }
+
+  // Apply search filter (PostgREST filter syntax characters are dropped)
+  const searchTerm = search?.replace(/[,()%*\\]/g, "");
+  if (searchTerm) {
+    query = query.or(`full_name.ilike.%${searchTerm}%,phone.ilike.%${searchTerm}%,email.ilike.%${searchTerm}%`);
+  }
+
+  // Apply ordering - ties are broken by name so pages are stable
+  const ascending = (order ?? (sort === "name" ? "asc" : "desc")) === "asc";
+  query = query.order(CLIENT_SORT_COLUMNS[sort], { ascending, nullsFirst: false });
+  if (sort !== "name") {
+    query = query.order("full_name", { ascending: true });
+  }
+  query = query.order("client_id", { ascending: true });
 
   // Apply pagination
   const { from, to } = getPaginationRange(page, pageSize);
@@ -292,48 +323,48 @@ export const GET: APIRoute = createApiRoute(async ({ request, supabase, user })
     throw new ApiException(500, { error: "No data returned from query" });
   }
 
-  // Transform to DTOs
-  const clients: ClientDTO[] = data.map((mapping) => {
-    const client = mapping.clients;
-    const user = client.users;
+  // Activation status, last reminder and unread comments shown on the trainer dashboard
+  const clientIds = data.map((row) => row.client_id);
+  let activationStatuses: Map<string, ActivationStatus>;
+  let lastReminders: Map<string, string>;
+  let unreadFeedbackCounts: Map<string, number>;
+  try {
+    [activationStatuses, lastReminders, unreadFeedbackCounts] = await Promise.all([
+      fetchActivationStatuses(supabase, clientIds),
+      fetchLastReminders(supabase, clientIds),
+      fetchUnreadFeedbackCounts(supabase, clientIds),
+    ]);
+  } catch (statusError) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching client statuses:", statusError);
+    throw new ApiException(500, { error: "Failed to fetch client statuses" });
+  }
 
+  // Transform to DTOs
+  const clients: ClientListItemDTO[] = data.map((row) => {
     return {
-      id: user.id,
-      full_name: user.full_name,
-      email: user.email,
-      phone: user.phone,
-      role: user.role,
-      date_of_birth: client.date_of_birth,
-      gender: client.gender,
+      id: row.client_id,
+      full_name: row.full_name,
+      email: row.email,
+      phone: row.phone,
+      role: row.role,
+      date_of_birth: row.date_of_birth,
+      gender: row.gender,
+      startedAt: row.started_at,
+      hasReportForWeek: row.reports_in_week > 0,
+      reportsThisWeek: row.reports_in_week,
+      lastReportAt: row.last_report_at,
+      currentStreakWeeks: row.current_streak_weeks,
+      latestWeight: row.latest_weight,
+      weightChange: row.weight_change,
+      lastReminderAt: lastReminders.get(row.client_id) ?? null,
+      unreadFeedbackCount: unreadFeedbackCounts.get(row.client_id) ?? 0,
+      activationStatus: activationStatuses.get(row.client_id) ?? "pending",
     };
   });
 
-  // If missing report filter is requested, we need to check for reports
-  let filteredClients = clients;
-  if (missingReportForWeek) {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentWeek = Math.ceil(((now.getTime() - new Date(currentYear, 0, 1).getTime()) / 86400000 + 1) / 7);
-
-    // Get clients who have reports for current week
-    const clientIds = clients.map((c) => c.id);
-    if (clientIds.length > 0) {
-      const { data: reportsData } = await supabase
-        .from("reports")
-        .select("client_id")
-        .in("client_id", clientIds)
-        .eq("year", currentYear)
-        .eq("week_number", currentWeek)
-        .is("deleted_at", null);
-
-      const clientsWithReports = new Set(reportsData?.map((r) => r.client_id) || []);
-      filteredClients = clients.filter((client) => !clientsWithReports.has(client.id));
-    }
-  }
-
-  // Calculate pagination metadata (note: this is approximate when filtering is applied)
-  const totalItems = missingReportForWeek ? filteredClients.length : count || 0;
-  const meta = calculatePagination(page, pageSize, totalItems);
+  // Calculate pagination metadata
+  const meta = calculatePagination(page, pageSize, count || 0);
 
-  return createPaginatedResponse(filteredClients, meta);
+  return createPaginatedResponse(clients, meta);
 });
@@ -0,0 +1,83 @@
+import type { APIRoute } from "astro";
+import { createApiRoute, AcceptInvitationSchema, createSuccessResponse, ApiException } from "../../../lib/api-helpers";
+import { createSupabaseAdminClient, createSupabaseClient } from "../../../db/supabase.client";
+import { acceptInvitation } from "../../../lib/services/invitationService";
+import { getRoleHomePath, setSessionCookies } from "../../../lib/session";
+import type { LoginResponseDTO } from "../../../types";
+
+/**
+ * POST /api/invitations/accept
+ *
+ * Activate an account with the token of its activation link: set the password and start a cookie session.
+ * Needs no session, the token is the proof of identity. Other sessions of the user are ended.
+ *
+ * Request Body:
+ * {
+ *   token: string,
+ *   password: string (8-72 characters, at least one letter and one digit)
+ * }
+ *
+ * Response: 200 OK LoginResponseDTO (sets the httpOnly session cookies)
+ *
+ * Errors:
+ * - 400: Validation error
+ * - 410: Invitation link expired (unknown, already used, resent, revoked or past its 24 hours)
+ * - 500: Server error
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, cookies, audit }) => {
+  // Parse and validate request body
+  const { token, password } = AcceptInvitationSchema.parse(await request.json());
+
+  const admin = createSupabaseAdminClient();
+
+  let invitation;
+  try {
+    invitation = await acceptInvitation(admin, token, password);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error accepting invitation:", error);
+    throw new ApiException(500, { error: "Failed to accept invitation" });
+  }
+
+  if (!invitation) {
+    throw new ApiException(410, { error: "Invitation link expired" });
+  }
+
+  const { data: invitedUser, error: userError } = await admin
+    .from("users")
+    .select("role")
+    .eq("id", invitation.user_id)
+    .single();
+
+  if (userError || !invitedUser) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching invited user:", userError);
+    throw new ApiException(500, { error: "Failed to sign in" });
+  }
+
+  // Sign in the same way as the login page would, with the address the link was sent to
+  const role = invitedUser.role as LoginResponseDTO["role"];
+  const { data, error } = await createSupabaseClient().auth.signInWithPassword(
+    invitation.channel === "email"
+      ? { email: invitation.recipient, password }
+      : { phone: invitation.recipient, password }
+  );
+
+  if (error || !data.session) {
+    // eslint-disable-next-line no-console
+    console.error("Error signing in after accepting invitation:", error);
+    throw new ApiException(500, { error: "Failed to sign in" });
+  }
+
+  setSessionCookies(cookies, data.session);
+
+  // The caller has no session to write the log as; the invitation row keeps accepted_at instead
+  audit.skip();
+
+  const response: LoginResponseDTO = {
+    role,
+    redirectTo: getRoleHomePath(role),
+  };
+
+  return createSuccessResponse(response);
+});
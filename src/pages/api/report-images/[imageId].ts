@@ -9,7 +9,7 @@ async function checkImageDeleteAccess(
   userId: string,
   userRole: string,
   imageId: string
-): Promise<{ hasAccess: boolean; image?: unknown }> {
+): Promise<{ hasAccess: boolean; image?: { storage_path: string; thumb_path: string | null } }> {
   // Get image with report and client info
   const { data: image, error } = await supabase
     .from("report_images")
@@ -18,6 +18,7 @@ async function checkImageDeleteAccess(
       id,
       report_id,
       storage_path,
+      thumb_path,
       is_deleted,
       reports!inner (
         client_id
@@ -65,7 +66,7 @@ async function checkImageDeleteAccess(
  * - 404: Image not found
  * - 500: Server error
  */
-export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }) => {
+export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -92,11 +93,12 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
 
   try {
     // Mark image as deleted in database
+    const deletedAt = new Date().toISOString();
     const { error: updateError } = await supabase
       .from("report_images")
       .update({
         is_deleted: true,
-        deleted_at: new Date().toISOString(),
+        deleted_at: deletedAt,
       })
       .eq("id", imageId);
 
@@ -106,11 +108,12 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
       throw new ApiException(500, { error: "Failed to delete image" });
     }
 
-    // Optionally delete from storage (in production, this might be done by a background job)
-    // For now, we'll just mark it as deleted in the database
-    // The actual file cleanup can be handled by a scheduled function
+    // Delete from storage right away; if that fails the image stays unpurged
+    // and the retention job (runImageRetention) removes the files later
     try {
-      const { error: storageError } = await supabase.storage.from("report-images").remove([image.storage_path]);
+      const { error: storageError } = await supabase.storage
+        .from("report-images")
+        .remove([image.storage_path, image.thumb_path].filter((path): path is string => !!path));
 
       if (storageError) {
         // eslint-disable-next-line no-console
@@ -118,7 +121,9 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
           "Warning: Failed to delete image from storage, but database record was marked as deleted:",
           storageError
         );
-        // Don't fail the request - the database record is marked as deleted
+        // Don't fail the request - the retention job retries unpurged images
+      } else {
+        await supabase.from("report_images").update({ purged_at: new Date().toISOString() }).eq("id", imageId);
       }
     } catch (storageError) {
       // eslint-disable-next-line no-console
@@ -126,6 +131,14 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
       // Don't fail the request - the database record is marked as deleted
     }
 
+    audit.record({
+      action: "delete",
+      entityType: "report_images",
+      entityId: imageId,
+      before: { storage_path: image.storage_path, is_deleted: false, deleted_at: null },
+      after: { storage_path: image.storage_path, is_deleted: true, deleted_at: deletedAt },
+    });
+
     return new Response(null, { status: 204 });
   } catch (error) {
     // If it's already an ApiException, re-throw it
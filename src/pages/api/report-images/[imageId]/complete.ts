@@ -0,0 +1,192 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  UuidParamSchema,
+  createSuccessResponse,
+  ApiException,
+  MAX_IMAGE_SIZE_BYTES,
+} from "../../../../lib/api-helpers";
+import type { SupabaseClient } from "../../../../db/supabase.client";
+import {
+  processReportImage,
+  readImageMetadata,
+  withSignedImageUrls,
+  REPORT_IMAGES_BUCKET,
+  type ProcessedImage,
+} from "../../../../lib/services/reportImageService";
+import type { Tables } from "../../../../db/database.types";
+
+type ReportImageRow = Tables<"report_images">;
+
+/**
+ * Helper function to load the image and check if user can complete its upload
+ */
+async function checkImageCompleteAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  userRole: string,
+  imageId: string
+): Promise<{ hasAccess: boolean; image?: ReportImageRow }> {
+  const { data, error } = await supabase
+    .from("report_images")
+    .select("*, reports!inner (client_id)")
+    .eq("id", imageId)
+    .eq("is_deleted", false)
+    .single();
+
+  if (error || !data) {
+    return { hasAccess: false };
+  }
+
+  const { reports, ...image } = data;
+
+  // Only the client owner (or super_admin) uploads images, so only they complete uploads
+  if ((userRole === "client" && userId === reports.client_id) || userRole === "super_admin") {
+    return { hasAccess: true, image };
+  }
+
+  return { hasAccess: false };
+}
+
+/**
+ * Helper function to drop an upload that failed verification
+ */
+async function rejectUpload(supabase: SupabaseClient, image: ReportImageRow): Promise<void> {
+  await supabase.storage.from(REPORT_IMAGES_BUCKET).remove([image.storage_path]);
+  await supabase
+    .from("report_images")
+    .update({ is_deleted: true, deleted_at: new Date().toISOString(), purged_at: new Date().toISOString() })
+    .eq("id", image.id);
+}
+
+/**
+ * POST /api/report-images/{imageId}/complete
+ *
+ * Confirm that the file for an image created by POST /api/reports/{reportId}/images/upload-url
+ * has been uploaded. The stored object is inspected, then replaced by a downscaled JPEG
+ * display rendition without EXIF/GPS metadata; a thumbnail and a blurhash placeholder
+ * are generated as well. The real size, type and pixel dimensions of the rendition
+ * replace the values declared by the client. Until then the image is not returned
+ * with the report, and unconfirmed images are swept after a timeout.
+ * Only the client who owns the report or super_admin can complete uploads.
+ *
+ * Path Parameters:
+ * - imageId: string (UUID, required)
+ *
+ * Response: 200 OK ReportImageDTO
+ *
+ * Note: Completing an already confirmed image is a no-op and returns the image.
+ * A file that is not a JPEG/PNG or exceeds 5 MB is removed and the image is marked as deleted.
+ *
+ * Errors:
+ * - 400: Invalid UUID format or the uploaded file is not a valid image
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not owner or super_admin)
+ * - 409: File has not been uploaded yet
+ * - 500: Server error
+ */
+export const POST: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id: imageId } = UuidParamSchema.parse({ id: params.imageId });
+
+  // Check authorization
+  const { hasAccess, image } = await checkImageCompleteAccess(
+    supabase,
+    authenticatedUser.id,
+    authenticatedUser.role,
+    imageId
+  );
+
+  if (!hasAccess || !image) {
+    throw new ApiException(403, {
+      error: "Access denied. Only the client who owns the report can complete image uploads (or super_admin).",
+    });
+  }
+
+  if (image.is_confirmed) {
+    audit.skip();
+    const [signedImage] = await withSignedImageUrls(supabase, [image]);
+    return createSuccessResponse(signedImage);
+  }
+
+  // Read the stored object
+  const { data: file, error: downloadError } = await supabase.storage
+    .from(REPORT_IMAGES_BUCKET)
+    .download(image.storage_path);
+
+  if (downloadError || !file) {
+    throw new ApiException(409, { error: "Image file has not been uploaded yet" });
+  }
+
+  // Verify what was actually uploaded
+  const original = new Uint8Array(await file.arrayBuffer());
+  const metadata = readImageMetadata(original);
+
+  if (!metadata || file.size > MAX_IMAGE_SIZE_BYTES) {
+    await rejectUpload(supabase, image);
+    throw new ApiException(400, {
+      error: "Uploaded file must be a JPEG or PNG image of at most 5MB",
+      details: { size: file.size, contentType: metadata?.contentType ?? null },
+    });
+  }
+
+  // Build the display rendition and thumbnail
+  let processed: ProcessedImage;
+  try {
+    processed = await processReportImage(supabase, image, original);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error processing image:", error);
+    throw new ApiException(500, { error: "Failed to process image" });
+  }
+
+  // Mark as confirmed with the properties of the stored rendition
+  const { data: confirmedImage, error: updateError } = await supabase
+    .from("report_images")
+    .update({
+      storage_path: processed.storagePath,
+      thumb_path: processed.thumbPath,
+      blurhash: processed.blurhash,
+      size_bytes: processed.sizeBytes,
+      content_type: "image/jpeg",
+      width: processed.width,
+      height: processed.height,
+      is_confirmed: true,
+      confirmed_at: new Date().toISOString(),
+      processed_at: new Date().toISOString(),
+    })
+    .eq("id", imageId)
+    .select()
+    .single();
+
+  if (updateError || !confirmedImage) {
+    // eslint-disable-next-line no-console
+    console.error("Error confirming image:", updateError);
+    throw new ApiException(500, { error: "Failed to confirm image upload" });
+  }
+
+  // A PNG original is not overwritten by the rendition, drop it (it may still carry metadata)
+  if (image.storage_path !== processed.storagePath) {
+    const { error: removeError } = await supabase.storage.from(REPORT_IMAGES_BUCKET).remove([image.storage_path]);
+
+    if (removeError) {
+      // eslint-disable-next-line no-console
+      console.warn("Warning: Failed to remove original image from storage:", removeError);
+    }
+  }
+
+  audit.record({
+    action: "update",
+    entityType: "report_images",
+    entityId: imageId,
+    before: image,
+    after: confirmedImage,
+  });
+
+  const [signedImage] = await withSignedImageUrls(supabase, [confirmedImage]);
+  return createSuccessResponse(signedImage);
+});
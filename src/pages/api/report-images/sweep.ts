@@ -0,0 +1,54 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  requireRole,
+  isSchedulerRequest,
+  getJobClient,
+  createSuccessResponse,
+  ApiException,
+} from "../../../lib/api-helpers";
+import { sweepUnconfirmedImages } from "../../../lib/services/reportImageService";
+
+/**
+ * POST /api/report-images/sweep
+ *
+ * Delete images whose upload was never completed (see POST /api/report-images/{imageId}/complete)
+ * within the timeout. Meant to be called periodically by a scheduler.
+ * Requires super_admin role, or the scheduler secret (`Authorization: Bearer <CRON_SECRET>`);
+ * scheduler runs use the service role, as they have no user to run as.
+ *
+ * Response: 200 OK
+ * {
+ *   swept: number,
+ *   failed: number
+ * }
+ *
+ * Errors:
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not super_admin)
+ * - 500: Server error
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, supabase, user, audit }) => {
+  // Authentication & Authorization
+  if (!isSchedulerRequest(request)) {
+    const authenticatedUser = requireAuth(user);
+    requireRole(authenticatedUser, ["super_admin"]);
+  }
+
+  try {
+    const result = await sweepUnconfirmedImages(getJobClient(request, supabase));
+
+    if (result.swept === 0 && result.failed === 0) {
+      audit.skip();
+    } else {
+      audit.record({ action: "run", entityType: "report_images", entityId: null, after: result });
+    }
+
+    return createSuccessResponse(result);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error sweeping unconfirmed images:", error);
+    throw new ApiException(500, { error: "Failed to sweep unconfirmed images" });
+  }
+});
@@ -8,7 +8,10 @@ import {
   canEditReport,
   ApiException,
 } from "../../../lib/api-helpers";
-import type { ReportDTO } from "../../../types";
+import { computeReportDeltas, fetchDeltaBaselines } from "../../../lib/services/reportDeltaService";
+import { withSignedImageUrls } from "../../../lib/services/reportImageService";
+import { evaluateGoalsForReport } from "../../../lib/services/goalService";
+import type { ReportDTO, ReportDetailDTO, ReportImageDTO } from "../../../types";
 
 /**
  * Helper function to check if user can access report
@@ -68,13 +71,13 @@ async function checkReportAccess(
 /**
  * GET /api/reports/{reportId}
  *
- * Get full report detail with images.
+ * Get full report detail with images and the diff vs the previous and the first report.
  * Accessible by the client themselves, their trainer, or super_admin.
  *
  * Path Parameters:
  * - reportId: string (UUID, required)
  *
- * Response: 200 OK ReportDTO
+ * Response: 200 OK ReportDetailDTO
  * {
  *   id: string,
  *   client_id: string,
@@ -92,9 +95,22 @@ async function checkReportAccess(
  *   note: string | null,
  *   created_at: string,
  *   deleted_at: string | null,
- *   images: ReportImageDTO[]
+ *   images: ReportImageDTO[],
+ *   previous: { id: string, created_at: string } | null,
+ *   first: { id: string, created_at: string } | null,
+ *   deltas: {
+ *     [metric]: {
+ *       sincePrevious: { absolute: number, percent: number | null } | null,
+ *       sinceFirst: { absolute: number, percent: number | null } | null
+ *     }
+ *   }
  * }
  *
+ * Note: `deltas` has an entry for every numeric measurement (weight ... cardio_days).
+ * A change is null when either report has no value for the metric; `first` is null
+ * when this report is the client's first one. Each image carries signed `url` and
+ * `thumb_url` valid until `urls_expire_at` (REPORT_IMAGE_URL_TTL_SECONDS, default 10 minutes).
+ *
  * Errors:
  * - 400: Invalid UUID format
  * - 401: Unauthenticated
@@ -162,16 +178,25 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
       id,
       report_id,
       storage_path,
+      thumb_path,
+      blurhash,
       size_bytes,
       width,
       height,
+      content_type,
       created_at,
       deleted_at,
-      is_deleted
+      is_deleted,
+      is_confirmed,
+      confirmed_at,
+      processed_at,
+      purged_at,
+      purge_attempts
     `
     )
     .eq("report_id", reportId)
     .eq("is_deleted", false)
+    .eq("is_confirmed", true)
     .order("created_at", { ascending: true });
 
   if (imagesError) {
@@ -180,10 +205,26 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
     throw new ApiException(500, { error: "Failed to fetch report images" });
   }
 
+  // Sign view URLs (access to the report was checked above)
+  let signedImages: ReportImageDTO[];
+  try {
+    signedImages = await withSignedImageUrls(supabase, images || []);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error creating image URLs:", error);
+    throw new ApiException(500, { error: "Failed to create image URLs" });
+  }
+
+  // Compute diff vs previous and first report
+  const { previous, first } = await fetchDeltaBaselines(supabase, report);
+
   // Transform to DTO
-  const reportDto: ReportDTO = {
+  const reportDto: ReportDetailDTO = {
     ...report,
-    images: images || [],
+    images: signedImages,
+    previous: previous ? { id: previous.id, created_at: previous.created_at } : null,
+    first: first ? { id: first.id, created_at: first.created_at } : null,
+    deltas: computeReportDeltas(report, previous, first),
   };
 
   return createSuccessResponse(reportDto);
@@ -200,19 +241,21 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
  *
  * Request Body:
  * {
- *   weight?: number,
- *   waist?: number,
- *   chest?: number,
- *   biceps_left?: number,
- *   biceps_right?: number,
- *   thigh_left?: number,
- *   thigh_right?: number,
- *   cardio_days?: number (0-7),
- *   note?: string
+ *   weight?: number | null,
+ *   waist?: number | null,
+ *   chest?: number | null,
+ *   biceps_left?: number | null,
+ *   biceps_right?: number | null,
+ *   thigh_left?: number | null,
+ *   thigh_right?: number | null,
+ *   cardio_days?: number | null (0-7),
+ *   note?: string | null
  * }
  *
  * Response: 200 OK ReportDTO
  *
+ * Note: null clears a saved value, omitted fields are left unchanged.
+ *
  * Errors:
  * - 400: Validation error or invalid UUID
  * - 401: Unauthenticated
@@ -220,7 +263,7 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
  * - 404: Report not found
  * - 500: Server error
  */
-export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -244,7 +287,7 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
   // Get full report details to check edit permissions
   const { data: report, error: reportError } = await supabase
     .from("reports")
-    .select("id, client_id, sequence, created_at")
+    .select("*")
     .eq("id", reportId)
     .is("deleted_at", null)
     .single();
@@ -325,6 +368,25 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
     throw new ApiException(500, { error: "Failed to update report" });
   }
 
+  audit.record({ action: "update", entityType: "reports", entityId: reportId, before: report, after: updatedReport });
+
+  // Corrected measurements may meet a goal
+  try {
+    const achievedGoalIds = await evaluateGoalsForReport(supabase, reportId);
+    achievedGoalIds.forEach((goalId) =>
+      audit.record({
+        action: "update",
+        entityType: "client_goals",
+        entityId: goalId,
+        before: { status: "active" },
+        after: { status: "achieved", achieved_report_id: reportId },
+      })
+    );
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error evaluating goals:", error);
+  }
+
   // Fetch associated images
   const { data: images, error: imagesError } = await supabase
     .from("report_images")
@@ -333,16 +395,25 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
       id,
       report_id,
       storage_path,
+      thumb_path,
+      blurhash,
       size_bytes,
       width,
       height,
+      content_type,
       created_at,
       deleted_at,
-      is_deleted
+      is_deleted,
+      is_confirmed,
+      confirmed_at,
+      processed_at,
+      purged_at,
+      purge_attempts
     `
     )
     .eq("report_id", reportId)
     .eq("is_deleted", false)
+    .eq("is_confirmed", true)
     .order("created_at", { ascending: true });
 
   if (imagesError) {
@@ -351,10 +422,20 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
     // Don't fail the update, just return empty images array
   }
 
+  // Sign view URLs (the editor passed the access check above)
+  let signedImages: ReportImageDTO[] = [];
+  try {
+    signedImages = await withSignedImageUrls(supabase, images || []);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error creating image URLs:", error);
+    // Don't fail the update, just return empty images array
+  }
+
   // Transform to DTO
   const reportDto: ReportDTO = {
     ...updatedReport,
-    images: images || [],
+    images: signedImages,
   };
 
   return createSuccessResponse(reportDto);
@@ -378,7 +459,7 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
  * - 404: Report not found
  * - 500: Server error
  */
-export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }) => {
+export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -402,7 +483,7 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
   // Get report details to check ownership
   const { data: report, error: reportError } = await supabase
     .from("reports")
-    .select("id, client_id")
+    .select("id, client_id, deleted_at")
     .eq("id", reportId)
     .is("deleted_at", null)
     .single();
@@ -419,10 +500,8 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
   }
 
   // Soft delete the report
-  const { error: deleteError } = await supabase
-    .from("reports")
-    .update({ deleted_at: new Date().toISOString() })
-    .eq("id", reportId);
+  const deletedAt = new Date().toISOString();
+  const { error: deleteError } = await supabase.from("reports").update({ deleted_at: deletedAt }).eq("id", reportId);
 
   if (deleteError) {
     // eslint-disable-next-line no-console
@@ -430,5 +509,13 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
     throw new ApiException(500, { error: "Failed to delete report" });
   }
 
+  audit.record({
+    action: "delete",
+    entityType: "reports",
+    entityId: reportId,
+    before: report,
+    after: { ...report, deleted_at: deletedAt },
+  });
+
   return new Response(null, { status: 204 });
 });
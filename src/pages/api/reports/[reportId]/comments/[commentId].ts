@@ -0,0 +1,206 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  UuidParamSchema,
+  ReportCommentSchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../../../lib/api-helpers";
+import type { SupabaseClient } from "../../../../../db/supabase.client";
+import { REPORT_COMMENT_SELECT, toReportCommentDTO } from "../../../../../lib/services/reportCommentService";
+
+/**
+ * Helper function to load a comment of a report and check if user can change it.
+ * Authors who still take part in the conversation can edit and delete; super_admin can delete.
+ */
+async function checkCommentChangeAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  userRole: string,
+  reportId: string,
+  commentId: string
+): Promise<{ hasAccess: boolean; comment?: { author_id: string | null; client_id: string; body: string } }> {
+  const { data: comment, error } = await supabase
+    .from("report_comments")
+    .select("author_id, body, report:reports!inner(client_id)")
+    .eq("id", commentId)
+    .eq("report_id", reportId)
+    .is("report.deleted_at", null)
+    .single();
+
+  if (error || !comment) {
+    return { hasAccess: false };
+  }
+
+  const found = { author_id: comment.author_id, client_id: comment.report.client_id, body: comment.body };
+
+  // Super admin can moderate any comment
+  if (userRole === "super_admin") {
+    return { hasAccess: true, comment: found };
+  }
+
+  if (comment.author_id !== userId) {
+    return { hasAccess: false, comment: found };
+  }
+
+  // Client can change their own comments on their own reports
+  if (userRole === "client") {
+    return { hasAccess: userId === found.client_id, comment: found };
+  }
+
+  // Trainer can change their own comments while still assigned to the client
+  if (userRole === "trainer") {
+    const { data: assignment, error: assignmentError } = await supabase
+      .from("trainer_client")
+      .select("client_id")
+      .eq("trainer_id", userId)
+      .eq("client_id", found.client_id)
+      .eq("is_active", true)
+      .single();
+
+    if (assignmentError && assignmentError.code !== "PGRST116") {
+      // eslint-disable-next-line no-console
+      console.error("Error checking trainer-client relationship:", assignmentError);
+      return { hasAccess: false, comment: found };
+    }
+
+    return { hasAccess: !!assignment, comment: found };
+  }
+
+  return { hasAccess: false, comment: found };
+}
+
+/**
+ * PATCH /api/reports/{reportId}/comments/{commentId}
+ *
+ * Edit a comment. Only its author can edit it.
+ *
+ * Path Parameters:
+ * - reportId: string (UUID, required)
+ * - commentId: string (UUID, required)
+ *
+ * Request Body:
+ * {
+ *   body: string (1-2000 characters)
+ * }
+ *
+ * Response: 200 OK ReportCommentDTO
+ *
+ * Note: An edited comment counts as unread again for the other side.
+ *
+ * Errors:
+ * - 400: Validation error or invalid UUID
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not the author)
+ * - 404: Comment not found
+ * - 500: Server error
+ */
+export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id: reportId } = UuidParamSchema.parse({ id: params.reportId });
+  const { id: commentId } = UuidParamSchema.parse({ id: params.commentId });
+
+  // Check authorization
+  const { hasAccess, comment } = await checkCommentChangeAccess(
+    supabase,
+    authenticatedUser.id,
+    authenticatedUser.role,
+    reportId,
+    commentId
+  );
+
+  if (!comment) {
+    throw new ApiException(404, { error: "Comment not found" });
+  }
+
+  // Moderation by super_admin is limited to deleting
+  if (!hasAccess || comment.author_id !== authenticatedUser.id) {
+    throw new ApiException(403, { error: "Access denied. You can only edit your own comments." });
+  }
+
+  // Parse and validate request body
+  const { body } = ReportCommentSchema.parse(await request.json());
+
+  const { data, error } = await supabase
+    .from("report_comments")
+    .update({ body, updated_at: new Date().toISOString(), read_at: null })
+    .eq("id", commentId)
+    .select(REPORT_COMMENT_SELECT)
+    .single();
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Error updating comment:", error);
+    throw new ApiException(500, { error: "Failed to update comment" });
+  }
+
+  audit.record({
+    action: "update",
+    entityType: "report_comments",
+    entityId: commentId,
+    before: { body: comment.body },
+    after: { body: data.body },
+  });
+
+  return createSuccessResponse(toReportCommentDTO(data));
+});
+
+/**
+ * DELETE /api/reports/{reportId}/comments/{commentId}
+ *
+ * Delete a comment. Accessible by its author or super_admin.
+ *
+ * Path Parameters:
+ * - reportId: string (UUID, required)
+ * - commentId: string (UUID, required)
+ *
+ * Response: 204 No Content
+ *
+ * Errors:
+ * - 400: Invalid UUID format
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not the author or super_admin)
+ * - 404: Comment not found
+ * - 500: Server error
+ */
+export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id: reportId } = UuidParamSchema.parse({ id: params.reportId });
+  const { id: commentId } = UuidParamSchema.parse({ id: params.commentId });
+
+  // Check authorization
+  const { hasAccess, comment } = await checkCommentChangeAccess(
+    supabase,
+    authenticatedUser.id,
+    authenticatedUser.role,
+    reportId,
+    commentId
+  );
+
+  if (!comment) {
+    throw new ApiException(404, { error: "Comment not found" });
+  }
+
+  if (!hasAccess) {
+    throw new ApiException(403, { error: "Access denied. You can only delete your own comments." });
+  }
+
+  const { error } = await supabase.from("report_comments").delete().eq("id", commentId);
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error deleting comment:", error);
+    throw new ApiException(500, { error: "Failed to delete comment" });
+  }
+
+  audit.record({ action: "delete", entityType: "report_comments", entityId: commentId, before: comment });
+
+  return new Response(null, { status: 204 });
+});
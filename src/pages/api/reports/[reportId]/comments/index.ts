@@ -0,0 +1,216 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  requireRole,
+  UuidParamSchema,
+  ReportCommentsQuerySchema,
+  ReportCommentSchema,
+  getPaginationRange,
+  calculatePagination,
+  createPaginatedResponse,
+  createSuccessResponse,
+  ApiException,
+} from "../../../../../lib/api-helpers";
+import type { SupabaseClient } from "../../../../../db/supabase.client";
+import { REPORT_COMMENT_SELECT, toReportCommentDTO } from "../../../../../lib/services/reportCommentService";
+
+/**
+ * Helper function to check if user can take part in a report's comments
+ */
+async function checkCommentAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  userRole: string,
+  reportId: string
+): Promise<boolean> {
+  // Get report with client info
+  const { data: report, error } = await supabase
+    .from("reports")
+    .select("client_id")
+    .eq("id", reportId)
+    .is("deleted_at", null)
+    .single();
+
+  if (error || !report) {
+    return false;
+  }
+
+  // Super admin can access any comments
+  if (userRole === "super_admin") {
+    return true;
+  }
+
+  // Client can access comments on their own reports
+  if (userRole === "client" && userId === report.client_id) {
+    return true;
+  }
+
+  // Trainer can access comments on their assigned clients' reports
+  if (userRole === "trainer") {
+    const { data: assignment, error: assignmentError } = await supabase
+      .from("trainer_client")
+      .select("client_id")
+      .eq("trainer_id", userId)
+      .eq("client_id", report.client_id)
+      .eq("is_active", true)
+      .single();
+
+    if (assignmentError && assignmentError.code !== "PGRST116") {
+      // eslint-disable-next-line no-console
+      console.error("Error checking trainer-client relationship:", assignmentError);
+      return false;
+    }
+
+    return !!assignment;
+  }
+
+  return false;
+}
+
+/**
+ * GET /api/reports/{reportId}/comments
+ *
+ * Comments on a report, oldest first.
+ * Accessible by the client themselves, their trainer, or super_admin.
+ *
+ * Path Parameters:
+ * - reportId: string (UUID, required)
+ *
+ * Query Parameters:
+ * - page: number (default: 1)
+ * - pageSize: number (default: 20, max: 100)
+ *
+ * Response: 200 OK
+ * {
+ *   data: ReportCommentDTO[],
+ *   meta: PaginationMeta
+ * }
+ *
+ * Note: Listing marks the returned comments of the other side (trainer for a client and vice versa)
+ * as read; the returned `read_at` values are from before that. Other pages stay unread.
+ *
+ * Errors:
+ * - 400: Invalid UUID format or query parameters
+ * - 401: Unauthenticated
+ * - 403: Forbidden or report not found
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id: reportId } = UuidParamSchema.parse({ id: params.reportId });
+
+  // Check authorization
+  const hasAccess = await checkCommentAccess(supabase, authenticatedUser.id, authenticatedUser.role, reportId);
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only view comments on your own or your assigned clients' reports.",
+    });
+  }
+
+  // Parse and validate query parameters
+  const url = new URL(request.url);
+  const { page, pageSize } = ReportCommentsQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+  const { from, to } = getPaginationRange(page, pageSize);
+  const { data, error, count } = await supabase
+    .from("report_comments")
+    .select(REPORT_COMMENT_SELECT, { count: "exact" })
+    .eq("report_id", reportId)
+    .order("created_at", { ascending: true })
+    .range(from, to);
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching comments:", error);
+    throw new ApiException(500, { error: "Failed to fetch comments" });
+  }
+
+  // Participants have now seen the other side's comments on this page
+  if (authenticatedUser.role !== "super_admin" && data.length > 0) {
+    const { error: readError } = await supabase.rpc("mark_report_comments_read", {
+      p_report_id: reportId,
+      p_comment_ids: data.map((comment) => comment.id),
+    });
+
+    if (readError) {
+      // eslint-disable-next-line no-console
+      console.error("Error marking comments as read:", readError);
+    }
+  }
+
+  return createPaginatedResponse(data.map(toReportCommentDTO), calculatePagination(page, pageSize, count || 0));
+});
+
+/**
+ * POST /api/reports/{reportId}/comments
+ *
+ * Add a comment to a report.
+ * Accessible by the client themselves and their trainer.
+ *
+ * Path Parameters:
+ * - reportId: string (UUID, required)
+ *
+ * Request Body:
+ * {
+ *   body: string (1-2000 characters)
+ * }
+ *
+ * Response: 201 Created ReportCommentDTO
+ *
+ * Errors:
+ * - 400: Validation error or invalid UUID
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not the client or their trainer) or report not found
+ * - 500: Server error
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+  requireRole(authenticatedUser, ["trainer", "client"]);
+
+  // Validate path parameters
+  const { id: reportId } = UuidParamSchema.parse({ id: params.reportId });
+
+  // Check authorization
+  const hasAccess = await checkCommentAccess(supabase, authenticatedUser.id, authenticatedUser.role, reportId);
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only comment on your own or your assigned clients' reports.",
+    });
+  }
+
+  // Parse and validate request body
+  const { body } = ReportCommentSchema.parse(await request.json());
+
+  const { data, error } = await supabase
+    .from("report_comments")
+    .insert({
+      report_id: reportId,
+      author_id: authenticatedUser.id,
+      author_role: authenticatedUser.role,
+      body,
+    })
+    .select(REPORT_COMMENT_SELECT)
+    .single();
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Error creating comment:", error);
+    throw new ApiException(500, { error: "Failed to create comment" });
+  }
+
+  audit.record({
+    action: "create",
+    entityType: "report_comments",
+    entityId: data.id,
+    after: { report_id: data.report_id, author_id: data.author_id, body: data.body },
+  });
+
+  return createSuccessResponse(toReportCommentDTO(data), 201);
+});
@@ -7,6 +7,7 @@ import {
   createSuccessResponse,
   ApiException,
 } from "../../../../../lib/api-helpers";
+import { UNCONFIRMED_IMAGE_TIMEOUT_MS } from "../../../../../lib/services/reportImageService";
 
 /**
  * Helper function to check if user can upload images to report
@@ -50,6 +51,8 @@ async function checkImageUploadAccess(
  * Returns presigned URL for uploading one image to a report.
  * Limits: 3 images per report, 5 MB each, JPEG/PNG only.
  * Only the client who owns the report can upload images.
+ * After the upload the client must call POST /api/report-images/{imageId}/complete,
+ * otherwise the image is never shown and gets swept.
  *
  * Path Parameters:
  * - reportId: string (UUID, required)
@@ -74,7 +77,7 @@ async function checkImageUploadAccess(
  * - 404: Report not found
  * - 500: Server error
  */
-export const POST: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+export const POST: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -99,12 +102,14 @@ export const POST: APIRoute = createApiRoute(async ({ request, params, supabase,
   const body = await request.json();
   const { contentType, size } = ImageUploadRequestSchema.parse(body);
 
-  // Check how many images already exist for this report
+  // Check how many images already exist for this report (abandoned uploads don't count)
+  const pendingCutoff = new Date(Date.now() - UNCONFIRMED_IMAGE_TIMEOUT_MS).toISOString();
   const { data: existingImages, error: countError } = await supabase
     .from("report_images")
     .select("id")
     .eq("report_id", reportId)
-    .eq("is_deleted", false);
+    .eq("is_deleted", false)
+    .or(`is_confirmed.eq.true,created_at.gte.${pendingCutoff}`);
 
   if (countError) {
     // eslint-disable-next-line no-console
@@ -140,17 +145,16 @@ export const POST: APIRoute = createApiRoute(async ({ request, params, supabase,
     }
 
     // Create database record for the image (pre-upload)
-    const { error: insertError } = await supabase
-      .from("report_images")
-      .insert({
-        id: imageId,
-        report_id: reportId,
-        storage_path: storagePath,
-        size_bytes: size,
-        width: null, // Will be updated after upload
-        height: null, // Will be updated after upload
-        is_deleted: false,
-      });
+    const { error: insertError } = await supabase.from("report_images").insert({
+      id: imageId,
+      report_id: reportId,
+      storage_path: storagePath,
+      size_bytes: size, // Declared by the client, replaced on completion
+      width: null, // Will be updated after upload
+      height: null, // Will be updated after upload
+      is_deleted: false,
+      is_confirmed: false,
+    });
 
     if (insertError) {
       // eslint-disable-next-line no-console
@@ -158,6 +162,13 @@ export const POST: APIRoute = createApiRoute(async ({ request, params, supabase,
       throw new ApiException(500, { error: "Failed to create image record" });
     }
 
+    audit.record({
+      action: "create",
+      entityType: "report_images",
+      entityId: imageId,
+      after: { report_id: reportId, storage_path: storagePath, size_bytes: size, is_confirmed: false },
+    });
+
     return createSuccessResponse({
       url: uploadData.signedUrl,
       storagePath: storagePath,
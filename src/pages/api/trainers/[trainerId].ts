@@ -8,7 +8,8 @@ import {
   createSuccessResponse,
   ApiException,
 } from "../../../lib/api-helpers";
-import type { TrainerDTO } from "../../../types";
+import { fetchActivationStatus } from "../../../lib/services/activationStatusService";
+import type { ActivationStatus, TrainerDTO } from "../../../types";
 
 /**
  * GET /api/trainers/{trainerId}
@@ -82,6 +83,15 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
     throw new ApiException(404, { error: "Trainer not found" });
   }
 
+  let activationStatus: ActivationStatus;
+  try {
+    activationStatus = await fetchActivationStatus(supabase, trainerId);
+  } catch (activationError) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching activation status:", activationError);
+    throw new ApiException(500, { error: "Failed to fetch trainer" });
+  }
+
   // Transform to DTO
   const trainerDto: TrainerDTO = {
     id: data.id,
@@ -90,6 +100,7 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
     phone: data.phone,
     role: data.role,
     bio: data.trainers?.[0]?.bio || null,
+    activationStatus,
   };
 
   return createSuccessResponse(trainerDto);
@@ -117,7 +128,7 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
  * - 403: Forbidden (not self or super_admin)
  * - 404: Trainer not found
  */
-export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -143,7 +154,7 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
   // First check if trainer exists
   const { data: existingTrainer, error: fetchError } = await supabase
     .from("users")
-    .select("id")
+    .select("id, full_name, trainers ( bio )")
     .eq("id", trainerId)
     .eq("role", "trainer")
     .is("deleted_at", null)
@@ -200,6 +211,8 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
       throw new ApiException(500, { error: "Failed to fetch updated trainer data" });
     }
 
+    const activationStatus = await fetchActivationStatus(supabase, trainerId);
+
     // Transform to DTO
     const trainerDto: TrainerDTO = {
       id: updatedData.id,
@@ -208,8 +221,17 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
       phone: updatedData.phone,
       role: updatedData.role,
       bio: updatedData.trainers?.[0]?.bio || null,
+      activationStatus,
     };
 
+    audit.record({
+      action: "update",
+      entityType: "trainers",
+      entityId: trainerId,
+      before: { full_name: existingTrainer.full_name, bio: existingTrainer.trainers?.bio || null },
+      after: { full_name: trainerDto.full_name, bio: trainerDto.bio },
+    });
+
     return createSuccessResponse(trainerDto);
   } catch (error) {
     // If it's already an ApiException, re-throw it
@@ -33,7 +33,7 @@ import type { TrainerClientAssignmentDTO } from "../../../../../../types";
  * - 404: Trainer, client, or assignment not found
  * - 500: Server error
  */
-export const POST: APIRoute = createApiRoute(async ({ params, supabase, user }) => {
+export const POST: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -133,5 +133,13 @@ export const POST: APIRoute = createApiRoute(async ({ params, supabase, user })
     assignmentData = newAssignment;
   }
 
+  audit.record({
+    action: "activate",
+    entityType: "trainer_client",
+    entityId: `${trainerId}:${clientId}`,
+    before: existingAssignment,
+    after: assignmentData,
+  });
+
   return createSuccessResponse(assignmentData);
 });
@@ -34,7 +34,7 @@ import type { TrainerClientAssignmentDTO } from "../../../../../../types";
  * - 404: Trainer, client, or assignment not found
  * - 500: Server error
  */
-export const POST: APIRoute = createApiRoute(async ({ params, supabase, user }) => {
+export const POST: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
 
@@ -108,5 +108,13 @@ export const POST: APIRoute = createApiRoute(async ({ params, supabase, user })
     throw new ApiException(500, { error: "Failed to deactivate assignment" });
   }
 
+  audit.record({
+    action: "deactivate",
+    entityType: "trainer_client",
+    entityId: `${trainerId}:${clientId}`,
+    before: existingAssignment,
+    after: updatedAssignment,
+  });
+
   return createSuccessResponse(updatedAssignment);
 });
@@ -0,0 +1,85 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  UuidParamSchema,
+  ComplianceQuerySchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../../lib/api-helpers";
+import { buildTrainerCompliance } from "../../../../lib/services/complianceService";
+
+/**
+ * GET /api/trainers/{trainerId}/compliance
+ *
+ * Weekly report submission rate of a trainer's active clients.
+ * Accessible by the trainer themselves or super_admin.
+ *
+ * Path Parameters:
+ * - trainerId: string (UUID, required)
+ *
+ * Query Parameters:
+ * - weeks: number (default: 12, max: 52, ISO weeks ending with the current one)
+ *
+ * Response: 200 OK TrainerComplianceDTO
+ * {
+ *   trainerId: string,
+ *   targetRate: number (80),
+ *   overallRate: number | null,
+ *   weeks: {
+ *     year, weekNumber, weekStart, isCurrent,
+ *     expectedCount, submittedCount, submissionRate,
+ *     submitted: { clientId, fullName }[],
+ *     missing: { clientId, fullName }[]
+ *   }[],
+ *   clients: { clientId, fullName, expectedWeeks, submittedWeeks, complianceRate }[]
+ * }
+ *
+ * Note: Rates are percentages with one decimal. Weeks are the ISO weeks (UTC) stored on
+ * reports, as in the client list's `hasReportForWeek`. A client counts from the week their
+ * assignment started. The current week is included while still in progress (`isCurrent`).
+ *
+ * Errors:
+ * - 400: Invalid UUID format or query parameters
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not self or super_admin)
+ * - 404: Trainer not found
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id: trainerId } = UuidParamSchema.parse({ id: params.trainerId });
+
+  // Check authorization: self or super_admin
+  if (authenticatedUser.role !== "super_admin" && authenticatedUser.id !== trainerId) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only view your own compliance or be a super admin.",
+    });
+  }
+
+  // Parse and validate query parameters
+  const url = new URL(request.url);
+  const { weeks } = ComplianceQuerySchema.parse(Object.fromEntries(url.searchParams.entries()));
+
+  // Check if trainer exists
+  const { data: trainer, error: trainerError } = await supabase
+    .from("trainers")
+    .select("id")
+    .eq("id", trainerId)
+    .single();
+
+  if (trainerError || !trainer) {
+    throw new ApiException(404, { error: "Trainer not found" });
+  }
+
+  try {
+    return createSuccessResponse(await buildTrainerCompliance(supabase, trainerId, weeks));
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error building compliance:", error);
+    throw new ApiException(500, { error: "Failed to fetch compliance" });
+  }
+});
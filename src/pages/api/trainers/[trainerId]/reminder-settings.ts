@@ -0,0 +1,160 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  UuidParamSchema,
+  ReminderSettingsSchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../../lib/api-helpers";
+import { getDefaultReminderSettings } from "../../../../lib/services/reminderScheduleService";
+import type { TrainerReminderSettingsDTO } from "../../../../types";
+
+/**
+ * GET /api/trainers/{trainerId}/reminder-settings
+ *
+ * Weekly schedule of automatic report reminders of a trainer.
+ * Accessible by the trainer themselves or super_admin.
+ *
+ * Path Parameters:
+ * - trainerId: string (UUID, required)
+ *
+ * Response: 200 OK TrainerReminderSettingsDTO
+ * {
+ *   trainer_id: string,
+ *   enabled: boolean,
+ *   weekday: number (ISO, 1 = Monday),
+ *   hour: number (0-23),
+ *   timezone: string,
+ *   updated_at: string | null
+ * }
+ *
+ * Note: Trainers that never saved a schedule get the disabled default (`updated_at` null).
+ *
+ * Errors:
+ * - 400: Invalid UUID format
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not self or super_admin)
+ * - 500: Server error
+ */
+export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id: trainerId } = UuidParamSchema.parse({ id: params.trainerId });
+
+  // Check authorization: self or super_admin
+  if (authenticatedUser.role !== "super_admin" && authenticatedUser.id !== trainerId) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only view your own reminder settings or be a super admin.",
+    });
+  }
+
+  const { data, error } = await supabase
+    .from("trainer_reminder_settings")
+    .select("*")
+    .eq("trainer_id", trainerId)
+    .maybeSingle();
+
+  if (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching reminder settings:", error);
+    throw new ApiException(500, { error: "Failed to fetch reminder settings" });
+  }
+
+  const settings: TrainerReminderSettingsDTO = data ?? getDefaultReminderSettings(trainerId);
+
+  return createSuccessResponse(settings);
+});
+
+/**
+ * PUT /api/trainers/{trainerId}/reminder-settings
+ *
+ * Save the weekly reminder schedule. When enabled, every active client without a report
+ * in the current ISO week is reminded once on `weekday` at `hour` (in `timezone`).
+ * Accessible by the trainer themselves or super_admin.
+ *
+ * Path Parameters:
+ * - trainerId: string (UUID, required)
+ *
+ * Request Body:
+ * {
+ *   enabled: boolean,
+ *   weekday: number (1-7, 1 = Monday),
+ *   hour: number (0-23),
+ *   timezone: string (IANA name, e.g. "Europe/Warsaw")
+ * }
+ *
+ * Response: 200 OK TrainerReminderSettingsDTO
+ *
+ * Errors:
+ * - 400: Validation error or invalid UUID
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not self or super_admin)
+ * - 404: Trainer not found
+ * - 500: Server error
+ */
+export const PUT: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id: trainerId } = UuidParamSchema.parse({ id: params.trainerId });
+
+  // Check authorization: self or super_admin
+  if (authenticatedUser.role !== "super_admin" && authenticatedUser.id !== trainerId) {
+    throw new ApiException(403, {
+      error: "Access denied. You can only update your own reminder settings or be a super admin.",
+    });
+  }
+
+  // Parse and validate request body
+  const body = await request.json();
+  const { enabled, weekday, hour, timezone } = ReminderSettingsSchema.parse(body);
+
+  // Check if trainer exists
+  const { data: trainer, error: trainerError } = await supabase
+    .from("trainers")
+    .select("id")
+    .eq("id", trainerId)
+    .single();
+
+  if (trainerError || !trainer) {
+    throw new ApiException(404, { error: "Trainer not found" });
+  }
+
+  const { data: previous, error: previousError } = await supabase
+    .from("trainer_reminder_settings")
+    .select("*")
+    .eq("trainer_id", trainerId)
+    .maybeSingle();
+
+  if (previousError) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching reminder settings:", previousError);
+    throw new ApiException(500, { error: "Failed to fetch reminder settings" });
+  }
+
+  const { data, error } = await supabase
+    .from("trainer_reminder_settings")
+    .upsert({ trainer_id: trainerId, enabled, weekday, hour, timezone, updated_at: new Date().toISOString() })
+    .select()
+    .single();
+
+  if (error || !data) {
+    // eslint-disable-next-line no-console
+    console.error("Error saving reminder settings:", error);
+    throw new ApiException(500, { error: "Failed to save reminder settings" });
+  }
+
+  audit.record({
+    action: previous ? "update" : "create",
+    entityType: "trainer_reminder_settings",
+    entityId: trainerId,
+    before: previous,
+    after: data,
+  });
+
+  return createSuccessResponse(data satisfies TrainerReminderSettingsDTO);
+});
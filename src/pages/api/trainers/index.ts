@@ -9,15 +9,16 @@ import {
   calculatePagination,
   createPaginatedResponse,
   createSuccessResponse,
-  inviteUser,
   ApiException,
 } from "../../../lib/api-helpers";
-import type { TrainerDTO } from "../../../types";
+import { sendInvitation } from "../../../lib/services/invitationService";
+import { fetchActivationStatuses } from "../../../lib/services/activationStatusService";
+import type { ActivationStatus, TrainerDTO } from "../../../types";
 
 /**
  * POST /api/trainers
  *
- * Create trainer and send invitation via Supabase Auth.
+ * Create trainer and email them an activation link.
  * Requires super_admin role.
  *
  * Request Body:
@@ -28,6 +29,8 @@ import type { TrainerDTO } from "../../../types";
  *
  * Response: 201 Created TrainerDTO
  *
+ * Note: The link is valid for INVITATION_TTL_HOURS (24) hours; the trainer stays "pending" until it is accepted.
+ *
  * Errors:
  * - 400: Validation error
  * - 401: Unauthenticated
@@ -35,7 +38,7 @@ import type { TrainerDTO } from "../../../types";
  * - 409: Email already exists
  * - 500: Server error
  */
-export const POST: APIRoute = createApiRoute(async ({ request, supabase, user }) => {
+export const POST: APIRoute = createApiRoute(async ({ request, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
   requireRole(authenticatedUser, ["super_admin"]);
@@ -74,6 +77,7 @@ export const POST: APIRoute = createApiRoute(async ({ request, supabase, user })
       full_name: fullName,
       email: email,
       role: "trainer",
+      must_change_password: true,
     });
 
     if (userError) {
@@ -94,8 +98,13 @@ export const POST: APIRoute = createApiRoute(async ({ request, supabase, user })
       throw new ApiException(500, { error: "Failed to create trainer profile" });
     }
 
-    // Send invitation via Supabase Auth
-    await inviteUser(supabase, email);
+    // Send the activation link; a failed delivery is kept on the invitation and can be resent
+    const invitation = await sendInvitation(
+      supabase,
+      { userId, fullName, email, phone: null },
+      { createdBy: authenticatedUser.id, origin: new URL(request.url).origin }
+    );
+    audit.record({ action: "create", entityType: "invitations", entityId: invitation.id, after: invitation });
 
     // Fetch the created trainer with user data
     const { data: trainerData, error: fetchError } = await supabase
@@ -128,8 +137,11 @@ export const POST: APIRoute = createApiRoute(async ({ request, supabase, user })
       phone: trainerData.phone,
       role: trainerData.role,
       bio: trainerData.trainers?.[0]?.bio || null,
+      activationStatus: "pending",
     };
 
+    audit.record({ action: "create", entityType: "trainers", entityId: userId, after: trainerDto });
+
     return createSuccessResponse(trainerDto, 201);
   } catch (error) {
     // If it's already an ApiException, re-throw it
@@ -213,6 +225,18 @@ export const GET: APIRoute = createApiRoute(async ({ request, supabase, user })
     throw new ApiException(500, { error: "No data returned from query" });
   }
 
+  let activationStatuses: Map<string, ActivationStatus>;
+  try {
+    activationStatuses = await fetchActivationStatuses(
+      supabase,
+      data.map((trainer) => trainer.id)
+    );
+  } catch (activationError) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching activation statuses:", activationError);
+    throw new ApiException(500, { error: "Failed to fetch trainers" });
+  }
+
   // Transform to DTOs
   const trainers: TrainerDTO[] = data.map((trainer) => ({
     id: trainer.id,
@@ -221,6 +245,7 @@ export const GET: APIRoute = createApiRoute(async ({ request, supabase, user })
     phone: trainer.phone,
     role: trainer.role,
     bio: trainer.trainers?.[0]?.bio || null,
+    activationStatus: activationStatuses.get(trainer.id) ?? "pending",
   }));
 
   // Calculate pagination metadata
@@ -98,7 +98,7 @@ export const GET: APIRoute = createApiRoute(async ({ params, supabase, user }) =
  * - 403: Insufficient permissions
  * - 404: User not found
  */
-export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user }) => {
+export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
   requireRole(authenticatedUser, ["super_admin"]);
@@ -137,7 +137,7 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
   // First check if user exists
   const { data: existingUser, error: fetchError } = await supabase
     .from("users")
-    .select("id")
+    .select("id, full_name, email, phone, role")
     .eq("id", id)
     .is("deleted_at", null)
     .single();
@@ -172,6 +172,8 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
     role: data.role,
   };
 
+  audit.record({ action: "update", entityType: "users", entityId: id, before: existingUser, after: data });
+
   return createSuccessResponse(userDto);
 });
 
@@ -192,7 +194,7 @@ export const PATCH: APIRoute = createApiRoute(async ({ request, params, supabase
  * - 403: Insufficient permissions
  * - 404: User not found
  */
-export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }) => {
+export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
   // Authentication & Authorization
   const authenticatedUser = requireAuth(user);
   requireRole(authenticatedUser, ["super_admin"]);
@@ -203,7 +205,7 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
   // First check if user exists and is not already deleted
   const { data: existingUser, error: fetchError } = await supabase
     .from("users")
-    .select("id")
+    .select("id, deleted_at")
     .eq("id", id)
     .is("deleted_at", null)
     .single();
@@ -213,12 +215,21 @@ export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user }
   }
 
   // Soft delete the user
-  const { error } = await supabase.from("users").update({ deleted_at: new Date().toISOString() }).eq("id", id);
+  const deletedAt = new Date().toISOString();
+  const { error } = await supabase.from("users").update({ deleted_at: deletedAt }).eq("id", id);
 
   if (error) {
     console.error("Error deleting user:", error);
     throw new ApiException(500, { error: "Failed to delete user" });
   }
 
+  audit.record({
+    action: "delete",
+    entityType: "users",
+    entityId: id,
+    before: existingUser,
+    after: { ...existingUser, deleted_at: deletedAt },
+  });
+
   return new Response(null, { status: 204 });
 });
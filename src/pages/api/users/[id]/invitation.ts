@@ -0,0 +1,189 @@
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  UuidParamSchema,
+  createSuccessResponse,
+  ApiException,
+  type AuthenticatedUser,
+} from "../../../../lib/api-helpers";
+import type { SupabaseClient } from "../../../../db/supabase.client";
+import { fetchActivationStatus } from "../../../../lib/services/activationStatusService";
+import { getNotificationAddress } from "../../../../lib/services/notifierService";
+import {
+  revokeInvitations,
+  sendInvitation,
+  type InvitationRecipient,
+} from "../../../../lib/services/invitationService";
+
+/**
+ * Invitations are managed by super admins for any trainer or client,
+ * and by trainers for their active clients.
+ */
+async function getInvitableUser(
+  supabase: SupabaseClient,
+  authenticatedUser: AuthenticatedUser,
+  userId: string
+): Promise<InvitationRecipient> {
+  if (authenticatedUser.role === "trainer") {
+    const { data, error } = await supabase
+      .from("trainer_client")
+      .select("client_id")
+      .eq("trainer_id", authenticatedUser.id)
+      .eq("client_id", userId)
+      .eq("is_active", true)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      // eslint-disable-next-line no-console
+      console.error("Error checking trainer-client relationship:", error);
+      throw new ApiException(500, { error: "Failed to verify permissions" });
+    }
+
+    if (!data) {
+      throw new ApiException(403, {
+        error: "Access denied. Only trainers can invite their assigned clients or super admins.",
+      });
+    }
+  } else if (authenticatedUser.role !== "super_admin") {
+    throw new ApiException(403, {
+      error: "Access denied. Only trainers can invite their assigned clients or super admins.",
+    });
+  }
+
+  const { data: invitedUser, error: fetchError } = await supabase
+    .from("users")
+    .select("id, full_name, email, phone")
+    .eq("id", userId)
+    .in("role", ["trainer", "client"])
+    .is("deleted_at", null)
+    .single();
+
+  if (fetchError || !invitedUser) {
+    throw new ApiException(404, { error: "User not found" });
+  }
+
+  return {
+    userId: invitedUser.id,
+    fullName: invitedUser.full_name,
+    email: invitedUser.email,
+    phone: invitedUser.phone,
+  };
+}
+
+/**
+ * POST /api/users/{id}/invitation
+ *
+ * Resend the activation link of a trainer or client who has not activated their account.
+ * Requires trainer (for their clients) or super_admin role.
+ *
+ * Path Parameters:
+ * - id: string (UUID, required)
+ *
+ * Response: 201 Created InvitationDTO
+ *
+ * Note: Links sent earlier stop working. A failed delivery is reported in `error`
+ * of the returned invitation, the new link stays valid.
+ *
+ * Errors:
+ * - 400: Invalid UUID format
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not trainer of client or super_admin)
+ * - 404: User not found
+ * - 409: User already activated their account
+ * - 422: User has no email or phone to send the link to
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id } = UuidParamSchema.parse(params);
+
+  const recipient = await getInvitableUser(supabase, authenticatedUser, id);
+
+  let activationStatus;
+  try {
+    activationStatus = await fetchActivationStatus(supabase, id);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error fetching activation status:", error);
+    throw new ApiException(500, { error: "Failed to fetch activation status" });
+  }
+
+  if (activationStatus === "active") {
+    throw new ApiException(409, { error: "User already activated their account" });
+  }
+
+  if (!getNotificationAddress(recipient)) {
+    throw new ApiException(422, { error: "User has no email or phone to send the invitation to" });
+  }
+
+  let invitation;
+  try {
+    invitation = await sendInvitation(supabase, recipient, {
+      createdBy: authenticatedUser.id,
+      origin: new URL(request.url).origin,
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error sending invitation:", error);
+    throw new ApiException(500, { error: "Failed to send invitation" });
+  }
+
+  audit.record({ action: "create", entityType: "invitations", entityId: invitation.id, after: invitation });
+
+  return createSuccessResponse(invitation, 201);
+});
+
+/**
+ * DELETE /api/users/{id}/invitation
+ *
+ * Revoke the unused activation link of a trainer or client, so it says "link expired" when opened.
+ * Requires trainer (for their clients) or super_admin role.
+ *
+ * Path Parameters:
+ * - id: string (UUID, required)
+ *
+ * Response: 204 No Content
+ *
+ * Errors:
+ * - 400: Invalid UUID format
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not trainer of client or super_admin)
+ * - 404: User not found or no pending invitation
+ */
+export const DELETE: APIRoute = createApiRoute(async ({ params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id } = UuidParamSchema.parse(params);
+
+  await getInvitableUser(supabase, authenticatedUser, id);
+
+  let revoked;
+  try {
+    revoked = await revokeInvitations(supabase, id);
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error revoking invitation:", error);
+    throw new ApiException(500, { error: "Failed to revoke invitation" });
+  }
+
+  if (revoked.length === 0) {
+    throw new ApiException(404, { error: "No pending invitation" });
+  }
+
+  revoked.forEach((invitation) => {
+    audit.record({
+      action: "update",
+      entityType: "invitations",
+      entityId: invitation.id,
+      before: { ...invitation, status: "sent" },
+      after: invitation,
+    });
+  });
+
+  return new Response(null, { status: 204 });
+});
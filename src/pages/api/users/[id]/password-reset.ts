@@ -0,0 +1,159 @@
+import { randomBytes } from "node:crypto";
+import type { APIRoute } from "astro";
+import {
+  createApiRoute,
+  requireAuth,
+  UuidParamSchema,
+  createSuccessResponse,
+  ApiException,
+} from "../../../../lib/api-helpers";
+import { createSupabaseAdminClient } from "../../../../db/supabase.client";
+import { sendInvitation } from "../../../../lib/services/invitationService";
+import { getNotificationAddress } from "../../../../lib/services/notifierService";
+import type { PasswordResetDTO } from "../../../../types";
+
+/**
+ * POST /api/users/{id}/password-reset
+ *
+ * Reset the password of a trainer or client: the old password stops working, they are signed out
+ * everywhere and get a one-time link to set a new password, the same way activation links are sent.
+ * Requires trainer (for their clients) or super_admin role.
+ *
+ * Path Parameters:
+ * - id: string (UUID, required)
+ *
+ * Response: 201 Created PasswordResetDTO
+ * {
+ *   revokedSessions: number,
+ *   invitation: InvitationDTO
+ * }
+ *
+ * Note: Sessions end right away, requests with their tokens get 401. The link is valid for
+ * INVITATION_TTL_HOURS (24) hours and replaces any unused activation link. A failed delivery
+ * is reported in `invitation.error`; the link can be sent again with POST /api/users/{id}/invitation.
+ *
+ * Errors:
+ * - 400: Invalid UUID format
+ * - 401: Unauthenticated
+ * - 403: Forbidden (not trainer of client or super_admin)
+ * - 404: User not found
+ * - 422: User has no email or phone to send the link to
+ */
+export const POST: APIRoute = createApiRoute(async ({ request, params, supabase, user, audit }) => {
+  // Authentication & Authorization
+  const authenticatedUser = requireAuth(user);
+
+  // Validate path parameters
+  const { id } = UuidParamSchema.parse(params);
+
+  // Same rules as deleting a client: super admins, or the trainer of an active client
+  let hasAccess = false;
+
+  if (authenticatedUser.role === "super_admin") {
+    hasAccess = true;
+  } else if (authenticatedUser.role === "trainer") {
+    const { data, error } = await supabase
+      .from("trainer_client")
+      .select("client_id")
+      .eq("trainer_id", authenticatedUser.id)
+      .eq("client_id", id)
+      .eq("is_active", true)
+      .single();
+
+    if (error && error.code !== "PGRST116") {
+      // eslint-disable-next-line no-console
+      console.error("Error checking trainer-client relationship:", error);
+      throw new ApiException(500, { error: "Failed to verify permissions" });
+    }
+
+    hasAccess = !!data;
+  }
+
+  if (!hasAccess) {
+    throw new ApiException(403, {
+      error: "Access denied. Only trainers can reset passwords of their assigned clients or super admins.",
+    });
+  }
+
+  const { data: existingUser, error: fetchError } = await supabase
+    .from("users")
+    .select("id, full_name, email, phone, must_change_password")
+    .eq("id", id)
+    .in("role", ["trainer", "client"])
+    .is("deleted_at", null)
+    .single();
+
+  if (fetchError || !existingUser) {
+    throw new ApiException(404, { error: "User not found" });
+  }
+
+  const recipient = {
+    userId: existingUser.id,
+    fullName: existingUser.full_name,
+    email: existingUser.email,
+    phone: existingUser.phone,
+  };
+
+  if (!getNotificationAddress(recipient)) {
+    throw new ApiException(422, { error: "User has no email or phone to send the reset link to" });
+  }
+
+  const admin = createSupabaseAdminClient();
+
+  // Replace the password with a secret nobody knows, so only the link can set the next one
+  const { error: passwordError } = await admin.auth.admin.updateUserById(id, {
+    password: randomBytes(32).toString("base64url"),
+  });
+
+  if (passwordError) {
+    // eslint-disable-next-line no-console
+    console.error("Error invalidating password:", passwordError);
+    throw new ApiException(500, { error: "Failed to reset password" });
+  }
+
+  // End the sessions too, so a stolen session cannot outlive the reset
+  const { data: revokedSessions, error: revokeError } = await supabase.rpc("revoke_user_sessions", {
+    p_user_id: id,
+  });
+
+  if (revokeError) {
+    // eslint-disable-next-line no-console
+    console.error("Error revoking sessions:", revokeError);
+    throw new ApiException(500, { error: "Failed to revoke sessions" });
+  }
+
+  // Users cannot be updated by trainers under RLS, and access was checked above
+  const { error: flagError } = await admin.from("users").update({ must_change_password: true }).eq("id", id);
+
+  if (flagError) {
+    // eslint-disable-next-line no-console
+    console.error("Error flagging password change:", flagError);
+    throw new ApiException(500, { error: "Failed to reset password" });
+  }
+
+  let invitation;
+  try {
+    invitation = await sendInvitation(supabase, recipient, {
+      createdBy: authenticatedUser.id,
+      origin: new URL(request.url).origin,
+      passwordReset: true,
+    });
+  } catch (error) {
+    // eslint-disable-next-line no-console
+    console.error("Error sending password reset link:", error);
+    throw new ApiException(500, { error: "Failed to send password reset link" });
+  }
+
+  audit.record({
+    action: "update",
+    entityType: "users",
+    entityId: id,
+    before: { must_change_password: existingUser.must_change_password },
+    after: { must_change_password: true, password_invalidated: true, revoked_sessions: revokedSessions },
+  });
+  audit.record({ action: "create", entityType: "invitations", entityId: invitation.id, after: invitation });
+
+  const response: PasswordResetDTO = { revokedSessions, invitation };
+
+  return createSuccessResponse(response, 201);
+});
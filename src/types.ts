@@ -16,6 +16,14 @@ type ClientRow = Tables<"clients">;
 type ReportRow = Tables<"reports">;
 type ReportImageRow = Tables<"report_images">;
 type TrainerClientRow = Tables<"trainer_client">;
+type ImageRetentionRunRow = Tables<"image_retention_runs">;
+type ReportReminderRow = Tables<"report_reminders">;
+type TrainerReminderSettingsRow = Tables<"trainer_reminder_settings">;
+type ReminderRunRow = Tables<"reminder_runs">;
+type ReportCommentRow = Tables<"report_comments">;
+type ClientGoalRow = Tables<"client_goals">;
+type AuditLogRow = Tables<"audit_logs">;
+type InvitationRow = Tables<"invitations">;
 
 /* ------------------------------------------------------------------ */
 /* Generic helpers                                                    */
@@ -39,17 +47,51 @@ export interface PaginationMeta {
  */
 export type UserDTO = Pick<UserRow, "id" | "full_name" | "email" | "phone" | "role">;
 
+/** Whether an invited user has accepted their invitation yet. */
+export type ActivationStatus = "pending" | "active";
+
 /**
  * TrainerDTO = UserDTO + trainer-specific extension stored
  * in `trainers` table.
  */
-export interface TrainerDTO extends UserDTO, Pick<TrainerRow, "bio"> {}
+export interface TrainerDTO extends UserDTO, Pick<TrainerRow, "bio"> {
+  activationStatus: ActivationStatus;
+}
 
 /**
  * ClientDTO = UserDTO + client-specific fields held
  * in `clients` table.
  */
-export interface ClientDTO extends UserDTO, Pick<ClientRow, "date_of_birth" | "gender"> {}
+export interface ClientDTO extends UserDTO, Pick<ClientRow, "date_of_birth" | "gender"> {
+  activationStatus: ActivationStatus;
+}
+
+/** Sort keys of GET /api/clients */
+export type ClientListSort = "name" | "lastReportAt" | "startedAt" | "status" | "streak" | "weightChange";
+
+/**
+ * Item of the trainer's client list (GET /api/clients) with the weekly status
+ * and progress summary shown on the trainer dashboard.
+ */
+export interface ClientListItemDTO extends ClientDTO {
+  /** When the trainer took the client on */
+  startedAt: string;
+  /** Whether the client sent a report in the requested ISO week (default: current) */
+  hasReportForWeek: boolean;
+  /** Number of reports in the requested ISO week (default: current) */
+  reportsThisWeek: number;
+  lastReportAt: string | null;
+  /** Consecutive weeks with a report, ending in the current or previous week */
+  currentStreakWeeks: number;
+  /** Weight (kg) from the latest report that has one */
+  latestWeight: number | null;
+  /** Latest minus first reported weight (kg) */
+  weightChange: number | null;
+  /** Time of the last successfully sent report reminder */
+  lastReminderAt: string | null;
+  /** Comments of the client on their reports the trainer has not read yet */
+  unreadFeedbackCount: number;
+}
 
 /* ------------------------------------------------------------------ */
 /* Trainer-Client assignment                                          */
@@ -61,44 +103,364 @@ export type TrainerClientAssignmentDTO = TrainerClientRow;
 /* Report images                                                      */
 /* ------------------------------------------------------------------ */
 
-export type ReportImageDTO = ReportImageRow;
+/**
+ * Image row with signed view URLs; URLs are only issued to users who may view the report.
+ */
+export interface ReportImageDTO extends ReportImageRow {
+  /** Display rendition */
+  url: string | null;
+  thumb_url: string | null;
+  /** When `url` and `thumb_url` stop working */
+  urls_expire_at: string;
+}
 
 /* ------------------------------------------------------------------ */
 /* Report DTOs                                                        */
 /* ------------------------------------------------------------------ */
 
+/** Signed URL of a processed image thumbnail with its blurhash placeholder. */
+export interface ReportThumbnailDTO {
+  id: string;
+  url: string;
+  blurhash: string | null;
+}
+
 /**
  * Lightweight item returned in report listings.
- * Omits heavyweight relational data such as `images`.
+ * Omits heavyweight relational data such as `images`; only thumbnails are included.
  */
-export type ReportListItemDTO = Omit<ReportRow, "note">;
+export type ReportListItemDTO = Omit<ReportRow, "note"> & {
+  thumbnails: ReportThumbnailDTO[];
+};
 
 /**
- * Full report detail with embedded images array.
+ * Full report detail with embedded images array (confirmed uploads only).
  */
 export interface ReportDTO extends ReportRow {
   images: ReportImageDTO[];
 }
 
+/** Numeric measurement columns of a report (everything in SubmitReportSchema except `note`). */
+export type ReportMetric = keyof Pick<
+  ReportRow,
+  "weight" | "waist" | "chest" | "biceps_left" | "biceps_right" | "thigh_left" | "thigh_right" | "cardio_days"
+>;
+
+/** Minimal reference to another report of the same client. */
+export type ReportSummaryDTO = Pick<ReportRow, "id" | "created_at">;
+
+/** Difference between two values of one metric. */
+export interface MetricChangeDTO {
+  absolute: number;
+  /** Relative to the older value; null when the older value is 0. */
+  percent: number | null;
+}
+
+/** Change of one metric; null when either side has no value. */
+export interface MetricDeltaDTO {
+  sincePrevious: MetricChangeDTO | null;
+  sinceFirst: MetricChangeDTO | null;
+}
+
+/**
+ * Report detail returned by GET /api/reports/{reportId}:
+ * ReportDTO + computed diff vs the previous and the first report of the client.
+ */
+export interface ReportDetailDTO extends ReportDTO {
+  previous: ReportSummaryDTO | null;
+  first: ReportSummaryDTO | null;
+  deltas: Record<ReportMetric, MetricDeltaDTO>;
+}
+
+/* ------------------------------------------------------------------ */
+/* Report comments                                                    */
+/* ------------------------------------------------------------------ */
+
+export type ReportCommentAuthorRole = "trainer" | "client";
+
+/** Comment on a report with its author's name (null when the author account is gone). */
+export interface ReportCommentDTO extends Omit<ReportCommentRow, "author_role"> {
+  author_role: ReportCommentAuthorRole;
+  author: Pick<UserRow, "id" | "full_name"> | null;
+}
+
 /* ------------------------------------------------------------------ */
 /* Trends                                                              */
 /* ------------------------------------------------------------------ */
 
-export interface TrendsDTO {
-  weight?: number[];
-  waist?: number[];
-  chest?: number[];
-  biceps_left?: number[];
-  biceps_right?: number[];
-  thigh_left?: number[];
-  thigh_right?: number[];
-  cardio_days?: number[];
+/** One point of a trend series. */
+export interface TrendPointDTO {
+  /** ISO timestamp – report creation time, or bucket start when aggregated */
+  date: string;
+  value: number;
+  /** Source report; for aggregated points the most recent report in the bucket */
+  reportId: string;
+}
+
+/** Chronological series per requested metric. */
+export type TrendSeriesDTO = Partial<Record<ReportMetric, TrendPointDTO[]>>;
+
+/** Trend series together with the client's goals for the requested metrics. */
+export type TrendsDTO = TrendSeriesDTO & { goals: ClientGoalDTO[] };
+
+/* ------------------------------------------------------------------ */
+/* Client goals                                                       */
+/* ------------------------------------------------------------------ */
+
+/** Whether the goal is reached at or below ("below") or at or above ("above") the target. */
+export type GoalDirection = "below" | "above";
+
+export type GoalStatus = "active" | "achieved" | "cancelled";
+
+/** Goal with its progress computed from the client's latest reports. */
+export interface ClientGoalDTO extends Omit<ClientGoalRow, "metric" | "direction" | "status"> {
+  metric: ReportMetric;
+  direction: GoalDirection;
+  status: GoalStatus;
+  /** Latest reported value of the metric; null when no report has it */
+  currentValue: number | null;
+  /** 0-100 on the way from start_value to target_value; null without a start or current value */
+  progressPercent: number | null;
+  /** Whether the recent pace reaches the target (by target_date when set); null with too few reports */
+  onTrack: boolean | null;
+}
+
+/* ------------------------------------------------------------------ */
+/* Compliance                                                         */
+/* ------------------------------------------------------------------ */
+
+/** Client listed in a week of the compliance report. */
+export interface ComplianceClientDTO {
+  clientId: string;
+  fullName: string;
+}
+
+/** Report submissions of a trainer's clients in one ISO week. */
+export interface WeeklyComplianceDTO {
+  year: number;
+  weekNumber: number;
+  /** Monday 00:00 UTC */
+  weekStart: string;
+  /** The week is still in progress */
+  isCurrent: boolean;
+  expectedCount: number;
+  submittedCount: number;
+  /** Percent of the expected clients with a report; null when no client was assigned yet */
+  submissionRate: number | null;
+  submitted: ComplianceClientDTO[];
+  missing: ComplianceClientDTO[];
+}
+
+/** Share of the weeks since assignment in which one client submitted a report. */
+export interface ClientComplianceDTO extends ComplianceClientDTO {
+  expectedWeeks: number;
+  submittedWeeks: number;
+  /** Percent; null when the client was assigned after the covered weeks */
+  complianceRate: number | null;
+}
+
+export interface TrainerComplianceDTO {
+  trainerId: string;
+  /** Weekly submission rate the product aims for (percent) */
+  targetRate: number;
+  /** Submitted client-weeks out of expected ones over all covered weeks (percent) */
+  overallRate: number | null;
+  /** Oldest to newest, ending with the current week */
+  weeks: WeeklyComplianceDTO[];
+  clients: ClientComplianceDTO[];
+}
+
+/* ------------------------------------------------------------------ */
+/* Admin statistics                                                   */
+/* ------------------------------------------------------------------ */
+
+/** Accounts of one role (deleted accounts excluded). */
+export interface RoleUserStatsDTO {
+  total: number;
+  /** Signed in at least once */
+  active: number;
+  pending: number;
+  /** Mean time from invitation to activation; null when nobody activated yet */
+  averageActivationHours: number | null;
+}
+
+export interface WeeklyReportCountDTO {
+  year: number;
+  weekNumber: number;
+  /** Monday 00:00 UTC */
+  weekStart: string;
+  reportCount: number;
+  clientCount: number;
+}
+
+/** Stored report image originals, in bytes as declared on upload. */
+export interface ImageStorageStatsDTO {
+  imageCount: number;
+  totalBytes: number;
+  /** Deleted images whose files the retention job has not removed yet */
+  pendingPurgeCount: number;
+  pendingPurgeBytes: number;
+}
+
+export interface AdminStatsDTO {
+  users: Record<"super_admin" | "trainer" | "client", RoleUserStatsDTO>;
+  /** Over trainers and clients */
+  averageActivationHours: number | null;
+  /** Oldest to newest, ending with the current week */
+  reportsPerWeek: WeeklyReportCountDTO[];
+  storage: ImageStorageStatsDTO;
+  generatedAt: string;
+}
+
+/* ------------------------------------------------------------------ */
+/* Photo comparison                                                   */
+/* ------------------------------------------------------------------ */
+
+/** Report image with a short-lived signed view URL. */
+export interface ComparisonImageDTO extends Pick<ReportImageRow, "id" | "width" | "height"> {
+  url: string;
+}
+
+/** Images of two reports at the same position (slot 0 = first uploaded photo). */
+export interface PhotoComparisonSlotDTO {
+  slot: number;
+  base: ComparisonImageDTO | null;
+  compare: ComparisonImageDTO | null;
+}
+
+export interface PhotoComparisonDTO {
+  base: ReportSummaryDTO;
+  compare: ReportSummaryDTO;
+  slots: PhotoComparisonSlotDTO[];
+  /** When the signed URLs stop working */
+  expiresAt: string;
+}
+
+/* ------------------------------------------------------------------ */
+/* Image retention                                                    */
+/* ------------------------------------------------------------------ */
+
+export type ImageRetentionMode = "delete" | "archive";
+
+/** Storage object that could not be removed or archived in a retention run. */
+export interface ImageRetentionFailureDTO {
+  imageId: string;
+  path: string;
+  error: string;
+}
+
+export interface ImageRetentionRunDTO extends Omit<ImageRetentionRunRow, "mode" | "failures"> {
+  mode: ImageRetentionMode;
+  failures: ImageRetentionFailureDTO[];
+}
+
+/* ------------------------------------------------------------------ */
+/* Report reminders                                                   */
+/* ------------------------------------------------------------------ */
+
+export type NotificationChannel = "email" | "sms";
+
+export type ReportReminderStatus = "pending" | "sent" | "failed";
+
+export interface ReportReminderDTO extends Omit<ReportReminderRow, "channel" | "status"> {
+  channel: NotificationChannel;
+  status: ReportReminderStatus;
+}
+
+/** Weekly schedule of automatic reminders; weekday is ISO (1 = Monday), weekday and hour are in `timezone`. */
+export type TrainerReminderSettingsDTO = Omit<TrainerReminderSettingsRow, "updated_at"> & {
+  updated_at: string | null;
+};
+
+/** Client reminded by a scheduled run. */
+export interface ReminderRunRecipientDTO {
+  clientId: string;
+  reminderId: string;
+  channel: NotificationChannel;
+}
+
+/** Client a scheduled run could not remind. */
+export interface ReminderRunFailureDTO {
+  clientId: string;
+  error: string;
+}
+
+export interface ReminderRunDTO extends Omit<ReminderRunRow, "reminded" | "failures"> {
+  reminded: ReminderRunRecipientDTO[];
+  failures: ReminderRunFailureDTO[];
+}
+
+/* ------------------------------------------------------------------ */
+/* Audit log                                                          */
+/* ------------------------------------------------------------------ */
+
+export type AuditAction = "create" | "update" | "delete" | "activate" | "deactivate" | "run";
+
+/** Role of the acting user; "scheduler" for scheduled jobs. */
+export type AuditActorRole = "super_admin" | "trainer" | "client" | "scheduler";
+
+/** Changed columns with their values before and after the mutation. */
+export type AuditChangesDTO = Record<string, { before: unknown; after: unknown }>;
+
+/** Audit entry with its actor's name (null for scheduled jobs and removed accounts). */
+export interface AuditLogDTO extends Omit<AuditLogRow, "action" | "actor_role" | "changes"> {
+  action: AuditAction;
+  actor_role: AuditActorRole | null;
+  changes: AuditChangesDTO;
+  actor: Pick<UserRow, "id" | "full_name"> | null;
+}
+
+/* ------------------------------------------------------------------ */
+/* Invitations                                                        */
+/* ------------------------------------------------------------------ */
+
+/** "sent" links past their expiry are reported as "expired". */
+export type InvitationStatus = "sent" | "accepted" | "expired";
+
+/** Activation link sent to an invited user; the token itself is only in the message. */
+export interface InvitationDTO extends Omit<InvitationRow, "token_hash" | "channel" | "status"> {
+  channel: NotificationChannel;
+  status: InvitationStatus;
+}
+
+/** Result of a password reset: the sessions that were ended and the link to set a new password. */
+export interface PasswordResetDTO {
+  revokedSessions: number;
+  invitation: InvitationDTO;
+}
+
+/* ------------------------------------------------------------------ */
+/* Auth                                                               */
+/* ------------------------------------------------------------------ */
+
+/** Signed-in user's role with the page the login view continues to. */
+export interface LoginResponseDTO {
+  role: "super_admin" | "trainer" | "client";
+  redirectTo: string;
 }
 
 /* ------------------------------------------------------------------ */
 /* Command models (request bodies)                                    */
 /* ------------------------------------------------------------------ */
 
+/* --------------------------- Auth ---------------------------------- */
+
+/** Body of POST /api/auth/login; trainers and super-admins sign in by email, clients by phone */
+export type LoginCommand =
+  | { method: "email"; email: string; password: string }
+  | { method: "phone"; phone: string; password: string };
+
+/** Body of POST /api/invitations/accept */
+export interface AcceptInvitationCommand {
+  token: string;
+  password: string;
+}
+
+export interface ChangePasswordCommand {
+  currentPassword: string;
+  password: string;
+}
+
 /* -------------------------- Trainer -------------------------------- */
 
 /** Body of POST /api/trainers */
@@ -113,6 +475,14 @@ export interface UpdateTrainerCommand {
   bio?: string | null;
 }
 
+/** Body of PUT /api/trainers/{id}/reminder-settings */
+export interface UpdateReminderSettingsCommand {
+  enabled: boolean;
+  weekday: number;
+  hour: number;
+  timezone: string;
+}
+
 /* --------------------------- Client -------------------------------- */
 
 /** Body of POST /api/clients */
@@ -127,6 +497,22 @@ export interface CreateClientCommand {
 /** Body of PATCH /api/clients/{id} */
 export type UpdateClientCommand = Partial<CreateClientCommand>;
 
+/** Body of POST /api/clients/{clientId}/goals */
+export interface CreateGoalCommand {
+  metric: ReportMetric;
+  targetValue: number;
+  /** Defaults to the side of the target the latest report is on */
+  direction?: GoalDirection;
+  targetDate?: string;
+}
+
+/** Body of PATCH /api/clients/{clientId}/goals/{goalId} */
+export interface UpdateGoalCommand {
+  targetValue?: number;
+  targetDate?: string | null;
+  status?: Exclude<GoalStatus, "achieved">;
+}
+
 /* --------------------------- Reports ------------------------------- */
 
 /**
@@ -145,6 +531,11 @@ export interface SubmitReportCommand
  */
 export type EditReportCommand = Partial<Omit<SubmitReportCommand, "images">>;
 
+/** Body of POST /api/reports/{reportId}/comments and PATCH /api/reports/{reportId}/comments/{commentId} */
+export interface ReportCommentCommand {
+  body: string;
+}
+
 /* ------------------------------------------------------------------ */
 
 // export type {
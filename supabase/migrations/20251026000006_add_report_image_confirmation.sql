@@ -0,0 +1,52 @@
+-- Migration: Add upload confirmation to report_images
+-- Description: Images are inserted before the upload happens; they become visible only
+--              after POST /api/report-images/{imageId}/complete verified the stored object
+-- Tables affected: report_images
+-- Date: 2025-10-27
+
+-- Add confirmation columns
+alter table public.report_images
+    add column content_type text,
+    add column is_confirmed boolean not null default false,
+    add column confirmed_at timestamptz;
+
+-- Images uploaded before this migration were already shown to users, keep them visible
+update public.report_images
+set is_confirmed = true,
+    confirmed_at = created_at
+where not is_deleted;
+
+alter table public.report_images
+    add constraint report_images_content_type_check
+    check (content_type is null or content_type in ('image/jpeg', 'image/png'));
+
+-- Partial index for the sweep of uploads that never completed
+create index idx_report_images_unconfirmed
+    on public.report_images (created_at)
+    where not is_confirmed and not is_deleted;
+
+-- Trainers only see confirmed images (clients still need their pending ones to complete them)
+drop policy "trainers_read_client_report_images" on public.report_images;
+
+create policy "trainers_read_client_report_images"
+    on public.report_images
+    as permissive
+    for select
+    to authenticated
+    using (
+        auth.jwt() ->> 'role' = 'trainer'
+        and exists (
+            select 1
+            from public.reports
+            join public.trainer_client on trainer_client.client_id = reports.client_id
+            where reports.id = report_images.report_id
+            and trainer_client.trainer_id = auth.uid()
+            and trainer_client.is_active = true
+            and reports.deleted_at is null
+        )
+        and not is_deleted
+        and is_confirmed
+    );
+
+comment on column public.report_images.content_type is 'MIME type detected from the stored file on upload completion';
+comment on column public.report_images.is_confirmed is 'True once the upload was verified; unconfirmed rows are swept after a timeout';
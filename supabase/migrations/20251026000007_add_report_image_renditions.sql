@@ -0,0 +1,14 @@
+-- Migration: Add processed renditions to report_images
+-- Description: On upload completion the original is replaced by a downscaled display rendition
+--              without EXIF/GPS metadata, and a thumbnail plus blurhash placeholder are generated
+-- Tables affected: report_images
+-- Date: 2025-10-27
+
+alter table public.report_images
+    add column thumb_path text,
+    add column blurhash text,
+    add column processed_at timestamptz;
+
+comment on column public.report_images.storage_path is 'Path to the display rendition (metadata stripped) in Supabase Storage';
+comment on column public.report_images.thumb_path is 'Path to the thumbnail in Supabase Storage, null until processed';
+comment on column public.report_images.blurhash is 'Blurhash placeholder shown while the image loads';
@@ -0,0 +1,64 @@
+-- Migration: Image retention job
+-- Description: Tracks which deleted images were removed from storage and logs every retention run
+-- Tables affected: report_images, image_retention_runs
+-- Date: 2025-10-28
+
+-- Set once the storage objects of a deleted image were removed or archived
+alter table public.report_images
+    add column purged_at timestamptz;
+
+create index idx_report_images_pending_purge
+    on public.report_images (deleted_at)
+    where is_deleted and purged_at is null;
+
+-- Log of retention runs
+create table public.image_retention_runs (
+    id uuid primary key default gen_random_uuid(),
+    started_at timestamptz not null default now(),
+    finished_at timestamptz,
+    mode text not null check (mode in ('delete', 'archive')),
+    archive_bucket text,
+    dry_run boolean not null default false,
+    retention_days integer not null check (retention_days > 0),
+    -- images newly marked as deleted because they passed the retention age
+    marked_count integer not null default 0,
+    -- images whose storage objects were removed or archived
+    purged_count integer not null default 0,
+    failed_count integer not null default 0,
+    -- [{ imageId, path, error }]
+    failures jsonb not null default '[]'::jsonb,
+    triggered_by uuid references public.users(id) on delete set null
+);
+
+alter table public.image_retention_runs enable row level security;
+
+create index idx_image_retention_runs_started_at on public.image_retention_runs (started_at desc);
+
+create policy "super_admin_full_access_image_retention_runs"
+    on public.image_retention_runs
+    as permissive
+    for all
+    to authenticated
+    using (auth.jwt() ->> 'role' = 'super_admin');
+
+-- Retention age is now configurable and the number of marked images is returned
+drop function public.cleanup_old_report_images();
+
+create or replace function public.cleanup_old_report_images(retention_days integer default 180)
+returns integer as $$
+declare
+    marked integer;
+begin
+    update public.report_images
+    set is_deleted = true,
+        deleted_at = now()
+    where created_at < now() - make_interval(days => retention_days)
+    and not is_deleted;
+
+    get diagnostics marked = row_count;
+    return marked;
+end;
+$$ language plpgsql;
+
+comment on column public.report_images.purged_at is 'When the storage objects were deleted or archived, null while pending';
+comment on table public.image_retention_runs is 'Log of image retention runs with counts and failures';
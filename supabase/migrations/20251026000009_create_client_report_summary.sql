@@ -0,0 +1,38 @@
+-- Migration: Client status for the trainer dashboard
+-- Description: Per-client report summary view and account activation status lookup
+-- Tables affected: none (view and function only)
+-- Date: 2025-10-28
+
+-- Latest report per client; security_invoker keeps the reports RLS policies in force
+create view public.client_report_summary
+with (security_invoker = true) as
+select
+    client_id,
+    max(created_at) as last_report_at,
+    count(*)::integer as report_count
+from public.reports
+where deleted_at is null
+group by client_id;
+
+-- Whether invited users have signed in yet. auth.users is not exposed through the API,
+-- so this runs as definer and only answers for the caller's own clients (or any user for super_admin).
+create or replace function public.get_activation_statuses(user_ids uuid[])
+returns table (user_id uuid, activation_status text) as $$
+    select
+        u.id,
+        case when u.last_sign_in_at is null then 'pending' else 'active' end
+    from auth.users u
+    where u.id = any(user_ids)
+    and (
+        auth.jwt() ->> 'role' = 'super_admin'
+        or exists (
+            select 1
+            from public.trainer_client tc
+            where tc.client_id = u.id
+            and tc.trainer_id = auth.uid()
+        )
+    );
+$$ language sql stable security definer set search_path = '';
+
+comment on view public.client_report_summary is 'Last report date and report count per client';
+comment on function public.get_activation_statuses is 'pending until the invited user signs in for the first time, then active';
@@ -0,0 +1,70 @@
+-- Migration: Weekly report status of a trainer's clients in the database
+-- Description: ISO week-numbering year for reports and an RPC that joins trainer_client
+--              with reports of one week, so the API can filter and paginate exactly
+-- Tables affected: reports
+-- Date: 2025-10-29
+
+-- extract(year) disagrees with extract(week) around New Year (e.g. 2024-12-30 is week 1 of 2025)
+create or replace function public.set_report_week_and_year()
+returns trigger as $$
+begin
+    new.week_number := extract(week from new.created_at);
+    new.year := extract(isoyear from new.created_at);
+    return new;
+end;
+$$ language plpgsql;
+
+-- Move existing reports to their ISO year unless that collides with a report already there
+update public.reports r
+set year = extract(isoyear from r.created_at)
+where r.year <> extract(isoyear from r.created_at)
+and not exists (
+    select 1
+    from public.reports other
+    where other.client_id = r.client_id
+    and other.week_number = r.week_number
+    and other.year = extract(isoyear from r.created_at)
+    and other.sequence = r.sequence
+);
+
+-- Active clients of a trainer with the number of reports they sent in the given ISO week.
+-- Runs with the caller's rights, so the usual RLS policies apply.
+create or replace function public.trainer_clients_for_week(p_trainer_id uuid, p_year integer, p_week integer)
+returns table (
+    client_id uuid,
+    started_at timestamptz,
+    full_name text,
+    email text,
+    phone text,
+    role text,
+    date_of_birth date,
+    gender text,
+    reports_in_week integer
+) as $$
+    select
+        tc.client_id,
+        tc.started_at,
+        u.full_name,
+        u.email,
+        u.phone,
+        u.role,
+        c.date_of_birth,
+        c.gender,
+        (
+            select count(*)::integer
+            from public.reports r
+            where r.client_id = tc.client_id
+            and r.year = p_year
+            and r.week_number = p_week
+            and r.deleted_at is null
+        )
+    from public.trainer_client tc
+    join public.clients c on c.id = tc.client_id and c.deleted_at is null
+    join public.users u on u.id = tc.client_id and u.deleted_at is null
+    where tc.trainer_id = p_trainer_id
+    and tc.is_active;
+$$ language sql stable;
+
+create index idx_reports_client_week on public.reports (client_id, year, week_number) where deleted_at is null;
+
+comment on function public.trainer_clients_for_week is 'Active clients of a trainer with their report count for one ISO week';
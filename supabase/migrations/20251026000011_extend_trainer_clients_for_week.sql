@@ -0,0 +1,98 @@
+-- Migration: Summary columns for the trainer's client list
+-- Description: Adds last report date, current weekly streak and weight columns to
+--              trainer_clients_for_week, so the API can search and sort on them exactly
+-- Functions affected: trainer_clients_for_week
+-- Date: 2025-10-30
+
+-- The return type changes, so the function has to be recreated
+drop function if exists public.trainer_clients_for_week(uuid, integer, integer);
+
+-- Active clients of a trainer with their report count for the given ISO week and a progress summary.
+-- current_streak_weeks counts consecutive weeks with a report, ending in the current or previous
+-- week (a streak is not broken before the current week is over).
+-- weight_change is the latest reported weight minus the first one.
+-- Runs with the caller's rights, so the usual RLS policies apply.
+create function public.trainer_clients_for_week(p_trainer_id uuid, p_year integer, p_week integer)
+returns table (
+    client_id uuid,
+    started_at timestamptz,
+    full_name text,
+    email text,
+    phone text,
+    role text,
+    date_of_birth date,
+    gender text,
+    reports_in_week integer,
+    last_report_at timestamptz,
+    current_streak_weeks integer,
+    latest_weight numeric,
+    weight_change numeric
+) as $$
+    select
+        tc.client_id,
+        tc.started_at,
+        u.full_name,
+        u.email,
+        u.phone,
+        u.role,
+        c.date_of_birth,
+        c.gender,
+        (
+            select count(*)::integer
+            from public.reports r
+            where r.client_id = tc.client_id
+            and r.year = p_year
+            and r.week_number = p_week
+            and r.deleted_at is null
+        ),
+        (
+            select max(r.created_at)
+            from public.reports r
+            where r.client_id = tc.client_id
+            and r.deleted_at is null
+        ),
+        (
+            select count(*)::integer
+            from (
+                select
+                    weeks.week_start,
+                    first_value(weeks.week_start) over (order by weeks.week_start desc) as latest_week_start,
+                    row_number() over (order by weeks.week_start desc) as position
+                from (
+                    select distinct date_trunc('week', r.created_at at time zone 'UTC') as week_start
+                    from public.reports r
+                    where r.client_id = tc.client_id
+                    and r.deleted_at is null
+                ) weeks
+            ) numbered
+            where numbered.latest_week_start >= date_trunc('week', now() at time zone 'UTC') - interval '1 week'
+            and numbered.week_start = numbered.latest_week_start - (numbered.position - 1) * interval '1 week'
+        ),
+        latest.weight,
+        latest.weight - first.weight
+    from public.trainer_client tc
+    join public.clients c on c.id = tc.client_id and c.deleted_at is null
+    join public.users u on u.id = tc.client_id and u.deleted_at is null
+    left join lateral (
+        select r.weight
+        from public.reports r
+        where r.client_id = tc.client_id
+        and r.deleted_at is null
+        and r.weight is not null
+        order by r.created_at desc
+        limit 1
+    ) latest on true
+    left join lateral (
+        select r.weight
+        from public.reports r
+        where r.client_id = tc.client_id
+        and r.deleted_at is null
+        and r.weight is not null
+        order by r.created_at asc
+        limit 1
+    ) first on true
+    where tc.trainer_id = p_trainer_id
+    and tc.is_active;
+$$ language sql stable;
+
+comment on function public.trainer_clients_for_week is 'Active clients of a trainer with their report count for one ISO week and a progress summary';
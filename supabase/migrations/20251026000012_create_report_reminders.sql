@@ -0,0 +1,85 @@
+-- Migration: Report reminders
+-- Description: History of reminders sent to clients who have not reported yet,
+--              limited to one reminder per client per day
+-- Tables affected: report_reminders
+-- Date: 2025-10-31
+
+create table public.report_reminders (
+    id uuid primary key default gen_random_uuid(),
+    client_id uuid not null references public.clients(id) on delete cascade,
+    -- trainer who sent the reminder
+    sent_by uuid references public.users(id) on delete set null,
+    channel text not null check (channel in ('email', 'sms')),
+    recipient text not null,
+    -- pending while the notifier is called, then sent or failed
+    status text not null default 'pending' check (status in ('pending', 'sent', 'failed')),
+    error text,
+    -- UTC day the reminder counts against
+    sent_on date not null default (now() at time zone 'utc')::date,
+    created_at timestamptz not null default now()
+);
+
+alter table public.report_reminders enable row level security;
+
+-- One reminder per client per day; failed attempts do not use up the day
+create unique index idx_report_reminders_client_day
+    on public.report_reminders (client_id, sent_on)
+    where status <> 'failed';
+
+create index idx_report_reminders_client_created_at on public.report_reminders (client_id, created_at desc);
+
+create policy "super_admin_full_access_report_reminders"
+    on public.report_reminders
+    as permissive
+    for all
+    to authenticated
+    using (auth.jwt() ->> 'role' = 'super_admin');
+
+-- Trainers can read the reminders of their active clients
+create policy "trainers_read_client_reminders"
+    on public.report_reminders
+    as permissive
+    for select
+    to authenticated
+    using (
+        auth.jwt() ->> 'role' = 'trainer'
+        and exists (
+            select 1
+            from public.trainer_client
+            where trainer_client.trainer_id = auth.uid()
+            and trainer_client.client_id = report_reminders.client_id
+            and trainer_client.is_active = true
+        )
+    );
+
+-- Trainers can send reminders to their active clients in their own name
+create policy "trainers_insert_client_reminders"
+    on public.report_reminders
+    as permissive
+    for insert
+    to authenticated
+    with check (
+        auth.jwt() ->> 'role' = 'trainer'
+        and sent_by = auth.uid()
+        and exists (
+            select 1
+            from public.trainer_client
+            where trainer_client.trainer_id = auth.uid()
+            and trainer_client.client_id = report_reminders.client_id
+            and trainer_client.is_active = true
+        )
+    );
+
+-- Trainers record the delivery result of their own reminders
+create policy "trainers_update_own_reminders"
+    on public.report_reminders
+    as permissive
+    for update
+    to authenticated
+    using (
+        auth.jwt() ->> 'role' = 'trainer'
+        and sent_by = auth.uid()
+    );
+
+comment on table public.report_reminders is 'Reminders sent to clients to submit their weekly report';
+comment on column public.report_reminders.sent_on is 'UTC day of the reminder, at most one non-failed reminder per client and day';
@@ -0,0 +1,90 @@
+-- Migration: Scheduled report reminders
+-- Description: Per-trainer weekly reminder schedule and a log of scheduled reminder runs
+-- Tables affected: trainer_reminder_settings, reminder_runs, report_reminders
+-- Date: 2025-11-01
+
+create table public.trainer_reminder_settings (
+    trainer_id uuid primary key references public.trainers(id) on delete cascade,
+    enabled boolean not null default false,
+    -- ISO weekday in the trainer's time zone, 1 = Monday
+    weekday smallint not null default 5 check (weekday between 1 and 7),
+    -- hour of the day in the trainer's time zone
+    hour smallint not null default 9 check (hour between 0 and 23),
+    timezone text not null default 'Europe/Warsaw',
+    updated_at timestamptz not null default now()
+);
+
+alter table public.trainer_reminder_settings enable row level security;
+
+create index idx_trainer_reminder_settings_enabled on public.trainer_reminder_settings (trainer_id) where enabled;
+
+create policy "super_admin_full_access_trainer_reminder_settings"
+    on public.trainer_reminder_settings
+    as permissive
+    for all
+    to authenticated
+    using (auth.jwt() ->> 'role' = 'super_admin');
+
+-- Trainers manage their own schedule
+create policy "trainers_manage_own_reminder_settings"
+    on public.trainer_reminder_settings
+    as permissive
+    for all
+    to authenticated
+    using (
+        auth.jwt() ->> 'role' = 'trainer'
+        and trainer_id = auth.uid()
+    )
+    with check (
+        auth.jwt() ->> 'role' = 'trainer'
+        and trainer_id = auth.uid()
+    );
+
+-- One scheduled run per trainer and ISO week
+create table public.reminder_runs (
+    id uuid primary key default gen_random_uuid(),
+    trainer_id uuid not null references public.trainers(id) on delete cascade,
+    year integer not null,
+    week_number integer not null check (week_number between 1 and 53),
+    started_at timestamptz not null default now(),
+    finished_at timestamptz,
+    reminded_count integer not null default 0,
+    -- clients that already got a reminder that day
+    skipped_count integer not null default 0,
+    failed_count integer not null default 0,
+    -- [{ clientId, reminderId, channel }]
+    reminded jsonb not null default '[]'::jsonb,
+    -- [{ clientId, error }]
+    failures jsonb not null default '[]'::jsonb,
+    unique (trainer_id, year, week_number)
+);
+
+alter table public.reminder_runs enable row level security;
+
+create index idx_reminder_runs_started_at on public.reminder_runs (started_at desc);
+
+create policy "super_admin_full_access_reminder_runs"
+    on public.reminder_runs
+    as permissive
+    for all
+    to authenticated
+    using (auth.jwt() ->> 'role' = 'super_admin');
+
+-- Trainers can read the runs of their own schedule
+create policy "trainers_read_own_reminder_runs"
+    on public.reminder_runs
+    as permissive
+    for select
+    to authenticated
+    using (
+        auth.jwt() ->> 'role' = 'trainer'
+        and trainer_id = auth.uid()
+    );
+
+-- Reminders sent by a scheduled run (sent_by is null for those)
+alter table public.report_reminders
+    add column run_id uuid references public.reminder_runs(id) on delete set null;
+
+comment on table public.trainer_reminder_settings is 'Weekly schedule of automatic report reminders per trainer';
+comment on table public.reminder_runs is 'Log of scheduled reminder runs with reminded clients and failures';
+comment on column public.report_reminders.run_id is 'Scheduled run that sent the reminder, null for manual reminders';
@@ -0,0 +1,111 @@
+-- Migration: Report comments
+-- Description: Conversation between a client and their trainer on a report, with read tracking
+-- Tables affected: report_comments
+-- Date: 2025-11-02
+
+create table public.report_comments (
+    id uuid primary key default gen_random_uuid(),
+    report_id uuid not null references public.reports(id) on delete cascade,
+    author_id uuid references public.users(id) on delete set null,
+    -- role at the time of writing; tells which side of the conversation the comment is from
+    author_role text not null check (author_role in ('trainer', 'client')),
+    body text not null check (char_length(body) between 1 and 2000),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz,
+    -- when the other side first saw the comment
+    read_at timestamptz
+);
+
+alter table public.report_comments enable row level security;
+
+create index idx_report_comments_report on public.report_comments (report_id, created_at);
+create index idx_report_comments_unread on public.report_comments (report_id) where read_at is null;
+
+-- Whether the current user takes part in the conversation of a report:
+-- the owning client or a trainer with an active assignment to them
+create or replace function public.is_report_participant(p_report_id uuid)
+returns boolean as $$
+    select exists (
+        select 1
+        from public.reports r
+        where r.id = p_report_id
+        and r.deleted_at is null
+        and (
+            r.client_id = auth.uid()
+            or exists (
+                select 1
+                from public.trainer_client tc
+                where tc.client_id = r.client_id
+                and tc.trainer_id = auth.uid()
+                and tc.is_active = true
+            )
+        )
+    );
+$$ language sql stable security definer set search_path = public;
+
+create policy "super_admin_full_access_report_comments"
+    on public.report_comments
+    as permissive
+    for all
+    to authenticated
+    using (auth.jwt() ->> 'role' = 'super_admin');
+
+-- Participants can read the conversation
+create policy "participants_read_report_comments"
+    on public.report_comments
+    as permissive
+    for select
+    to authenticated
+    using (public.is_report_participant(report_id));
+
+-- Participants can comment in their own name
+create policy "participants_insert_report_comments"
+    on public.report_comments
+    as permissive
+    for insert
+    to authenticated
+    with check (
+        author_id = auth.uid()
+        and author_role = auth.jwt() ->> 'role'
+        and public.is_report_participant(report_id)
+    );
+
+-- Authors can edit and delete their own comments while they still take part
+create policy "authors_update_own_report_comments"
+    on public.report_comments
+    as permissive
+    for update
+    to authenticated
+    using (author_id = auth.uid() and public.is_report_participant(report_id));
+
+create policy "authors_delete_own_report_comments"
+    on public.report_comments
+    as permissive
+    for delete
+    to authenticated
+    using (author_id = auth.uid() and public.is_report_participant(report_id));
+
+-- Marks the comments of the other side of a report's conversation as read.
+-- Security definer because readers may not update comments they did not write.
+create or replace function public.mark_report_comments_read(p_report_id uuid)
+returns integer as $$
+declare
+    marked integer;
+begin
+    if not public.is_report_participant(p_report_id) then
+        return 0;
+    end if;
+
+    update public.report_comments
+    set read_at = now()
+    where report_id = p_report_id
+    and read_at is null
+    and author_role <> (auth.jwt() ->> 'role');
+
+    get diagnostics marked = row_count;
+    return marked;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+comment on table public.report_comments is 'Comments of the client and their trainer on a report';
+comment on column public.report_comments.read_at is 'When the other side of the conversation first listed the comment';
@@ -0,0 +1,75 @@
+-- Migration: Client goals
+-- Description: Measurement targets set for a client (e.g. weight 82 kg by March),
+--              marked as achieved once a report meets them
+-- Tables affected: client_goals
+-- Date: 2025-11-03
+
+create table public.client_goals (
+    id uuid primary key default gen_random_uuid(),
+    client_id uuid not null references public.clients(id) on delete cascade,
+    created_by uuid references public.users(id) on delete set null,
+    metric text not null check (metric in (
+        'weight', 'waist', 'chest', 'biceps_left', 'biceps_right', 'thigh_left', 'thigh_right', 'cardio_days'
+    )),
+    -- reach target_value or go below it ('below') / reach it or go above it ('above')
+    direction text not null check (direction in ('below', 'above')),
+    target_value numeric(6,2) not null check (target_value >= 0),
+    -- latest reported value when the goal was set, the 0% point of the progress
+    start_value numeric(6,2),
+    target_date date,
+    status text not null default 'active' check (status in ('active', 'achieved', 'cancelled')),
+    achieved_at timestamptz,
+    achieved_report_id uuid references public.reports(id) on delete set null,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz
+);
+
+alter table public.client_goals enable row level security;
+
+create index idx_client_goals_client on public.client_goals (client_id, created_at desc);
+create index idx_client_goals_active on public.client_goals (client_id, metric) where status = 'active';
+
+create policy "super_admin_full_access_client_goals"
+    on public.client_goals
+    as permissive
+    for all
+    to authenticated
+    using (auth.jwt() ->> 'role' = 'super_admin');
+
+-- Clients can read their own goals
+create policy "clients_read_own_goals"
+    on public.client_goals
+    as permissive
+    for select
+    to authenticated
+    using (client_id = auth.uid());
+
+-- Trainers manage the goals of their active clients
+create policy "trainers_manage_client_goals"
+    on public.client_goals
+    as permissive
+    for all
+    to authenticated
+    using (
+        auth.jwt() ->> 'role' = 'trainer'
+        and exists (
+            select 1
+            from public.trainer_client
+            where trainer_client.trainer_id = auth.uid()
+            and trainer_client.client_id = client_goals.client_id
+            and trainer_client.is_active = true
+        )
+    )
+    with check (
+        auth.jwt() ->> 'role' = 'trainer'
+        and exists (
+            select 1
+            from public.trainer_client
+            where trainer_client.trainer_id = auth.uid()
+            and trainer_client.client_id = client_goals.client_id
+            and trainer_client.is_active = true
+        )
+    );
+
+comment on table public.client_goals is 'Measurement targets of a client with their status';
+comment on column public.client_goals.start_value is 'Latest reported value when the goal was set, null if there was none';
@@ -0,0 +1,72 @@
+-- Migration: Super-admin system statistics
+-- Description: Aggregates behind GET /api/admin/stats: users per role with activation,
+--              report counts per ISO week and image storage usage
+-- Tables affected: none (functions only)
+-- Date: 2025-11-05
+
+-- Users per role, how many signed in at least once, and the mean time from invitation
+-- to activation. Activation is the first confirmation of the invited email or phone
+-- (the last sign-in for accounts created already confirmed).
+-- auth.users is not exposed through the API, so this runs as definer and answers super_admin only.
+create or replace function public.admin_user_stats()
+returns table (
+    role text,
+    total integer,
+    active integer,
+    avg_activation_seconds double precision
+) as $$
+    select
+        u.role,
+        count(*)::integer,
+        count(*) filter (where au.last_sign_in_at is not null)::integer,
+        extract(epoch from avg(
+            coalesce(au.email_confirmed_at, au.phone_confirmed_at, au.last_sign_in_at)
+            - coalesce(au.invited_at, au.created_at)
+        ) filter (where au.last_sign_in_at is not null))::double precision
+    from public.users u
+    left join auth.users au on au.id = u.id
+    where u.deleted_at is null
+    and auth.jwt() ->> 'role' = 'super_admin'
+    group by u.role;
+$$ language sql stable security definer set search_path = '';
+
+-- Reports and reporting clients per ISO week (the year/week_number stored on reports)
+-- created since p_since. Runs with the caller's rights, so the usual RLS policies apply.
+create or replace function public.admin_weekly_report_counts(p_since timestamptz)
+returns table (
+    year integer,
+    week_number integer,
+    report_count integer,
+    client_count integer
+) as $$
+    select
+        r.year,
+        r.week_number,
+        count(*)::integer,
+        count(distinct r.client_id)::integer
+    from public.reports r
+    where r.deleted_at is null
+    and r.created_at >= p_since
+    group by r.year, r.week_number;
+$$ language sql stable;
+
+-- Originals of confirmed images in storage, and of deleted ones the retention job has not purged yet
+-- (thumbnails are not counted). Runs with the caller's rights.
+create or replace function public.admin_image_storage_stats()
+returns table (
+    image_count integer,
+    total_bytes bigint,
+    pending_purge_count integer,
+    pending_purge_bytes bigint
+) as $$
+    select
+        count(*) filter (where i.is_confirmed and not i.is_deleted)::integer,
+        coalesce(sum(i.size_bytes) filter (where i.is_confirmed and not i.is_deleted), 0)::bigint,
+        count(*) filter (where i.is_deleted and i.purged_at is null)::integer,
+        coalesce(sum(i.size_bytes) filter (where i.is_deleted and i.purged_at is null), 0)::bigint
+    from public.report_images i;
+$$ language sql stable;
+
+comment on function public.admin_user_stats is 'Users per role with activation counts and mean invitation-to-activation time (super_admin only)';
+comment on function public.admin_weekly_report_counts is 'Report and reporting client counts per ISO week since a date';
+comment on function public.admin_image_storage_stats is 'Count and size of stored report image originals';
@@ -0,0 +1,48 @@
+-- Migration: Audit log
+-- Description: Append-only log of every successful mutation made through the API,
+--              with the acting user and a before/after diff of the changed entity
+-- Tables affected: audit_logs
+-- Date: 2025-11-06
+
+create table public.audit_logs (
+    id uuid primary key default gen_random_uuid(),
+    -- null for scheduled jobs and for actors whose account is gone
+    actor_id uuid references public.users(id) on delete set null,
+    actor_role text check (actor_role in ('super_admin', 'trainer', 'client', 'scheduler')),
+    action text not null,
+    -- table name of the entity, e.g. 'reports'
+    entity_type text not null,
+    -- primary key of the entity; 'trainer_id:client_id' for trainer_client
+    entity_id text,
+    -- { column: { before, after } } for every changed column
+    changes jsonb not null default '{}'::jsonb,
+    method text not null,
+    -- API route pattern, e.g. '/api/clients/[clientId]'
+    route text not null,
+    created_at timestamptz not null default now()
+);
+
+alter table public.audit_logs enable row level security;
+
+create index idx_audit_logs_created on public.audit_logs (created_at desc);
+create index idx_audit_logs_entity on public.audit_logs (entity_type, entity_id, created_at desc);
+create index idx_audit_logs_actor on public.audit_logs (actor_id, created_at desc);
+
+-- Only super_admin reads the log; there are no update or delete policies, entries are never changed
+create policy "super_admin_read_audit_logs"
+    on public.audit_logs
+    as permissive
+    for select
+    to authenticated
+    using (auth.jwt() ->> 'role' = 'super_admin');
+
+-- Entries are written by the API on behalf of the acting user
+create policy "authenticated_insert_own_audit_logs"
+    on public.audit_logs
+    as permissive
+    for insert
+    to authenticated
+    with check (actor_id = auth.uid());
+
+comment on table public.audit_logs is 'Append-only log of mutations made through the API';
+comment on column public.audit_logs.changes is 'Changed columns with their values before and after; all columns for creations and deletions';
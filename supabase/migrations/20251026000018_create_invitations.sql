@@ -0,0 +1,127 @@
+-- Migration: Invitations
+-- Description: One-time activation links sent to new trainers and clients. A link is valid
+--              for 24 hours and only until it is used, resent or revoked. Users count as
+--              active once they accepted an invitation.
+-- Tables affected: invitations
+-- Functions affected: get_activation_statuses
+-- Date: 2025-11-07
+
+create table public.invitations (
+    id uuid primary key default gen_random_uuid(),
+    user_id uuid not null references public.users(id) on delete cascade,
+    -- sha-256 of the token in the link; the token itself is never stored
+    token_hash text not null unique,
+    channel text not null check (channel in ('email', 'sms')),
+    recipient text not null,
+    -- sent until the link is used; expired when resent, revoked or past expires_at
+    status text not null default 'sent' check (status in ('sent', 'accepted', 'expired')),
+    -- delivery error of the notifier, the link stays valid for a resend to replace it
+    error text,
+    expires_at timestamptz not null,
+    accepted_at timestamptz,
+    -- trainer or super_admin who sent the invitation
+    created_by uuid references public.users(id) on delete set null,
+    created_at timestamptz not null default now()
+);
+
+alter table public.invitations enable row level security;
+
+-- At most one usable link per user
+create unique index idx_invitations_user_sent
+    on public.invitations (user_id)
+    where status = 'sent';
+
+create index idx_invitations_user_created_at on public.invitations (user_id, created_at desc);
+
+create policy "super_admin_full_access_invitations"
+    on public.invitations
+    as permissive
+    for all
+    to authenticated
+    using (auth.jwt() ->> 'role' = 'super_admin');
+
+-- Trainers can read the invitations of their active clients
+create policy "trainers_read_client_invitations"
+    on public.invitations
+    as permissive
+    for select
+    to authenticated
+    using (
+        auth.jwt() ->> 'role' = 'trainer'
+        and exists (
+            select 1
+            from public.trainer_client
+            where trainer_client.trainer_id = auth.uid()
+            and trainer_client.client_id = invitations.user_id
+            and trainer_client.is_active = true
+        )
+    );
+
+-- Trainers can invite their active clients in their own name
+create policy "trainers_insert_client_invitations"
+    on public.invitations
+    as permissive
+    for insert
+    to authenticated
+    with check (
+        auth.jwt() ->> 'role' = 'trainer'
+        and created_by = auth.uid()
+        and exists (
+            select 1
+            from public.trainer_client
+            where trainer_client.trainer_id = auth.uid()
+            and trainer_client.client_id = invitations.user_id
+            and trainer_client.is_active = true
+        )
+    );
+
+-- Trainers can expire the links of their active clients and record delivery results
+create policy "trainers_update_client_invitations"
+    on public.invitations
+    as permissive
+    for update
+    to authenticated
+    using (
+        auth.jwt() ->> 'role' = 'trainer'
+        and exists (
+            select 1
+            from public.trainer_client
+            where trainer_client.trainer_id = auth.uid()
+            and trainer_client.client_id = invitations.user_id
+            and trainer_client.is_active = true
+        )
+    );
+
+-- Active once an invitation was accepted; users from before invitations count once they signed in
+create or replace function public.get_activation_statuses(user_ids uuid[])
+returns table (user_id uuid, activation_status text) as $$
+    select
+        u.id,
+        case
+            when exists (
+                select 1
+                from public.invitations i
+                where i.user_id = u.id
+                and i.status = 'accepted'
+            ) then 'active'
+            when u.last_sign_in_at is not null
+                and not exists (select 1 from public.invitations i where i.user_id = u.id) then 'active'
+            else 'pending'
+        end
+    from auth.users u
+    where u.id = any(user_ids)
+    and (
+        auth.jwt() ->> 'role' = 'super_admin'
+        or u.id = auth.uid()
+        or exists (
+            select 1
+            from public.trainer_client tc
+            where tc.client_id = u.id
+            and tc.trainer_id = auth.uid()
+        )
+    );
+$$ language sql stable security definer set search_path = '';
+
+comment on table public.invitations is 'One-time activation links of invited trainers and clients';
+comment on column public.invitations.expires_at is '24 hours after sending; a sent link past this time counts as expired';
+comment on function public.get_activation_statuses is 'pending until the user accepted an invitation (or, without invitations, signed in), then active';
@@ -0,0 +1,44 @@
+-- Migration: Revoke user sessions
+-- Description: Ends every session of a user at once, for password resets started by
+--              a super_admin or the user's trainer
+-- Tables affected: auth.sessions, auth.refresh_tokens
+-- Functions affected: revoke_user_sessions
+-- Date: 2025-11-08
+
+-- Deleting the sessions makes their access tokens fail at the next getUser() and their
+-- refresh tokens unusable. auth.sessions is not exposed through the API, so this runs as
+-- definer and answers super_admin, and trainers for their active clients, only.
+-- Returns the number of sessions ended.
+create or replace function public.revoke_user_sessions(p_user_id uuid)
+returns integer as $$
+declare
+    revoked_count integer;
+begin
+    if not (
+        auth.jwt() ->> 'role' = 'super_admin'
+        or (
+            auth.jwt() ->> 'role' = 'trainer'
+            and exists (
+                select 1
+                from public.trainer_client tc
+                where tc.trainer_id = auth.uid()
+                and tc.client_id = p_user_id
+                and tc.is_active = true
+            )
+        )
+    ) then
+        raise exception 'not allowed to revoke sessions of user %', p_user_id
+            using errcode = '42501';
+    end if;
+
+    -- refresh tokens issued before sessions existed are not removed by the cascade
+    delete from auth.refresh_tokens where user_id = p_user_id::text;
+
+    delete from auth.sessions where user_id = p_user_id;
+    get diagnostics revoked_count = row_count;
+
+    return revoked_count;
+end;
+$$ language plpgsql volatile security definer set search_path = '';
+
+comment on function public.revoke_user_sessions is 'Ends all sessions of a user; super_admin, or the trainer of an active client';
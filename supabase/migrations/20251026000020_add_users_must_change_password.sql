@@ -0,0 +1,11 @@
+-- Migration: Forced password change
+-- Description: Flags users who have to set their own password before using the app,
+--              such as new trainers and clients and users whose password was reset
+-- Tables affected: users
+-- Date: 2025-11-09
+
+-- Existing users keep the password they have
+alter table public.users
+    add column must_change_password boolean not null default false;
+
+comment on column public.users.must_change_password is 'Set for new accounts and password resets; cleared once the user saves a password meeting the policy';
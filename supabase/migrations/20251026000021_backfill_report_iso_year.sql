@@ -0,0 +1,98 @@
+-- Migration: Backfill ISO week and year of reports
+-- Description: 20251026000010 switched the trigger to the ISO week-numbering year but left
+--              reports whose move would collide with another report of the same client,
+--              week and sequence. This recomputes year and week_number of every report.
+-- Tables affected: reports, report_week_conflicts
+-- Date: 2025-11-10
+
+-- Reports the backfill could not move, left as they are for a person to sort out
+create table public.report_week_conflicts (
+    report_id uuid primary key references public.reports(id) on delete cascade,
+    client_id uuid not null references public.clients(id) on delete cascade,
+    -- week the report is still stored under
+    year integer not null,
+    week_number integer not null,
+    -- ISO week it belongs to, where both sequences are taken
+    iso_year integer not null,
+    iso_week integer not null,
+    created_at timestamptz not null default now()
+);
+
+alter table public.report_week_conflicts enable row level security;
+
+-- Only super_admin looks at the conflicts; they are resolved by hand in the database
+create policy "super_admin_read_report_week_conflicts"
+    on public.report_week_conflicts
+    as permissive
+    for select
+    to authenticated
+    using (auth.jwt() ->> 'role' = 'super_admin');
+
+-- Collision rule: a report keeps its sequence if that slot of its ISO week is free, else it
+-- takes the other sequence. Rows are moved one at a time, oldest first, and passes repeat while
+-- any row moves, since moving a report frees its old slot for another. A report that still finds
+-- both slots of its ISO week taken (a third report in one week, only possible under the old
+-- numbering) stays where it is, unchanged, and is listed in report_week_conflicts for review.
+do $$
+declare
+    misplaced record;
+    free_sequence integer;
+    moved_count integer;
+begin
+    loop
+        moved_count := 0;
+
+        for misplaced in
+            select
+                r.id,
+                r.client_id,
+                r.sequence,
+                extract(isoyear from r.created_at)::integer as iso_year,
+                extract(week from r.created_at)::integer as iso_week
+            from public.reports r
+            where r.year <> extract(isoyear from r.created_at)
+            or r.week_number <> extract(week from r.created_at)
+            order by r.created_at, r.id
+        loop
+            select s.sequence into free_sequence
+            from (values (0), (1)) as s(sequence)
+            where not exists (
+                select 1
+                from public.reports other
+                where other.client_id = misplaced.client_id
+                and other.year = misplaced.iso_year
+                and other.week_number = misplaced.iso_week
+                and other.sequence = s.sequence
+            )
+            order by s.sequence <> misplaced.sequence, s.sequence
+            limit 1;
+
+            if free_sequence is not null then
+                update public.reports
+                set year = misplaced.iso_year,
+                    week_number = misplaced.iso_week,
+                    sequence = free_sequence
+                where id = misplaced.id;
+
+                moved_count := moved_count + 1;
+            end if;
+        end loop;
+
+        exit when moved_count = 0;
+    end loop;
+
+    insert into public.report_week_conflicts (report_id, client_id, year, week_number, iso_year, iso_week)
+    select
+        r.id,
+        r.client_id,
+        r.year,
+        r.week_number,
+        extract(isoyear from r.created_at)::integer,
+        extract(week from r.created_at)::integer
+    from public.reports r
+    where r.year <> extract(isoyear from r.created_at)
+    or r.week_number <> extract(week from r.created_at);
+end;
+$$;
+
+comment on table public.report_week_conflicts is 'Reports left under their old week because both sequences of their ISO week were taken';
@@ -0,0 +1,32 @@
+-- Migration: Mark only listed report comments as read
+-- Description: mark_report_comments_read marked every comment of a report as read, also those
+--              on pages the caller never fetched. It now takes the ids of the listed comments.
+-- Functions affected: mark_report_comments_read
+-- Date: 2025-11-10
+
+drop function if exists public.mark_report_comments_read(uuid);
+
+-- Marks the given comments of the other side of the conversation as read; ids of other
+-- reports, own comments and comments read before are left alone
+create or replace function public.mark_report_comments_read(p_report_id uuid, p_comment_ids uuid[])
+returns integer as $$
+declare
+    marked integer;
+begin
+    if not public.is_report_participant(p_report_id) then
+        return 0;
+    end if;
+
+    update public.report_comments
+    set read_at = now()
+    where report_id = p_report_id
+    and id = any(p_comment_ids)
+    and read_at is null
+    and author_role <> (auth.jwt() ->> 'role');
+
+    get diagnostics marked = row_count;
+    return marked;
+end;
+$$ language plpgsql security definer set search_path = public;
+
+comment on function public.mark_report_comments_read is 'Marks the listed comments of the other participant as read';
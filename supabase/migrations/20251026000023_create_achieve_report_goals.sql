@@ -0,0 +1,55 @@
+-- Migration: Goal evaluation as the database
+-- Description: Clients may only read their goals, so marking goals achieved by a report they
+--              submitted matched no rows. The evaluation now runs as definer, for the report's
+--              participants, with the values stored on the report.
+-- Tables affected: client_goals
+-- Functions affected: achieve_report_goals
+-- Date: 2025-11-10
+
+-- Marks the active goals of the report's client that the report meets ('below': value at or
+-- under the target, 'above': at or over it) as achieved by that report. Returns their ids.
+-- Answers super_admin and participants of the report (the client and their active trainers).
+create or replace function public.achieve_report_goals(p_report_id uuid)
+returns setof uuid as $$
+    with report as (
+        select r.*
+        from public.reports r
+        where r.id = p_report_id
+        and r.deleted_at is null
+        and (auth.jwt() ->> 'role' = 'super_admin' or public.is_report_participant(p_report_id))
+    ),
+    met as (
+        select g.id
+        from public.client_goals g
+        join report r on r.client_id = g.client_id
+        cross join lateral (
+            select case g.metric
+                when 'weight' then r.weight
+                when 'waist' then r.waist
+                when 'chest' then r.chest
+                when 'biceps_left' then r.biceps_left
+                when 'biceps_right' then r.biceps_right
+                when 'thigh_left' then r.thigh_left
+                when 'thigh_right' then r.thigh_right
+                when 'cardio_days' then r.cardio_days
+            end::numeric as value
+        ) reported
+        where g.status = 'active'
+        and reported.value is not null
+        and case g.direction
+            when 'below' then reported.value <= g.target_value
+            else reported.value >= g.target_value
+        end
+    )
+    update public.client_goals g
+    set status = 'achieved',
+        achieved_at = now(),
+        achieved_report_id = p_report_id
+    from met
+    where g.id = met.id
+    -- a concurrent report may have achieved them already
+    and g.status = 'active'
+    returning g.id;
+$$ language sql volatile security definer set search_path = '';
+
+comment on function public.achieve_report_goals is 'Marks the goals a report meets as achieved; super_admin or report participants';
@@ -0,0 +1,48 @@
+-- Migration: Activation in the super-admin statistics follows invitations
+-- Description: admin_user_stats counted users as active once they signed in, while the rest
+--              of the app (get_activation_statuses) counts them active once they accepted an
+--              invitation. Both now use the same rule.
+-- Functions affected: admin_user_stats
+-- Date: 2025-11-10
+
+-- Active: an accepted invitation, or for accounts that never had an invitation a sign-in.
+-- Activation time runs from the first invitation to its acceptance (for accounts without
+-- invitations, from the auth invitation to the first confirmation as before).
+create or replace function public.admin_user_stats()
+returns table (
+    role text,
+    total integer,
+    active integer,
+    avg_activation_seconds double precision
+) as $$
+    select
+        u.role,
+        count(*)::integer,
+        count(activation.activated_at)::integer,
+        extract(epoch from avg(activation.activated_at - activation.invited_at))::double precision
+    from public.users u
+    left join auth.users au on au.id = u.id
+    cross join lateral (
+        select
+            count(*) as invitation_count,
+            min(i.created_at) as first_sent_at,
+            min(i.accepted_at) filter (where i.status = 'accepted') as accepted_at
+        from public.invitations i
+        where i.user_id = u.id
+    ) inv
+    cross join lateral (
+        select
+            case
+                when inv.invitation_count > 0 then inv.accepted_at
+                when au.last_sign_in_at is not null
+                    then coalesce(au.email_confirmed_at, au.phone_confirmed_at, au.last_sign_in_at)
+            end as activated_at,
+            case
+                when inv.invitation_count > 0 then inv.first_sent_at
+                else coalesce(au.invited_at, au.created_at)
+            end as invited_at
+    ) activation
+    where u.deleted_at is null
+    and auth.jwt() ->> 'role' = 'super_admin'
+    group by u.role;
+$$ language sql stable security definer set search_path = '';
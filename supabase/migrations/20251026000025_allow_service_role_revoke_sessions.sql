@@ -0,0 +1,40 @@
+-- Migration: Revoke user sessions when a link sets the password
+-- Description: Accepting an activation or password reset link ends the user's other sessions,
+--              so a session opened before the new password cannot outlive it. Accepting runs
+--              with the service role, which revoke_user_sessions now answers as well.
+-- Functions affected: revoke_user_sessions
+-- Date: 2025-11-10
+
+create or replace function public.revoke_user_sessions(p_user_id uuid)
+returns integer as $$
+declare
+    revoked_count integer;
+begin
+    if not (
+        auth.jwt() ->> 'role' in ('super_admin', 'service_role')
+        or (
+            auth.jwt() ->> 'role' = 'trainer'
+            and exists (
+                select 1
+                from public.trainer_client tc
+                where tc.trainer_id = auth.uid()
+                and tc.client_id = p_user_id
+                and tc.is_active = true
+            )
+        )
+    ) then
+        raise exception 'not allowed to revoke sessions of user %', p_user_id
+            using errcode = '42501';
+    end if;
+
+    -- refresh tokens issued before sessions existed are not removed by the cascade
+    delete from auth.refresh_tokens where user_id = p_user_id::text;
+
+    delete from auth.sessions where user_id = p_user_id;
+    get diagnostics revoked_count = row_count;
+
+    return revoked_count;
+end;
+$$ language plpgsql volatile security definer set search_path = '';
+
+comment on function public.revoke_user_sessions is 'Ends all sessions of a user; super_admin, the trainer of an active client, or the service role';
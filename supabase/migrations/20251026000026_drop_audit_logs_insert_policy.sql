@@ -0,0 +1,8 @@
+-- Migration: Audit log written by the server only
+-- Description: Signed-in users could insert entries of their own choosing straight through the REST API.
+--              The API now writes every entry with the service role, so authenticated gets no insert policy
+--              and the log only holds what the server recorded.
+-- Tables affected: audit_logs
+-- Date: 2025-11-11
+
+drop policy if exists "authenticated_insert_own_audit_logs" on public.audit_logs;
@@ -0,0 +1,25 @@
+-- Migration: Submitted weeks for compliance
+-- Description: Groups report submissions by ISO week in the database, so trainer compliance
+--              gets one row per week instead of one per report, which the API row limit cut short
+-- Functions affected: client_submitted_weeks
+-- Date: 2025-11-11
+
+-- ISO weeks (year/week_number as stored on reports) with the given clients that reported in them,
+-- for reports created since p_since. Several reports of one client in a week count once.
+-- Runs with the caller's rights, so the usual RLS policies apply.
+create function public.client_submitted_weeks(p_client_ids uuid[], p_since timestamptz)
+returns table (
+    year integer,
+    week_number integer,
+    client_ids uuid[]
+) as $$
+    select r.year, r.week_number, array_agg(distinct r.client_id)
+    from public.reports r
+    where r.client_id = any(p_client_ids)
+    and r.created_at >= p_since
+    and r.deleted_at is null
+    group by r.year, r.week_number
+    order by r.year, r.week_number;
+$$ language sql stable;
+
+comment on function public.client_submitted_weeks is 'ISO weeks with the clients that submitted a report in them';
@@ -0,0 +1,17 @@
+-- Migration: Failed purge attempts of report images
+-- Description: Counts the retention runs that failed to purge an image, so images that keep
+--              failing go to the end of the batch instead of filling every run
+-- Tables affected: report_images
+-- Date: 2025-11-11
+
+alter table public.report_images
+    add column purge_attempts integer not null default 0;
+
+-- The retention job takes the fewest failed attempts first, then the oldest deletion
+drop index if exists public.idx_report_images_pending_purge;
+
+create index idx_report_images_pending_purge
+    on public.report_images (purge_attempts, deleted_at)
+    where is_deleted and purged_at is null;
+
+comment on column public.report_images.purge_attempts is 'Retention runs that failed to delete or archive the storage objects';